@@ -28,6 +28,13 @@ export const ICE_CONFIG = {
 // - 'webrtc': legacy P2P data channels
 export const TRANSPORT_MODE = 'pubsub';
 
+// Who computes clock offsets:
+// - 'leader': leader computes every peer's offset and sends it back
+// - 'peer': leader broadcasts one ping stream, each peer computes its own offset (opt-in)
+// Leaders and peers must run the same mode; change it per deployment (here or via
+// CLOCK_SYNC_MODE in config.local.json), never on one side only.
+export const CLOCK_SYNC_MODE = 'leader';
+
 // Signaling backend used by selected transport runtime.
 // - 'mock': BroadcastChannel (local multi-tab)
 // - 'supabase': Supabase Realtime Broadcast
@@ -61,6 +61,7 @@ const appVersion = pick(mergedEnv, 'APP_VERSION', '') || detectGitShortSha();
 
 const output = {
   TRANSPORT_MODE: pick(mergedEnv, 'TRANSPORT_MODE', 'pubsub'),
+  CLOCK_SYNC_MODE: pick(mergedEnv, 'CLOCK_SYNC_MODE', 'leader'),
   SIGNALING_BACKEND: pick(mergedEnv, 'SIGNALING_BACKEND', 'ably'),
   SUPABASE_CONFIG: {
     url: pick(mergedEnv, 'SUPABASE_URL', ''),
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { AudioClock } from './audio-clock.js';
+import { VirtualClock } from '../sim/virtual-clock.js';
+
+const RENDER_QUANTUM_SEC = 128 / 48000;
+
+/**
+ * An audio clock that runs at its own rate and advances in render quanta
+ */
+function createAudioDevice(clock: VirtualClock, driftPpm: number, startSec = 3) {
+  let pausedForMs = 0;
+  return {
+    suspendFor(ms: number) {
+      pausedForMs += ms;
+    },
+    get currentTime(): number {
+      const exact = startSec + ((clock.now() - pausedForMs) / 1000) * (1 + driftPpm / 1e6);
+      return Math.floor(exact / RENDER_QUANTUM_SEC) * RENDER_QUANTUM_SEC;
+    },
+    exactTimeAt(ms: number): number {
+      return startSec + ((ms - pausedForMs) / 1000) * (1 + driftPpm / 1e6);
+    }
+  };
+}
+
+async function observeFor(
+  clock: VirtualClock,
+  audioClock: AudioClock,
+  device: { currentTime: number },
+  ms: number,
+  outputLatencyMs: number | null = null
+) {
+  for (let elapsed = 0; elapsed < ms; elapsed += 50) {
+    audioClock.observe(device, outputLatencyMs);
+    await clock.advance(50);
+  }
+}
+
+describe('AudioClock', () => {
+  it('tracks drift and smooths render-quantum jitter', async () => {
+    const clock = new VirtualClock();
+    const audioClock = new AudioClock(clock.createTimebase());
+    const device = createAudioDevice(clock, 150);
+    await observeFor(clock, audioClock, device, 30_000);
+
+    expect(audioClock.getDriftPpm()).toBeGreaterThan(130);
+    expect(audioClock.getDriftPpm()).toBeLessThan(170);
+    // Half a render quantum of bias from flooring is expected
+    const aheadMs = clock.now() + 400;
+    const errorMs = (audioClock.toContextTime(aheadMs) - device.exactTimeAt(aheadMs)) * 1000;
+    expect(Math.abs(errorMs + (RENDER_QUANTUM_SEC * 1000) / 2)).toBeLessThan(0.3);
+  });
+
+  it('schedules ahead of the reported output latency', async () => {
+    const clock = new VirtualClock();
+    const audioClock = new AudioClock(clock.createTimebase());
+    const device = createAudioDevice(clock, 0);
+    await observeFor(clock, audioClock, device, 2000, 120);
+
+    // A sound heard 120 ms from now must start at the current render position
+    expect(audioClock.toContextTime(clock.now() + 120)).toBeCloseTo(
+      device.exactTimeAt(clock.now()),
+      2
+    );
+  });
+
+  it('resyncs after the context was suspended', async () => {
+    const clock = new VirtualClock();
+    const audioClock = new AudioClock(clock.createTimebase());
+    const device = createAudioDevice(clock, 0);
+    await observeFor(clock, audioClock, device, 3000);
+
+    device.suspendFor(4000);
+    await observeFor(clock, audioClock, device, 500);
+    expect(audioClock.toContextTime(clock.now())).toBeCloseTo(device.exactTimeAt(clock.now()), 2);
+  });
+
+  it('pairs clocks through output timestamps where available', () => {
+    const clock = new VirtualClock();
+    const audioClock = new AudioClock(clock.createTimebase(), true);
+    audioClock.observe(
+      {
+        currentTime: 10,
+        getOutputTimestamp: () => ({ contextTime: 9.95, performanceTime: 5000 })
+      },
+      null
+    );
+
+    expect(audioClock.toContextTime(5000)).toBeCloseTo(9.95, 9);
+    expect(audioClock.toContextTime(5100)).toBeCloseTo(10.05, 9);
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Mapping between the timebase (performance.now()) and the AudioContext clock
+ *
+ * The two clocks come from different crystals (the audio device runs its own), so a
+ * one-shot conversion at every refill jitters with render-quantum granularity and
+ * jumps when the context is suspended. Instead, (heard-at, context-time) pairs are
+ * collected and a least-squares line through their offsets gives the offset and
+ * drift between the clocks, as ClockSync does between devices.
+ *
+ * Where available, getOutputTimestamp() pairs a context time with the moment it
+ * leaves the output, which already includes the output latency; otherwise the
+ * context's render position is paired with now plus the reported output latency.
+ */
+
+import { fitLine } from '../sync/stats.js';
+import { Timebase, systemTimebase } from '../sync/timebase.js';
+
+const SAMPLE_INTERVAL_MS = 250;
+const SAMPLE_WINDOW_SIZE = 120; // About 30 seconds
+const MIN_DRIFT_SPAN_MS = 5000; // Shorter spans cannot tell drift from jitter
+const MAX_DRIFT_PPM = 1000;
+// Further off than this, the audio clock jumped (suspend/resume, device change)
+const RESYNC_THRESHOLD_MS = 25;
+
+interface ClockPair {
+  heardAtMs: number; // Timebase time the context time is heard
+  contextMs: number; // Context time in milliseconds
+}
+
+/**
+ * The subset of AudioContext the mapping reads
+ */
+export type AudioClockSource = Pick<AudioContext, 'currentTime'> &
+  Partial<Pick<AudioContext, 'getOutputTimestamp'>>;
+
+export class AudioClock {
+  private pairs: ClockPair[] = [];
+  // context(t) = t + offsetMs + drift * (t - atMs)
+  private offsetMs = 0;
+  private drift = 0;
+  private atMs = 0;
+  private synced = false;
+
+  /**
+   * @param timebase - Clock the beat grid is expressed in
+   * @param useOutputTimestamp - Output timestamps are in performance.now() time, so
+   *   only use them when the timebase is performance.now()
+   */
+  constructor(
+    private readonly timebase: Timebase = systemTimebase,
+    private readonly useOutputTimestamp: boolean = timebase === systemTimebase
+  ) {}
+
+  /**
+   * Take a fresh reading of both clocks (called on every scheduler refill)
+   */
+  observe(context: AudioClockSource, outputLatencyMs: number | null): void {
+    const pair = this.readPair(context, outputLatencyMs);
+    if (
+      this.synced &&
+      Math.abs(this.toContextMs(pair.heardAtMs) - pair.contextMs) > RESYNC_THRESHOLD_MS
+    ) {
+      this.reset();
+    }
+
+    const last = this.pairs[this.pairs.length - 1];
+    if (last && pair.heardAtMs - last.heardAtMs < SAMPLE_INTERVAL_MS) {
+      return;
+    }
+
+    this.pairs.push(pair);
+    if (this.pairs.length > SAMPLE_WINDOW_SIZE) {
+      this.pairs.shift();
+    }
+    this.fit();
+  }
+
+  /**
+   * Context time (seconds) to start a sound at so it is heard at a timebase time
+   */
+  toContextTime(heardAtMs: number): number {
+    return this.toContextMs(heardAtMs) / 1000;
+  }
+
+  /**
+   * Rate of the audio clock against the timebase (positive = audio clock runs fast)
+   */
+  getDriftPpm(): number {
+    return this.drift * 1e6;
+  }
+
+  reset(): void {
+    this.pairs = [];
+    this.offsetMs = 0;
+    this.drift = 0;
+    this.atMs = 0;
+    this.synced = false;
+  }
+
+  private toContextMs(heardAtMs: number): number {
+    return heardAtMs + this.offsetMs + this.drift * (heardAtMs - this.atMs);
+  }
+
+  private readPair(context: AudioClockSource, outputLatencyMs: number | null): ClockPair {
+    if (this.useOutputTimestamp && context.getOutputTimestamp) {
+      const { contextTime, performanceTime } = context.getOutputTimestamp();
+      // Both are 0 until the output has started
+      if (contextTime !== undefined && performanceTime !== undefined && performanceTime > 0) {
+        return { heardAtMs: performanceTime, contextMs: contextTime * 1000 };
+      }
+    }
+
+    return {
+      heardAtMs: this.timebase.now() + (outputLatencyMs ?? 0),
+      contextMs: context.currentTime * 1000
+    };
+  }
+
+  private fit(): void {
+    const fit = fitLine(
+      this.pairs.map((pair) => pair.heardAtMs),
+      this.pairs.map((pair) => pair.contextMs - pair.heardAtMs)
+    );
+    if (!fit) {
+      return;
+    }
+
+    const spanMs = this.pairs[this.pairs.length - 1].heardAtMs - this.pairs[0].heardAtMs;
+    const maxDrift = MAX_DRIFT_PPM / 1e6;
+    this.drift =
+      spanMs >= MIN_DRIFT_SPAN_MS ? Math.max(-maxDrift, Math.min(maxDrift, fit.slope)) : 0;
+    this.offsetMs = fit.yAtMean;
+    this.atMs = fit.xMean;
+    this.synced = true;
+  }
+}
@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { createChirp, crossCorrelationPeak, estimateClickLag, resample } from './calibration.js';
+import { createSeededRandom } from '../sim/random.js';
+
+const SAMPLE_RATE = 16000;
+
+function tonalClick(frequency: number): Float32Array {
+  const click = new Float32Array(Math.round(0.05 * SAMPLE_RATE));
+  for (let i = 0; i < click.length; i++) {
+    const t = i / SAMPLE_RATE;
+    click[i] = Math.sin(2 * Math.PI * frequency * t) * Math.exp(-10 * t) * 0.5;
+  }
+  return click;
+}
+
+/**
+ * Noisy recording with each click mixed in at its due time plus a lag
+ */
+function record(
+  durationSec: number,
+  clicks: Array<{ atSec: number; lagMs: number; sound: Float32Array; gain?: number }>,
+  noise = 0.02
+): Float32Array {
+  const random = createSeededRandom(42);
+  const recording = new Float32Array(Math.round(durationSec * SAMPLE_RATE));
+  for (let i = 0; i < recording.length; i++) {
+    recording[i] = (random() * 2 - 1) * noise;
+  }
+  for (const { atSec, lagMs, sound, gain = 0.3 } of clicks) {
+    const start = Math.round((atSec + lagMs / 1000) * SAMPLE_RATE);
+    for (let k = 0; k < sound.length && start + k < recording.length; k++) {
+      recording[start + k] += sound[k] * gain;
+    }
+  }
+  return recording;
+}
+
+describe('crossCorrelationPeak', () => {
+  it('finds the template inside a signal', () => {
+    const chirp = createChirp(SAMPLE_RATE);
+    const signal = record(0.5, [{ atSec: 0.2, lagMs: 0, sound: chirp }], 0);
+    const peak = crossCorrelationPeak(signal, chirp, 0, signal.length);
+    expect(peak?.index).toBe(0.2 * SAMPLE_RATE);
+    expect(peak?.score).toBeCloseTo(1, 6);
+  });
+});
+
+describe('resample', () => {
+  it('keeps the shape of a signal at a new rate', () => {
+    const ramp = Float32Array.from({ length: 441 }, (_, i) => i / 441);
+    const resampled = resample(ramp, 44100, 48000);
+    expect(resampled).toHaveLength(480);
+    expect(resampled[240]).toBeCloseTo(220.5 / 441, 6);
+  });
+});
+
+describe('estimateClickLag', () => {
+  it('measures the round trip of a chirp train', () => {
+    const chirp = createChirp(SAMPLE_RATE);
+    const dueSec = [0.3, 0.7, 1.1, 1.5, 1.9, 2.3];
+    // Room echo adds a weaker copy a few milliseconds later
+    const recording = record(3, [
+      ...dueSec.map((atSec) => ({ atSec, lagMs: 187.5, sound: chirp })),
+      ...dueSec.map((atSec) => ({ atSec, lagMs: 194, sound: chirp, gain: 0.1 }))
+    ]);
+
+    const estimate = estimateClickLag(
+      recording,
+      SAMPLE_RATE,
+      dueSec.map((atSec) => ({ atSec, template: chirp })),
+      { minLagMs: 0, maxLagMs: 350 }
+    );
+    expect(estimate?.lagMs).toBeCloseTo(187.5, 1);
+    expect(estimate?.matched).toBe(dueSec.length);
+    expect(estimate?.spreadMs).toBeLessThan(0.1);
+  });
+
+  it('measures early and late clicks around the due time', () => {
+    const strong = tonalClick(1200);
+    const weak = tonalClick(800);
+    const clicks = [
+      { atSec: 0.5, template: strong },
+      { atSec: 1.0, template: weak },
+      { atSec: 1.5, template: weak },
+      { atSec: 2.0, template: strong }
+    ];
+    const lags = [-6, -7.5, -6.5, -6];
+    const recording = record(
+      2.5,
+      clicks.map(({ atSec, template }, i) => ({ atSec, lagMs: lags[i], sound: template }))
+    );
+
+    const estimate = estimateClickLag(recording, SAMPLE_RATE, clicks, {
+      minLagMs: -100,
+      maxLagMs: 100
+    });
+    expect(estimate?.lagMs).toBeCloseTo(-6.25, 1);
+    expect(estimate?.matched).toBe(4);
+  });
+
+  it('gives up when the clicks cannot be heard', () => {
+    const chirp = createChirp(SAMPLE_RATE);
+    const recording = record(2, [], 0.05);
+    expect(
+      estimateClickLag(
+        recording,
+        SAMPLE_RATE,
+        [0.3, 0.8, 1.3].map((atSec) => ({ atSec, template: chirp })),
+        { minLagMs: 0, maxLagMs: 350 }
+      )
+    ).toBeNull();
+  });
+});
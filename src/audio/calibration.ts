@@ -0,0 +1,155 @@
+/**
+ * Acoustic calibration analysis
+ * Finds where known clicks landed in a microphone recording by normalized
+ * cross-correlation, so the delay between "scheduled" and "heard" can be measured.
+ * Pure functions over sample buffers (no Web Audio), testable with synthetic input.
+ */
+
+const CHIRP_DURATION_SEC = 0.02;
+const CHIRP_FROM_HZ = 1500;
+const CHIRP_TO_HZ = 6000;
+const MIN_MATCH_SCORE = 0.35; // Normalized correlation a click must reach to count as heard
+const MIN_MATCHED_SHARE = 0.5; // Of the expected clicks
+
+/**
+ * A click expected in the recording
+ */
+export interface ExpectedClick {
+  atSec: number; // Time from the start of the recording the click was due
+  template: Float32Array; // The sound that was played
+}
+
+export interface LagWindow {
+  minLagMs: number;
+  maxLagMs: number;
+}
+
+export interface LagEstimate {
+  lagMs: number; // Median delay from due to heard
+  spreadMs: number; // Range of the matched delays
+  matched: number; // Clicks found above the score threshold
+}
+
+/**
+ * Linear sine sweep with a raised-cosine envelope: unlike a tonal click it has
+ * one sharp correlation peak, so the onset cannot be mistaken by a whole period
+ */
+export function createChirp(sampleRate: number): Float32Array {
+  const length = Math.round(CHIRP_DURATION_SEC * sampleRate);
+  const chirp = new Float32Array(length);
+  const sweepRate = (CHIRP_TO_HZ - CHIRP_FROM_HZ) / CHIRP_DURATION_SEC;
+  for (let i = 0; i < length; i++) {
+    const t = i / sampleRate;
+    const phase = 2 * Math.PI * (CHIRP_FROM_HZ * t + (sweepRate * t * t) / 2);
+    const envelope = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (length - 1));
+    chirp[i] = Math.sin(phase) * envelope * 0.8;
+  }
+  return chirp;
+}
+
+/**
+ * Linear-interpolation resample, e.g. a click buffer made at 44.1 kHz for a 48 kHz recording
+ */
+export function resample(samples: Float32Array, fromRate: number, toRate: number): Float32Array {
+  if (fromRate === toRate) {
+    return samples;
+  }
+
+  const length = Math.max(1, Math.round((samples.length * toRate) / fromRate));
+  const resampled = new Float32Array(length);
+  for (let i = 0; i < length; i++) {
+    const position = (i * fromRate) / toRate;
+    const index = Math.floor(position);
+    const next = samples[Math.min(index + 1, samples.length - 1)];
+    resampled[i] = samples[index] + (next - samples[index]) * (position - index);
+  }
+  return resampled;
+}
+
+/**
+ * Best normalized cross-correlation of template within signal, for template
+ * start indices in [fromIndex, toIndex]. Score is in [-1, 1].
+ */
+export function crossCorrelationPeak(
+  signal: Float32Array,
+  template: Float32Array,
+  fromIndex: number,
+  toIndex: number
+): { index: number; score: number } | null {
+  const first = Math.max(0, fromIndex);
+  const last = Math.min(toIndex, signal.length - template.length);
+  if (template.length === 0 || last < first) {
+    return null;
+  }
+
+  let templateEnergy = 0;
+  for (let k = 0; k < template.length; k++) {
+    templateEnergy += template[k] * template[k];
+  }
+  if (templateEnergy === 0) {
+    return null;
+  }
+
+  // Running energy of the signal window under the template
+  let windowEnergy = 0;
+  for (let k = 0; k < template.length; k++) {
+    windowEnergy += signal[first + k] * signal[first + k];
+  }
+
+  let best: { index: number; score: number } | null = null;
+  for (let index = first; index <= last; index++) {
+    if (index > first) {
+      const leaving = signal[index - 1];
+      const entering = signal[index + template.length - 1];
+      windowEnergy += entering * entering - leaving * leaving;
+    }
+
+    let dot = 0;
+    for (let k = 0; k < template.length; k++) {
+      dot += signal[index + k] * template[k];
+    }
+    const norm = Math.sqrt(templateEnergy * Math.max(windowEnergy, 0));
+    const score = norm > 0 ? dot / norm : 0;
+    if (!best || score > best.score) {
+      best = { index, score };
+    }
+  }
+  return best;
+}
+
+/**
+ * Delay between when clicks were due and where they show up in a recording.
+ * Null when too few clicks were heard (volume too low, mic blocked, too noisy).
+ */
+export function estimateClickLag(
+  recording: Float32Array,
+  sampleRate: number,
+  clicks: ExpectedClick[],
+  window: LagWindow
+): LagEstimate | null {
+  const lagsMs: number[] = [];
+  for (const click of clicks) {
+    const dueIndex = click.atSec * sampleRate;
+    const peak = crossCorrelationPeak(
+      recording,
+      click.template,
+      Math.ceil(dueIndex + (window.minLagMs / 1000) * sampleRate),
+      Math.floor(dueIndex + (window.maxLagMs / 1000) * sampleRate)
+    );
+    if (peak && peak.score >= MIN_MATCH_SCORE) {
+      lagsMs.push(((peak.index - dueIndex) / sampleRate) * 1000);
+    }
+  }
+
+  if (lagsMs.length === 0 || lagsMs.length < clicks.length * MIN_MATCHED_SHARE) {
+    return null;
+  }
+
+  const sorted = [...lagsMs].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return {
+    lagMs: sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid],
+    spreadMs: sorted[sorted.length - 1] - sorted[0],
+    matched: sorted.length
+  };
+}
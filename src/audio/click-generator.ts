@@ -1,79 +1,91 @@
 /**
- * Audio buffer generation for metronome clicks
- * Generates distinct sounds for downbeats (accent) and regular beats
+ * Audio buffers for metronome clicks, rendered from the selected sound kit
+ * Distinct sounds for each accent level (strong, medium, weak) plus a quieter
+ * tick for subdivisions and a low count-in click
  */
 
-const SAMPLE_RATE = 44100;
-const CLICK_DURATION_MS = 50;
-const CLICK_DURATION_SAMPLES = Math.floor((CLICK_DURATION_MS / 1000) * SAMPLE_RATE);
+import { AccentLevel } from '../types.js';
+import { KitVoice, SoundKitId, SoundSample, renderKitSound } from './sound-kits.js';
 
 /**
- * Generate a click sound buffer using a sine wave with envelope
- * @param context - AudioContext for buffer creation
- * @param frequency - Frequency in Hz (higher = brighter sound)
- * @param accent - Whether this is an accented beat
+ * Voice a beat is played with (null for muted beats)
  */
-export function generateClickBuffer(
-  context: AudioContext,
-  frequency: number,
-  accent: boolean = false
-): AudioBuffer {
-  const buffer = context.createBuffer(1, CLICK_DURATION_SAMPLES, SAMPLE_RATE);
-  const data = buffer.getChannelData(0);
-
-  const amplitude = accent ? 0.8 : 0.5;
-
-  for (let i = 0; i < CLICK_DURATION_SAMPLES; i++) {
-    const t = i / SAMPLE_RATE;
-
-    // Sine wave
-    const sineWave = Math.sin(2 * Math.PI * frequency * t);
-
-    // Exponential decay envelope for percussive sound
-    const envelope = Math.exp(-10 * t);
-
-    data[i] = sineWave * envelope * amplitude;
+export function beatVoice(level: AccentLevel, isCountIn: boolean): KitVoice | null {
+  if (isCountIn) {
+    return 'countIn';
   }
-
-  return buffer;
+  return level === 'mute' ? null : level;
 }
 
 /**
  * Click sound cache to avoid regenerating buffers
  */
 export class ClickSoundCache {
-  private regularClick: AudioBuffer | null = null;
-  private accentClick: AudioBuffer | null = null;
-
-  private readonly REGULAR_FREQ = 800; // Hz
-  private readonly ACCENT_FREQ = 1200; // Hz (higher pitch for downbeat)
+  private buffers = new Map<string, AudioBuffer>();
+  private sample: SoundSample | null = null;
+  private releaseListeners = new Set<(buffers: AudioBuffer[]) => void>();
 
   /**
-   * Get regular beat click buffer
+   * Get click buffer for a voice of a kit.
+   * beatInBar only matters for kits that count the beats out loud.
    */
-  getRegularClick(context: AudioContext): AudioBuffer {
-    if (!this.regularClick) {
-      this.regularClick = generateClickBuffer(context, this.REGULAR_FREQ, false);
+  getClick(context: AudioContext, kit: SoundKitId, voice: KitVoice, beatInBar = 0): AudioBuffer {
+    // At the context rate, so the click worklet can play the samples as they are
+    const sampleRate = context.sampleRate;
+    const key = `${kit}:${voice}:${kit === 'voice' ? beatInBar : 0}:${sampleRate}`;
+    let buffer = this.buffers.get(key);
+    if (!buffer) {
+      const samples = renderKitSound(kit, voice, sampleRate, beatInBar, this.sample);
+      buffer = context.createBuffer(1, samples.length, sampleRate);
+      buffer.getChannelData(0).set(samples);
+      this.buffers.set(key, buffer);
     }
-    return this.regularClick;
+    return buffer;
   }
 
   /**
-   * Get accented beat click buffer (for downbeats)
+   * Set the user-uploaded sound played by the 'sample' kit
    */
-  getAccentClick(context: AudioContext): AudioBuffer {
-    if (!this.accentClick) {
-      this.accentClick = generateClickBuffer(context, this.ACCENT_FREQ, true);
+  setSample(sample: SoundSample | null): void {
+    this.sample = sample;
+    const released: AudioBuffer[] = [];
+    for (const [key, buffer] of this.buffers) {
+      if (key.startsWith('sample:')) {
+        this.buffers.delete(key);
+        released.push(buffer);
+      }
     }
-    return this.accentClick;
+    this.release(released);
+  }
+
+  hasSample(): boolean {
+    return this.sample !== null;
   }
 
   /**
    * Clear cached buffers (e.g., when context changes)
    */
   clear(): void {
-    this.regularClick = null;
-    this.accentClick = null;
+    const released = [...this.buffers.values()];
+    this.buffers.clear();
+    this.release(released);
+  }
+
+  /**
+   * Be told which buffers the cache dropped, so copies held elsewhere (the click
+   * worklet's) can be freed as well
+   */
+  onRelease(listener: (buffers: AudioBuffer[]) => void): () => void {
+    this.releaseListeners.add(listener);
+    return () => {
+      this.releaseListeners.delete(listener);
+    };
+  }
+
+  private release(buffers: AudioBuffer[]): void {
+    if (buffers.length > 0) {
+      this.releaseListeners.forEach((listener) => listener(buffers));
+    }
   }
 }
 
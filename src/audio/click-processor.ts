@@ -0,0 +1,40 @@
+/**
+ * AudioWorklet processor that renders scheduled clicks sample-accurately.
+ * Loaded with audioWorklet.addModule(); runs in the AudioWorkletGlobalScope.
+ */
+
+import { CLICK_PROCESSOR_NAME, ClickSchedule, ClickWorkletMessage } from './click-schedule.js';
+
+// AudioWorkletGlobalScope (not part of the DOM typings)
+declare const sampleRate: number;
+declare const currentFrame: number;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+}
+declare function registerProcessor(
+  name: string,
+  processorCtor: new () => AudioWorkletProcessor
+): void;
+
+class ClickProcessor extends AudioWorkletProcessor {
+  private readonly schedule = new ClickSchedule(sampleRate);
+
+  constructor() {
+    super();
+    this.port.onmessage = (event: MessageEvent<ClickWorkletMessage>) => {
+      this.schedule.handleMessage(event.data);
+    };
+  }
+
+  process(_inputs: Float32Array[][], outputs: Float32Array[][]): boolean {
+    // Outputs are mono, one per mixer bus
+    this.schedule.render(
+      outputs.map((channels) => channels[0]),
+      currentFrame
+    );
+    // Keep the processor alive for the whole session
+    return true;
+  }
+}
+
+registerProcessor(CLICK_PROCESSOR_NAME, ClickProcessor);
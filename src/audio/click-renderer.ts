@@ -0,0 +1,157 @@
+/**
+ * Click renderers: how the metronome turns a scheduled click into sound
+ * - WorkletClickRenderer: one AudioWorkletNode renders every click from a schedule
+ * - BufferSourceClickRenderer: one AudioBufferSourceNode per click (fallback where
+ *   AudioWorklet is unavailable, and in simulations)
+ */
+
+import { AudioContextManager } from './context-manager.js';
+import { ClickWorkletMessage, WorkletClick } from './click-schedule.js';
+import { KIT_VOICES, KitVoice } from './sound-kits.js';
+
+export interface ClickRenderer {
+  /**
+   * Play a buffer on its voice's mixer bus at a context time; timeMs is the
+   * performance.now() time it is heard
+   */
+  play(buffer: AudioBuffer, voice: KitVoice, contextTime: number, timeMs: number): void;
+  /**
+   * Drop clicks heard at or after timeMs (contextTime is where they start)
+   */
+  cancelFrom(timeMs: number, contextTime: number): void;
+  /**
+   * Hand clicks queued since the last flush to the audio thread
+   */
+  flush(): void;
+}
+
+interface ScheduledSource {
+  source: AudioBufferSourceNode;
+  timeMs: number; // performance.now() time the click is heard
+}
+
+export class BufferSourceClickRenderer implements ClickRenderer {
+  // Track scheduled audio sources so we can cancel them
+  private scheduledSources: ScheduledSource[] = [];
+
+  constructor(private readonly audio: AudioContextManager) {}
+
+  play(buffer: AudioBuffer, voice: KitVoice, contextTime: number, timeMs: number): void {
+    const context = this.audio.getContext();
+
+    // Create audio graph: buffer source -> voice bus -> master bus -> destination
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+    source.connect(this.audio.getClickBus(voice));
+
+    const entry: ScheduledSource = { source, timeMs };
+    this.scheduledSources.push(entry);
+
+    // Remove from tracking when it finishes playing
+    source.onended = () => {
+      const index = this.scheduledSources.indexOf(entry);
+      if (index > -1) {
+        this.scheduledSources.splice(index, 1);
+      }
+    };
+
+    source.start(contextTime);
+  }
+
+  cancelFrom(timeMs: number): void {
+    const keptSources: ScheduledSource[] = [];
+    for (const entry of this.scheduledSources) {
+      if (entry.timeMs < timeMs) {
+        keptSources.push(entry);
+        continue;
+      }
+
+      try {
+        entry.source.stop();
+        entry.source.disconnect();
+      } catch {
+        // Source may have already finished or been stopped
+      }
+    }
+    this.scheduledSources = keptSources;
+  }
+
+  flush(): void {}
+}
+
+export class WorkletClickRenderer implements ClickRenderer {
+  private soundIds = new WeakMap<AudioBuffer, number>();
+  private nextSoundId = 0;
+  private queued: WorkletClick[] = [];
+  private replaceFromTime: number | null = null;
+  private flushQueued = false;
+
+  constructor(private readonly node: AudioWorkletNode) {}
+
+  play(buffer: AudioBuffer, voice: KitVoice, contextTime: number): void {
+    this.queued.push({
+      time: contextTime,
+      soundId: this.soundIdFor(buffer),
+      output: KIT_VOICES.indexOf(voice)
+    });
+  }
+
+  cancelFrom(_timeMs: number, contextTime: number): void {
+    this.queued = this.queued.filter((click) => click.time < contextTime);
+    this.replaceFromTime = Math.min(this.replaceFromTime ?? Infinity, contextTime);
+
+    // A re-anchor schedules new clicks right away: send both as one replacement
+    if (!this.flushQueued) {
+      this.flushQueued = true;
+      queueMicrotask(() => {
+        this.flushQueued = false;
+        this.flush();
+      });
+    }
+  }
+
+  flush(): void {
+    if (this.replaceFromTime !== null) {
+      this.post({ type: 'replace', fromTime: this.replaceFromTime, clicks: this.queued });
+    } else if (this.queued.length > 0) {
+      this.post({ type: 'schedule', clicks: this.queued });
+    }
+    this.queued = [];
+    this.replaceFromTime = null;
+  }
+
+  /**
+   * Free the worklet's copies of buffers that will not be played again
+   */
+  release(buffers: AudioBuffer[]): void {
+    const soundIds: number[] = [];
+    for (const buffer of buffers) {
+      const soundId = this.soundIds.get(buffer);
+      if (soundId !== undefined) {
+        this.soundIds.delete(buffer);
+        soundIds.push(soundId);
+      }
+    }
+    if (soundIds.length > 0) {
+      // Clicks already queued with these sounds reach the worklet first
+      this.flush();
+      this.post({ type: 'release', soundIds });
+    }
+  }
+
+  private soundIdFor(buffer: AudioBuffer): number {
+    let soundId = this.soundIds.get(buffer);
+    if (soundId === undefined) {
+      soundId = this.nextSoundId++;
+      this.soundIds.set(buffer, soundId);
+      // Copy, so the buffer keeps its data once the samples are transferred
+      const samples = new Float32Array(buffer.getChannelData(0));
+      this.post({ type: 'sound', soundId, samples }, [samples.buffer]);
+    }
+    return soundId;
+  }
+
+  private post(message: ClickWorkletMessage, transfer: Transferable[] = []): void {
+    this.node.port.postMessage(message, transfer);
+  }
+}
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { ClickSchedule } from './click-schedule.js';
+
+const SAMPLE_RATE = 1000;
+const QUANTUM = 8;
+
+function renderFrames(
+  schedule: ClickSchedule,
+  fromFrame: number,
+  toFrame: number,
+  outputCount = 1
+): number[][] {
+  const rendered: number[][] = Array.from({ length: outputCount }, () => []);
+  for (let frame = fromFrame; frame < toFrame; frame += QUANTUM) {
+    const outputs = rendered.map(() => new Float32Array(QUANTUM));
+    schedule.render(outputs, frame);
+    outputs.forEach((output, i) => rendered[i].push(...output));
+  }
+  return rendered;
+}
+
+describe('ClickSchedule', () => {
+  it('starts each click on its exact frame, across render quanta', () => {
+    const schedule = new ClickSchedule(SAMPLE_RATE);
+    schedule.handleMessage({ type: 'sound', soundId: 0, samples: Float32Array.of(1, 2, 3) });
+    schedule.handleMessage({
+      type: 'schedule',
+      clicks: [
+        { time: 0.007, soundId: 0, output: 0 },
+        { time: 0.02, soundId: 0, output: 0 }
+      ]
+    });
+
+    const [rendered] = renderFrames(schedule, 0, 32);
+    expect(rendered.slice(6, 11)).toEqual([0, 1, 2, 3, 0]);
+    expect(rendered.slice(19, 24)).toEqual([0, 1, 2, 3, 0]);
+    expect(schedule.size()).toBe(0);
+  });
+
+  it('mixes overlapping clicks on the same output and keeps outputs apart', () => {
+    const schedule = new ClickSchedule(SAMPLE_RATE);
+    schedule.handleMessage({ type: 'sound', soundId: 0, samples: Float32Array.of(1, 1, 1) });
+    schedule.handleMessage({ type: 'sound', soundId: 1, samples: Float32Array.of(2, 2) });
+    schedule.handleMessage({
+      type: 'schedule',
+      clicks: [
+        { time: 0.001, soundId: 0, output: 0 },
+        { time: 0.002, soundId: 1, output: 0 },
+        { time: 0.002, soundId: 1, output: 1 }
+      ]
+    });
+
+    const [first, second] = renderFrames(schedule, 0, 8, 2);
+    expect(first.slice(0, 5)).toEqual([0, 1, 3, 3, 0]);
+    expect(second.slice(0, 5)).toEqual([0, 0, 2, 2, 0]);
+  });
+
+  it('replaces clicks from a time while keeping earlier ones', () => {
+    const schedule = new ClickSchedule(SAMPLE_RATE);
+    schedule.handleMessage({ type: 'sound', soundId: 0, samples: Float32Array.of(1) });
+    schedule.handleMessage({
+      type: 'schedule',
+      clicks: [0.004, 0.012, 0.02].map((time) => ({ time, soundId: 0, output: 0 }))
+    });
+    schedule.handleMessage({
+      type: 'replace',
+      fromTime: 0.01,
+      clicks: [{ time: 0.015, soundId: 0, output: 0 }]
+    });
+
+    const [rendered] = renderFrames(schedule, 0, 24);
+    expect(rendered.flatMap((value, frame) => (value > 0 ? [frame] : []))).toEqual([4, 15]);
+  });
+
+  it('clears everything when replacing from the start of time', () => {
+    const schedule = new ClickSchedule(SAMPLE_RATE);
+    schedule.handleMessage({ type: 'sound', soundId: 0, samples: Float32Array.of(1) });
+    schedule.handleMessage({
+      type: 'schedule',
+      clicks: [{ time: 0.004, soundId: 0, output: 0 }]
+    });
+    schedule.handleMessage({ type: 'replace', fromTime: -Infinity, clicks: [] });
+
+    expect(schedule.size()).toBe(0);
+  });
+
+  it('forgets a released sound once its clicks have played', () => {
+    const schedule = new ClickSchedule(SAMPLE_RATE);
+    schedule.handleMessage({ type: 'sound', soundId: 0, samples: Float32Array.of(1, 1) });
+    schedule.handleMessage({ type: 'sound', soundId: 1, samples: Float32Array.of(2) });
+    schedule.handleMessage({
+      type: 'schedule',
+      clicks: [{ time: 0.01, soundId: 0, output: 0 }]
+    });
+    schedule.handleMessage({ type: 'release', soundIds: [0, 1] });
+    expect(schedule.soundCount()).toBe(1);
+
+    const [rendered] = renderFrames(schedule, 0, 24);
+    expect(rendered.slice(10, 12)).toEqual([1, 1]);
+    expect(schedule.soundCount()).toBe(0);
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Click schedule rendered inside the audio thread
+ * Shared by the AudioWorklet processor (click-processor.ts) and the main-thread
+ * renderer that feeds it. Kept free of Web Audio types so it can be unit-tested.
+ */
+
+export const CLICK_PROCESSOR_NAME = 'pulse-click-processor';
+
+export interface WorkletClick {
+  time: number; // AudioContext time the click starts
+  soundId: number;
+  output: number; // Processor output (one per mixer bus)
+}
+
+/**
+ * Messages posted to the processor's port
+ * - sound: register samples (at the context rate) once per click sound
+ * - schedule: append clicks
+ * - replace: drop every click starting at or after fromTime, then append clicks
+ *   (clearing and re-anchoring the metronome)
+ * - release: forget sounds the renderer no longer uses, once their clicks have played
+ */
+export type ClickWorkletMessage =
+  | { type: 'sound'; soundId: number; samples: Float32Array }
+  | { type: 'schedule'; clicks: WorkletClick[] }
+  | { type: 'replace'; fromTime: number; clicks: WorkletClick[] }
+  | { type: 'release'; soundIds: number[] };
+
+interface ScheduledFrameClick {
+  frame: number; // Sample frame the click starts at
+  soundId: number;
+  output: number;
+}
+
+export class ClickSchedule {
+  private sounds = new Map<number, Float32Array>();
+  private clicks: ScheduledFrameClick[] = []; // Sorted by frame; kept while still sounding
+  private released = new Set<number>(); // Sounds to forget once no click plays them
+
+  constructor(private readonly sampleRate: number) {}
+
+  handleMessage(message: ClickWorkletMessage): void {
+    switch (message.type) {
+      case 'sound':
+        this.sounds.set(message.soundId, message.samples);
+        return;
+      case 'schedule':
+        this.add(message.clicks);
+        return;
+      case 'replace': {
+        const fromFrame = this.toFrame(message.fromTime);
+        this.clicks = this.clicks.filter((click) => click.frame < fromFrame);
+        this.add(message.clicks);
+        this.dropReleasedSounds();
+        return;
+      }
+      case 'release':
+        message.soundIds.forEach((soundId) => this.released.add(soundId));
+        this.dropReleasedSounds();
+        return;
+    }
+  }
+
+  /**
+   * Mix every click overlapping [startFrame, startFrame + quantum length) into its output
+   */
+  render(outputs: Float32Array[], startFrame: number): void {
+    const endFrame = startFrame + outputs[0].length;
+    let finished = 0;
+    for (const click of this.clicks) {
+      if (click.frame >= endFrame) {
+        break;
+      }
+
+      const samples = this.sounds.get(click.soundId);
+      const output = outputs[click.output];
+      if (!samples || !output || click.frame + samples.length <= startFrame) {
+        finished++;
+        continue;
+      }
+
+      const from = Math.max(startFrame, click.frame);
+      const to = Math.min(endFrame, click.frame + samples.length);
+      for (let frame = from; frame < to; frame++) {
+        output[frame - startFrame] += samples[frame - click.frame];
+      }
+    }
+
+    if (finished > 0) {
+      this.clicks = this.clicks.filter((click) => {
+        const length = this.sounds.get(click.soundId)?.length ?? 0;
+        return click.frame + length > startFrame;
+      });
+      this.dropReleasedSounds();
+    }
+  }
+
+  size(): number {
+    return this.clicks.length;
+  }
+
+  soundCount(): number {
+    return this.sounds.size;
+  }
+
+  private dropReleasedSounds(): void {
+    if (this.released.size === 0) {
+      return;
+    }
+
+    const playing = new Set(this.clicks.map((click) => click.soundId));
+    for (const soundId of this.released) {
+      if (!playing.has(soundId)) {
+        this.sounds.delete(soundId);
+        this.released.delete(soundId);
+      }
+    }
+  }
+
+  private add(clicks: WorkletClick[]): void {
+    for (const click of clicks) {
+      this.clicks.push({
+        frame: this.toFrame(click.time),
+        soundId: click.soundId,
+        output: click.output
+      });
+    }
+    this.clicks.sort((a, b) => a.frame - b.frame);
+  }
+
+  private toFrame(time: number): number {
+    return Number.isFinite(time) ? Math.round(time * this.sampleRate) : time;
+  }
+}
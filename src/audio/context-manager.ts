@@ -3,8 +3,31 @@
  * Handles creation, resumption, and cleanup of Web Audio API context
  */
 
+import { CLICK_PROCESSOR_NAME } from './click-schedule.js';
+import { DEFAULT_MIXER, MixerSettings, masterGain } from './mixer.js';
+import { DEFAULT_ROUTING, RoutingSettings, voicePan } from './routing.js';
+import { KIT_VOICES, KitVoice } from './sound-kits.js';
+
+const MIXER_SMOOTHING_SEC = 0.01; // Time constant of gain changes (avoids zipper noise)
+
+export interface OutputDevice {
+  deviceId: string;
+  label: string;
+}
+
+// setSinkId() is not in the DOM typings yet
+type SinkAudioContext = AudioContext & { setSinkId?: (sinkId: string) => Promise<void> };
+
 export class AudioContextManager {
   private context: AudioContext | null = null;
+  private clickWorkletNode: Promise<AudioWorkletNode | null> | null = null;
+  private mixer: MixerSettings = DEFAULT_MIXER;
+  private routing: RoutingSettings = DEFAULT_ROUTING;
+  private outputDeviceId = ''; // '' = system default
+  // Click voice buses -> panners -> master bus -> destination (created with the context)
+  private masterBus: GainNode | null = null;
+  private clickBuses = new Map<KitVoice, GainNode>();
+  private clickPanners = new Map<KitVoice, StereoPannerNode>();
 
   /**
    * Get or create the AudioContext singleton
@@ -13,6 +36,10 @@ export class AudioContextManager {
   getContext(): AudioContext {
     if (!this.context) {
       this.context = new AudioContext();
+      if (this.outputDeviceId) {
+        // Falls back to the default output (already logged) if the device is gone
+        this.applyOutputDevice(this.context).catch(() => undefined);
+      }
     }
 
     // Resume context if suspended (common after page load)
@@ -40,6 +67,146 @@ export class AudioContextManager {
     if (this.context) {
       await this.context.close();
       this.context = null;
+      this.clickWorkletNode = null;
+      this.masterBus = null;
+      this.clickBuses.clear();
+      this.clickPanners.clear();
+    }
+  }
+
+  /**
+   * Bus that clicks of a voice play into (gain set by the mixer)
+   */
+  getClickBus(voice: KitVoice): GainNode {
+    const context = this.getContext();
+    if (!this.masterBus) {
+      this.masterBus = context.createGain();
+      this.masterBus.gain.value = masterGain(this.mixer);
+      this.masterBus.connect(context.destination);
+      for (const busVoice of KIT_VOICES) {
+        const bus = context.createGain();
+        bus.gain.value = this.mixer.voiceGains[busVoice];
+        const panner = context.createStereoPanner();
+        panner.pan.value = voicePan(this.routing, busVoice);
+        bus.connect(panner);
+        panner.connect(this.masterBus);
+        this.clickBuses.set(busVoice, bus);
+        this.clickPanners.set(busVoice, panner);
+      }
+    }
+    return this.clickBuses.get(voice)!;
+  }
+
+  /**
+   * Apply mixer settings, including to clicks already scheduled
+   */
+  setMixer(mixer: MixerSettings): void {
+    this.mixer = mixer;
+    if (!this.masterBus) {
+      return;
+    }
+
+    const now = this.getContext().currentTime;
+    this.masterBus.gain.setTargetAtTime(masterGain(mixer), now, MIXER_SMOOTHING_SEC);
+    for (const [voice, bus] of this.clickBuses) {
+      bus.gain.setTargetAtTime(mixer.voiceGains[voice], now, MIXER_SMOOTHING_SEC);
+    }
+  }
+
+  /**
+   * Apply channel routing, including to clicks already scheduled
+   */
+  setRouting(routing: RoutingSettings): void {
+    this.routing = routing;
+    if (!this.masterBus) {
+      return;
+    }
+
+    const now = this.getContext().currentTime;
+    for (const [voice, panner] of this.clickPanners) {
+      panner.pan.setTargetAtTime(voicePan(routing, voice), now, MIXER_SMOOTHING_SEC);
+    }
+  }
+
+  /**
+   * Whether this browser can play the context on a chosen output device
+   */
+  supportsOutputDeviceSelection(): boolean {
+    return typeof AudioContext !== 'undefined' && 'setSinkId' in AudioContext.prototype;
+  }
+
+  /**
+   * Audio outputs of this device (labels stay empty until a media permission is granted)
+   */
+  async listOutputDevices(): Promise<OutputDevice[]> {
+    if (!navigator.mediaDevices?.enumerateDevices) {
+      return [];
+    }
+
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    return devices
+      .filter((device) => device.kind === 'audiooutput' && device.deviceId !== 'default')
+      .map((device, index) => ({
+        deviceId: device.deviceId,
+        label: device.label || `Output ${index + 1}`
+      }));
+  }
+
+  /**
+   * Play through an output device ('' = system default)
+   */
+  async setOutputDevice(deviceId: string): Promise<void> {
+    this.outputDeviceId = deviceId;
+    if (this.context) {
+      await this.applyOutputDevice(this.context);
+    }
+  }
+
+  private async applyOutputDevice(context: SinkAudioContext): Promise<void> {
+    if (!context.setSinkId) {
+      return;
+    }
+
+    try {
+      await context.setSinkId(this.outputDeviceId);
+    } catch (error) {
+      // The device may have been unplugged; keep playing on the current output
+      console.warn('Could not switch audio output', error);
+      throw new Error('That output device is not available.');
+    }
+  }
+
+  /**
+   * Node that renders metronome clicks on the audio thread, or null where
+   * AudioWorklet is unavailable or the module fails to load
+   */
+  getClickWorkletNode(): Promise<AudioWorkletNode | null> {
+    if (!this.clickWorkletNode) {
+      this.clickWorkletNode = this.createClickWorkletNode();
+    }
+    return this.clickWorkletNode;
+  }
+
+  private async createClickWorkletNode(): Promise<AudioWorkletNode | null> {
+    const context = this.getContext();
+    if (!context.audioWorklet) {
+      return null;
+    }
+
+    try {
+      const { default: moduleUrl } = await import('./click-processor.ts?worker&url');
+      await context.audioWorklet.addModule(moduleUrl);
+      // One output per click voice, each into its mixer bus
+      const node = new AudioWorkletNode(context, CLICK_PROCESSOR_NAME, {
+        numberOfInputs: 0,
+        numberOfOutputs: KIT_VOICES.length,
+        outputChannelCount: KIT_VOICES.map(() => 1)
+      });
+      KIT_VOICES.forEach((voice, output) => node.connect(this.getClickBus(voice), output));
+      return node;
+    } catch (error) {
+      console.warn('Click worklet unavailable, using buffer sources', error);
+      return null;
     }
   }
 
@@ -50,6 +217,22 @@ export class AudioContextManager {
     return this.getContext().currentTime;
   }
 
+  /**
+   * Audio output latency in milliseconds (base plus output latency), or null
+   * before the context exists or where the browser does not report it
+   */
+  getOutputLatencyMs(): number | null {
+    if (!this.context) {
+      return null;
+    }
+
+    const outputLatency = this.context.outputLatency;
+    if (typeof outputLatency !== 'number') {
+      return null;
+    }
+    return (this.context.baseLatency + outputLatency) * 1000;
+  }
+
   /**
    * Check if context is ready
    */
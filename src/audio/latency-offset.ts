@@ -0,0 +1,18 @@
+/**
+ * Manual output latency offset
+ * Latency the browser does not report (Bluetooth speakers, some Android devices),
+ * adjusted by ear per device. Positive values make clicks play earlier.
+ */
+
+export const LATENCY_OFFSET_MIN_MS = -100;
+export const LATENCY_OFFSET_MAX_MS = 300;
+export const LATENCY_OFFSET_STEP_MS = 5;
+
+export function isValidLatencyOffset(value: unknown): value is number {
+  return (
+    typeof value === 'number' &&
+    Number.isFinite(value) &&
+    value >= LATENCY_OFFSET_MIN_MS &&
+    value <= LATENCY_OFFSET_MAX_MS
+  );
+}
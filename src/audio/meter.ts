@@ -0,0 +1,119 @@
+/**
+ * Meter model for the metronome
+ * Beats per bar plus an accent level for every beat in the bar
+ */
+
+import { AccentLevel, Meter } from '../types.js';
+
+const ACCENT_LEVELS: AccentLevel[] = ['strong', 'medium', 'weak', 'mute'];
+const MAX_BEATS_PER_BAR = 16;
+
+export const DEFAULT_METER: Meter = {
+  beatsPerBar: 4,
+  noteValue: 4,
+  accents: ['strong', 'weak', 'weak', 'weak']
+};
+
+/**
+ * Common meters with their conventional grouping accents
+ */
+export const METER_PRESETS: Meter[] = [
+  { beatsPerBar: 2, noteValue: 4, accents: ['strong', 'weak'] },
+  { beatsPerBar: 3, noteValue: 4, accents: ['strong', 'weak', 'weak'] },
+  DEFAULT_METER,
+  { beatsPerBar: 5, noteValue: 4, accents: ['strong', 'weak', 'weak', 'medium', 'weak'] },
+  {
+    beatsPerBar: 6,
+    noteValue: 8,
+    accents: ['strong', 'weak', 'weak', 'medium', 'weak', 'weak']
+  },
+  {
+    beatsPerBar: 7,
+    noteValue: 8,
+    accents: ['strong', 'weak', 'medium', 'weak', 'medium', 'weak', 'weak']
+  },
+  {
+    beatsPerBar: 12,
+    noteValue: 8,
+    accents: [
+      'strong',
+      'weak',
+      'weak',
+      'medium',
+      'weak',
+      'weak',
+      'medium',
+      'weak',
+      'weak',
+      'medium',
+      'weak',
+      'weak'
+    ]
+  }
+];
+
+/**
+ * Position of an absolute beat index within its bar (0 = downbeat)
+ */
+export function beatInBar(meter: Meter, beatIndex: number): number {
+  const n = meter.beatsPerBar;
+  return ((beatIndex % n) + n) % n;
+}
+
+/**
+ * Accent level for an absolute beat index
+ */
+export function getAccentLevel(meter: Meter, beatIndex: number): AccentLevel {
+  return meter.accents[beatInBar(meter, beatIndex)] ?? 'weak';
+}
+
+/**
+ * Next accent level when cycling a beat in the editor (strong → medium → weak → mute)
+ */
+export function nextAccentLevel(level: AccentLevel): AccentLevel {
+  const index = ACCENT_LEVELS.indexOf(level);
+  return ACCENT_LEVELS[(index + 1) % ACCENT_LEVELS.length];
+}
+
+/**
+ * Short label such as "6/8"
+ */
+export function formatMeter(meter: Meter): string {
+  return `${meter.beatsPerBar}/${meter.noteValue}`;
+}
+
+export function metersEqual(a: Meter, b: Meter): boolean {
+  return (
+    a.beatsPerBar === b.beatsPerBar &&
+    a.noteValue === b.noteValue &&
+    a.accents.length === b.accents.length &&
+    a.accents.every((level, i) => level === b.accents[i])
+  );
+}
+
+/**
+ * Validate a meter received from the network or from storage
+ */
+export function isValidMeter(value: unknown): value is Meter {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+
+  const meter = value as Record<string, unknown>;
+  if (
+    typeof meter.beatsPerBar !== 'number' ||
+    !Number.isInteger(meter.beatsPerBar) ||
+    meter.beatsPerBar < 1 ||
+    meter.beatsPerBar > MAX_BEATS_PER_BAR
+  ) {
+    return false;
+  }
+  if (typeof meter.noteValue !== 'number' || ![2, 4, 8, 16].includes(meter.noteValue)) {
+    return false;
+  }
+  if (!Array.isArray(meter.accents) || meter.accents.length !== meter.beatsPerBar) {
+    return false;
+  }
+
+  return meter.accents.every((level) => ACCENT_LEVELS.includes(level as AccentLevel));
+}
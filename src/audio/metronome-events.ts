@@ -0,0 +1,67 @@
+/**
+ * Events a metronome emits, for any number of listeners (beat visuals, silent
+ * pulse, MIDI clock, recording...)
+ */
+
+import type { BeatGrid, GridBeat } from './metronome.js';
+
+export interface BeatScheduledEvent {
+  beat: GridBeat;
+  contextTime: number; // AudioContext time the click starts (latency compensated)
+  lookaheadMs: number; // How long before the beat is heard it was scheduled
+  durationMs: number; // Until the next beat of this grid (follows ramps)
+}
+
+export interface MetronomeEventMap {
+  // Beat handed to the audio clock, ahead of time (also while muted)
+  beatScheduled: BeatScheduledEvent;
+  // Beat heard now (one timer per beat, shared by all listeners)
+  beatPlayed: GridBeat;
+  // Downbeat heard now, right after its beatPlayed
+  barStarted: GridBeat;
+  // Beats heard at or after fromTimeMs were dropped (re-anchor, tempo change, stop)
+  beatsCancelled: { fromTimeMs: number };
+  // New beat grid (anchor, tempo, meter or ramp)
+  gridChanged: BeatGrid;
+  started: { timeMs: number };
+  stopped: { timeMs: number };
+}
+
+export type MetronomeEvent = keyof MetronomeEventMap;
+
+export type MetronomeListener<E extends MetronomeEvent> = (payload: MetronomeEventMap[E]) => void;
+
+export type Unsubscribe = () => void;
+
+export class MetronomeEvents {
+  private listeners: { [E in MetronomeEvent]?: Set<MetronomeListener<E>> } = {};
+
+  on<E extends MetronomeEvent>(event: E, listener: MetronomeListener<E>): Unsubscribe {
+    const listeners: Set<MetronomeListener<E>> = this.listeners[event] ?? new Set();
+    this.listeners[event] = listeners as (typeof this.listeners)[E];
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+
+  emit<E extends MetronomeEvent>(event: E, payload: MetronomeEventMap[E]): void {
+    const listeners = this.listeners[event] as Set<MetronomeListener<E>> | undefined;
+    if (!listeners) {
+      return;
+    }
+
+    // Copy, so listeners can unsubscribe while being called
+    for (const listener of [...listeners]) {
+      try {
+        listener(payload);
+      } catch (error) {
+        // One failing listener must not stop the scheduler or the others, but its
+        // error is rethrown as uncaught so it still reaches the console and test runners
+        queueMicrotask(() => {
+          throw error;
+        });
+      }
+    }
+  }
+}
@@ -0,0 +1,159 @@
+import { describe, expect, it } from 'vitest';
+import { Metronome } from './metronome.js';
+import { HeadlessAudioContextManager } from '../sim/headless-audio.js';
+import { VirtualClock } from '../sim/virtual-clock.js';
+
+async function playBeats(outputLatencyMs: number | null, latencyOffsetMs = 0) {
+  const clock = new VirtualClock();
+  const timebase = clock.createTimebase();
+  const audio = new HeadlessAudioContextManager(timebase, outputLatencyMs);
+  const metronome = new Metronome(timebase, audio);
+  const visualsMs: number[] = [];
+  metronome.on('beatPlayed', ({ timeMs }) => visualsMs.push(timeMs));
+  metronome.setLatencyOffsetMs(latencyOffsetMs);
+
+  metronome.setBeatGrid({ bpm: 120, anchorPerformanceMs: 1000, beatIndexAtAnchor: 0 });
+  metronome.start(120);
+  await clock.advance(2600);
+  metronome.stop();
+  // Context time is in seconds, so allow float error from the round trip
+  const heardMs = audio.getHeardTimesMs().map((ms) => Math.round(ms * 1000) / 1000);
+  return { heardMs, visualsMs };
+}
+
+describe('Metronome', () => {
+  it('plays clicks on the beat without reported latency', async () => {
+    const { heardMs, visualsMs } = await playBeats(null);
+    expect(heardMs.slice(0, 4)).toEqual([1000, 1500, 2000, 2500]);
+    expect(visualsMs.slice(0, 4)).toEqual([1000, 1500, 2000, 2500]);
+  });
+
+  it('starts clicks early by the output latency so they are heard on the beat', async () => {
+    const { heardMs, visualsMs } = await playBeats(180);
+    expect(heardMs.slice(0, 4)).toEqual([1000, 1500, 2000, 2500]);
+    expect(visualsMs.slice(0, 4)).toEqual([1000, 1500, 2000, 2500]);
+  });
+
+  it('adds the manual latency offset on top', async () => {
+    const { heardMs } = await playBeats(20, 150);
+    // The simulated speaker has no extra latency, so the offset shows up as early clicks
+    expect(heardMs.slice(0, 4)).toEqual([850, 1350, 1850, 2350]);
+  });
+
+  it('lists grid beats and stays silent while muted', async () => {
+    const clock = new VirtualClock();
+    const timebase = clock.createTimebase();
+    const audio = new HeadlessAudioContextManager(timebase);
+    const metronome = new Metronome(timebase, audio);
+    metronome.setMuted(true);
+    metronome.setBeatGrid({
+      bpm: 120,
+      anchorPerformanceMs: 1000,
+      beatIndexAtAnchor: 8,
+      countInBeats: 2
+    });
+    metronome.start(120);
+    await clock.advance(2000);
+    metronome.stop();
+
+    expect(audio.getHeardTimesMs()).toEqual([]);
+    expect(
+      metronome.beatsBetween(0, 1600).map(({ beatIndex, timeMs, isCountIn }) => ({
+        beatIndex,
+        timeMs,
+        isCountIn
+      }))
+    ).toEqual([
+      { beatIndex: 6, timeMs: 0, isCountIn: true },
+      { beatIndex: 7, timeMs: 500, isCountIn: true },
+      { beatIndex: 8, timeMs: 1000, isCountIn: false },
+      { beatIndex: 9, timeMs: 1500, isCountIn: false }
+    ]);
+  });
+
+  it('hands beats to the silent pulse ahead of time, even when muted', async () => {
+    const clock = new VirtualClock();
+    const timebase = clock.createTimebase();
+    const metronome = new Metronome(timebase, new HeadlessAudioContextManager(timebase));
+    const queued: Array<{ timeMs: number; queuedAtMs: number }> = [];
+    const cancelledFromMs: number[] = [];
+    metronome.attachBeatPulse({
+      queue: (beat) => queued.push({ timeMs: beat.timeMs, queuedAtMs: timebase.now() }),
+      cancelFrom: (timeMs) => cancelledFromMs.push(timeMs)
+    });
+    metronome.setMuted(true);
+
+    metronome.setBeatGrid({ bpm: 120, anchorPerformanceMs: 1000, beatIndexAtAnchor: 0 });
+    metronome.start(120);
+    await clock.advance(1600);
+    metronome.stop();
+
+    expect(queued.map((beat) => beat.timeMs).slice(0, 3)).toEqual([1000, 1500, 2000]);
+    expect(queued.every((beat) => beat.queuedAtMs < beat.timeMs)).toBe(true);
+    expect(cancelledFromMs).toContain(-Infinity);
+  });
+
+  it('hands each beat to the silent pulse once after re-attaching it', async () => {
+    const clock = new VirtualClock();
+    const timebase = clock.createTimebase();
+    const metronome = new Metronome(timebase, new HeadlessAudioContextManager(timebase));
+    const queued: number[] = [];
+    const beatPulse = {
+      queue: ({ beatIndex }: { beatIndex: number }) => queued.push(beatIndex),
+      cancelFrom: () => {}
+    };
+    const detachFirst = metronome.attachBeatPulse(beatPulse);
+
+    metronome.setBeatGrid({ bpm: 120, anchorPerformanceMs: 1000, beatIndexAtAnchor: 0 });
+    metronome.start(120);
+    await clock.advance(600);
+    // A peer promoted to host attaches its outputs again to the same metronome
+    metronome.attachBeatPulse(beatPulse);
+    await clock.advance(1000);
+    // A stale handle leaves the newer attachment alone
+    detachFirst();
+    await clock.advance(1000);
+    metronome.stop();
+
+    expect(queued).toEqual([...new Set(queued)]);
+    expect(Math.max(...queued)).toBe(4);
+  });
+
+  it('fans events out to every listener until they unsubscribe', async () => {
+    const clock = new VirtualClock();
+    const timebase = clock.createTimebase();
+    const metronome = new Metronome(timebase, new HeadlessAudioContextManager(timebase));
+    const events: string[] = [];
+    const played: number[] = [];
+    metronome.on('started', () => events.push('started'));
+    metronome.on('stopped', () => events.push('stopped'));
+    metronome.on('gridChanged', ({ bpm }) => events.push(`grid ${bpm}`));
+    metronome.on('barStarted', ({ beatIndex }) => events.push(`bar ${beatIndex}`));
+    const unsubscribe = metronome.on('beatPlayed', ({ beatIndex }) => played.push(beatIndex));
+    metronome.on('beatPlayed', ({ beatIndex }) => events.push(`beat ${beatIndex}`));
+    const lookaheadsMs: number[] = [];
+    metronome.on('beatScheduled', ({ lookaheadMs }) => lookaheadsMs.push(lookaheadMs));
+
+    metronome.setMeter({ beatsPerBar: 2, noteValue: 4, accents: ['strong', 'weak'] });
+    metronome.setBeatGrid({ bpm: 120, anchorPerformanceMs: 1000, beatIndexAtAnchor: 0 });
+    metronome.start(120);
+    await clock.advance(1600);
+    unsubscribe();
+    await clock.advance(1000);
+    metronome.stop();
+
+    expect(played).toEqual([0, 1]);
+    expect(events).toEqual([
+      'grid 120',
+      'started',
+      'beat 0',
+      'bar 0',
+      'beat 1',
+      'beat 2',
+      'bar 2',
+      'beat 3',
+      'stopped'
+    ]);
+    expect(lookaheadsMs.every((ms) => ms > 0 && ms <= 500)).toBe(true);
+  });
+});
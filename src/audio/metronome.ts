@@ -4,40 +4,104 @@
  * Key features:
  * - 500ms lookahead to ensure clicks are scheduled ahead of playback
  * - 50ms refill interval for smooth scheduling
- * - Downbeat accents every 4 beats
- * - Sub-millisecond precision using performance.now()
+ * - Configurable meter with per-beat accent levels (strong/medium/weak/mute)
+ * - Optional subdivision clicks placed between beats on the same grid
+ * - Tempo ramps with closed-form beat times (see tempo-ramp.ts)
+ * - Phase-aligned grid handover for re-anchors in the future (tempo/meter changes)
+ * - Count-in beats before the anchor with their own click
+ * - Output latency compensation: clicks leave the speaker (not the scheduler) on the beat
+ * - Beat times in performance.now(), scheduled through a drift-tracked AudioContext clock mapping
+ * - Clicks rendered by an AudioWorklet where available (one node per click otherwise)
+ * - Beat, bar and transport events for any number of listeners (see metronome-events.ts)
  */
 
-import { audioContextManager } from './context-manager.js';
-import { clickSoundCache } from './click-generator.js';
+import { AudioContextManager, audioContextManager } from './context-manager.js';
+import { AudioClock } from './audio-clock.js';
+import {
+  BufferSourceClickRenderer,
+  ClickRenderer,
+  WorkletClickRenderer
+} from './click-renderer.js';
+import { beatVoice, clickSoundCache } from './click-generator.js';
+import { DEFAULT_METER, beatInBar, getAccentLevel } from './meter.js';
+import {
+  MetronomeEvent,
+  MetronomeEvents,
+  MetronomeListener,
+  Unsubscribe
+} from './metronome-events.js';
+import { DEFAULT_SOUND_KIT, SoundKitId } from './sound-kits.js';
+import { Subdivision } from './subdivision.js';
+import { beatOffsetMs, beatsAtOffsetMs, tempoAtBeat } from './tempo-ramp.js';
+import { AccentLevel, Meter, TempoRamp } from '../types.js';
+import { Timebase, systemTimebase } from '../sync/timebase.js';
 
 const LOOKAHEAD_MS = 500;
 const REFILL_INTERVAL_MS = 50;
-const BEATS_PER_MEASURE = 4;
 
 export interface BeatGrid {
   bpm: number;
   anchorPerformanceMs: number; // Timestamp in performance.now() time
   beatIndexAtAnchor: number; // Absolute beat number at anchor
+  meter?: Meter; // Defaults to the metronome's current meter
+  ramp?: TempoRamp; // Tempo ramp from the anchor; bpm is then the ramp's end tempo
+  countInBeats?: number; // Beats before the anchor played as count-in (anchor = bar 1)
+}
+
+/**
+ * A beat of the current grid, as heard on this device
+ */
+export interface GridBeat {
+  beatIndex: number;
+  timeMs: number; // performance.now() time
+  accent: AccentLevel;
+  beatInBar: number;
+  isCountIn: boolean;
+}
+
+/**
+ * Silent beat output (vibration, flashes) handed each beat as soon as it is
+ * scheduled, so it can land on the beat itself instead of after a timer
+ */
+export interface BeatPulse {
+  queue(beat: GridBeat): void;
+  /**
+   * Drop beats heard at or after timeMs (re-anchor, tempo change, stop)
+   */
+  cancelFrom(timeMs: number): void;
+}
+
+interface ScheduledVisual {
+  timeoutId: number;
+  timeMs: number;
 }
 
 export class Metronome {
   private bpm: number = 120;
+  private meter: Meter = DEFAULT_METER;
+  private subdivision: Subdivision = 1;
+  // Latency on top of what the browser reports (Bluetooth, some Android devices), set by ear
+  private latencyOffsetMs: number = 0;
+  private muted: boolean = false; // Visual pulse only (while listening to another device)
+  private soundKit: SoundKitId = DEFAULT_SOUND_KIT;
   private isRunning: boolean = false;
   private schedulerIntervalId: number | null = null;
 
   private beatGrid: BeatGrid | null = null;
+  // Grid anchored in the future; takes over once the scheduler reaches its anchor
+  private pendingGrid: BeatGrid | null = null;
   private nextBeatIndex: number = 0;
-  private nextScheduleTimeMs: number = 0;
+  private nextSubdivisionIndex: number = 0; // 0 = the beat itself
+
+  // performance.now() -> AudioContext time, refreshed on every refill
+  private readonly audioClock: AudioClock;
 
-  // Track scheduled audio sources so we can cancel them
-  private scheduledSources: AudioBufferSourceNode[] = [];
-  private scheduledVisualTimeoutIds: number[] = [];
+  // Buffer sources until the click worklet has loaded
+  private renderer: ClickRenderer;
+  private scheduledVisuals: ScheduledVisual[] = [];
 
-  // Callback for visual sync (called when beat is scheduled)
-  private onBeatScheduledCallback:
-    | ((beatIndex: number, isDownbeat: boolean, timeMs: number) => void)
-    | null = null;
+  private readonly events = new MetronomeEvents();
+  private detachBeatPulse: Unsubscribe | null = null;
   private waitingForUserGesture: boolean = false;
   private readonly onUserGesture = () => {
     if (!this.isRunning) {
@@ -45,8 +109,9 @@ export class Metronome {
       return;
     }
 
-    void audioContextManager
+    void this.audio
       .resume()
+      .then(() => this.attachClickWorklet())
       .then(() => {
         if (!this.isRunning) {
           this.disarmUserGestureResume();
@@ -61,7 +126,17 @@ export class Metronome {
       });
   };
 
-  constructor() {}
+  /**
+   * @param timebase - Clock and timers for beat times (performance.now() by default)
+   * @param audio - Audio context owner (a simulation passes a headless one)
+   */
+  constructor(
+    private readonly timebase: Timebase = systemTimebase,
+    private readonly audio: AudioContextManager = audioContextManager
+  ) {
+    this.audioClock = new AudioClock(timebase);
+    this.renderer = new BufferSourceClickRenderer(audio);
+  }
 
   /**
    * Set the beat grid and anchor point for synchronization
@@ -69,6 +144,22 @@ export class Metronome {
    */
   setBeatGrid(grid: BeatGrid): void {
     const wasRunning = this.isRunning;
+    const nextGrid: BeatGrid = { ...grid, meter: grid.meter ?? this.meter };
+
+    // A future anchor while playing (tempo/meter change) keeps the current grid
+    // sounding until the handover beat, so no clicks are lost in between.
+    if (wasRunning && this.beatGrid && nextGrid.anchorPerformanceMs > this.timebase.now()) {
+      const handoverMs = this.handoverTimeMs(nextGrid);
+      this.clearScheduledSounds(handoverMs);
+      this.pendingGrid = nextGrid;
+      const handoverBeatIndex = this.firstBeatIndexAtOrAfter(handoverMs);
+      if (handoverBeatIndex <= this.nextBeatIndex) {
+        this.nextBeatIndex = handoverBeatIndex;
+        this.nextSubdivisionIndex = 0;
+      }
+      this.scheduleAhead();
+      return;
+    }
 
     // Re-anchoring during playback must drop old lookahead clicks,
     // otherwise old/new schedules overlap and sound chaotic.
@@ -76,8 +167,8 @@ export class Metronome {
       this.clearScheduledSounds();
     }
 
-    this.beatGrid = grid;
-    this.bpm = grid.bpm;
+    this.pendingGrid = null;
+    this.applyGrid(nextGrid);
     this.resetScheduleCursor();
 
     if (wasRunning) {
@@ -93,16 +184,77 @@ export class Metronome {
       return;
     }
 
-    const now = performance.now();
-    const msPerBeat = 60000 / this.beatGrid.bpm;
-    const elapsedMs = now - this.beatGrid.anchorPerformanceMs;
-    const elapsedBeats = elapsedMs / msPerBeat;
+    const now = this.timebase.now();
+    const elapsedBeats = this.beatsSinceAnchorAt(now);
 
-    // Use floor (clamped at 0) so a fresh anchor doesn't skip beat 0.
-    // Using ceil can jump directly to beat 1 when start is called just after anchor.
-    const beatsSinceAnchor = Math.max(0, Math.floor(elapsedBeats));
+    // Use floor (clamped at the first count-in beat, else 0) so a fresh anchor doesn't skip
+    // beat 0. Using ceil can jump directly to beat 1 when start is called just after anchor.
+    const firstBeat = -(this.beatGrid.countInBeats ?? 0);
+    const beatsSinceAnchor = Math.max(firstBeat, Math.floor(elapsedBeats));
     this.nextBeatIndex = this.beatGrid.beatIndexAtAnchor + beatsSinceAnchor;
-    this.nextScheduleTimeMs = this.calculateBeatTime(this.nextBeatIndex);
+    this.nextSubdivisionIndex = 0;
+  }
+
+  private applyGrid(grid: BeatGrid): void {
+    this.beatGrid = grid;
+    this.bpm = grid.bpm;
+    this.meter = grid.meter ?? this.meter;
+    this.events.emit('gridChanged', grid);
+  }
+
+  /**
+   * Time at which the current grid hands over to a pending one.
+   * Half a beat early so a slightly shifted anchor never double-clicks.
+   */
+  private handoverTimeMs(pending: BeatGrid): number {
+    if (!this.beatGrid) {
+      return pending.anchorPerformanceMs;
+    }
+
+    const beats = this.beatsSinceAnchorAt(pending.anchorPerformanceMs);
+    const msPerBeat = 60000 / tempoAtBeat(this.beatGrid.bpm, this.beatGrid.ramp, beats);
+    return pending.anchorPerformanceMs - msPerBeat / 2;
+  }
+
+  /**
+   * Fractional beats of the current grid elapsed at a performance.now() time
+   */
+  private beatsSinceAnchorAt(timeMs: number): number {
+    if (!this.beatGrid) {
+      return 0;
+    }
+
+    const { bpm, ramp, anchorPerformanceMs } = this.beatGrid;
+    return beatsAtOffsetMs(bpm, ramp, timeMs - anchorPerformanceMs);
+  }
+
+  /**
+   * First beat index of the current grid at or after a performance.now() time
+   */
+  private firstBeatIndexAtOrAfter(timeMs: number): number {
+    if (!this.beatGrid) {
+      return 0;
+    }
+
+    // Tolerate float error from the ramp integral landing just past a whole beat
+    const beatsFromAnchor = Math.ceil(this.beatsSinceAnchorAt(timeMs) - 1e-6);
+    return this.beatGrid.beatIndexAtAnchor + beatsFromAnchor;
+  }
+
+  private promotePendingGridIfDue(): void {
+    if (!this.pendingGrid) {
+      return;
+    }
+
+    if (this.calculateBeatTime(this.nextBeatIndex) < this.handoverTimeMs(this.pendingGrid)) {
+      return;
+    }
+
+    const grid = this.pendingGrid;
+    this.pendingGrid = null;
+    this.applyGrid(grid);
+    this.nextBeatIndex = grid.beatIndexAtAnchor;
+    this.nextSubdivisionIndex = 0;
   }
 
   /**
@@ -118,23 +270,25 @@ export class Metronome {
 
     // If no synchronized grid was set, start from local time.
     if (!this.beatGrid) {
-      const now = performance.now();
+      const now = this.timebase.now();
       this.setBeatGrid({
         bpm,
         anchorPerformanceMs: now,
-        beatIndexAtAnchor: 0
+        beatIndexAtAnchor: 0,
+        meter: this.meter
       });
     } else if (this.beatGrid.bpm !== bpm) {
-      this.beatGrid = {
+      this.applyGrid({
         ...this.beatGrid,
         bpm
-      };
-      this.nextScheduleTimeMs = performance.now();
+      });
     }
+    this.events.emit('started', { timeMs: this.timebase.now() });
 
     // Resume audio context (required for user interaction).
-    void audioContextManager
+    void this.audio
       .resume()
+      .then(() => this.attachClickWorklet())
       .then(() => {
         this.startSchedulerIfNeeded();
         this.disarmUserGestureResume();
@@ -148,16 +302,22 @@ export class Metronome {
    * Stop the metronome and clear scheduled clicks
    */
   stop(): void {
+    const wasRunning = this.isRunning;
     this.isRunning = false;
     this.disarmUserGestureResume();
 
     if (this.schedulerIntervalId !== null) {
-      clearInterval(this.schedulerIntervalId);
+      this.timebase.clearInterval(this.schedulerIntervalId);
       this.schedulerIntervalId = null;
     }
 
     // Stop all scheduled audio sources immediately
     this.clearScheduledSounds();
+    this.pendingGrid = null;
+
+    if (wasRunning) {
+      this.events.emit('stopped', { timeMs: this.timebase.now() });
+    }
   }
 
   /**
@@ -172,24 +332,25 @@ export class Metronome {
 
     // Stop all scheduled sounds
     this.clearScheduledSounds();
+    this.pendingGrid = null;
 
     // Update BPM
     this.bpm = bpm;
 
     if (wasRunning && this.beatGrid) {
       // Recalculate beat grid with new BPM from current position
-      const now = performance.now();
-      const msPerBeatOld = 60000 / this.beatGrid.bpm;
-      const elapsedMs = now - this.beatGrid.anchorPerformanceMs;
+      const now = this.timebase.now();
       const currentBeatIndex =
-        this.beatGrid.beatIndexAtAnchor + Math.floor(elapsedMs / msPerBeatOld);
+        this.beatGrid.beatIndexAtAnchor + Math.floor(this.beatsSinceAnchorAt(now));
 
-      // Create new beat grid at current beat with new BPM
-      this.beatGrid = {
+      // Create new beat grid at current beat with new BPM (a step change ends any ramp)
+      this.applyGrid({
+        ...this.beatGrid,
         bpm,
         anchorPerformanceMs: now,
-        beatIndexAtAnchor: currentBeatIndex
-      };
+        beatIndexAtAnchor: currentBeatIndex,
+        ramp: undefined
+      });
 
       // Reset schedule cursor against the new grid.
       this.resetScheduleCursor();
@@ -199,6 +360,126 @@ export class Metronome {
     }
   }
 
+  /**
+   * Update meter (accents apply from the next scheduled beat)
+   */
+  setMeter(meter: Meter): void {
+    this.meter = meter;
+
+    if (!this.beatGrid) {
+      return;
+    }
+
+    this.applyGrid({ ...this.beatGrid, meter });
+    if (this.isRunning) {
+      this.clearScheduledSounds();
+      this.pendingGrid = null;
+      this.resetScheduleCursor();
+      this.scheduleAhead();
+    }
+  }
+
+  /**
+   * Set clicks per beat for this device (grid and phase are unaffected)
+   */
+  setSubdivision(subdivision: Subdivision): void {
+    if (this.subdivision === subdivision) {
+      return;
+    }
+
+    this.subdivision = subdivision;
+
+    if (this.isRunning && this.beatGrid) {
+      this.clearScheduledSounds();
+      this.resetScheduleCursor();
+      this.scheduleAhead();
+    }
+  }
+
+  /**
+   * Set extra output latency of this device to compensate (positive = clicks play earlier)
+   */
+  setLatencyOffsetMs(latencyOffsetMs: number): void {
+    if (this.latencyOffsetMs === latencyOffsetMs) {
+      return;
+    }
+
+    this.latencyOffsetMs = latencyOffsetMs;
+
+    if (this.isRunning && this.beatGrid) {
+      this.clearScheduledSounds();
+      this.resetScheduleCursor();
+      this.scheduleAhead();
+    }
+  }
+
+  getLatencyOffsetMs(): number {
+    return this.latencyOffsetMs;
+  }
+
+  /**
+   * Set the sound kit of this device (applies from the next scheduled click)
+   */
+  setSoundKit(soundKit: SoundKitId): void {
+    this.soundKit = soundKit;
+  }
+
+  getSoundKit(): SoundKitId {
+    return this.soundKit;
+  }
+
+  /**
+   * Silence clicks scheduled from now on; the beat grid and visuals keep running
+   */
+  setMuted(muted: boolean): void {
+    if (this.muted === muted) {
+      return;
+    }
+
+    this.muted = muted;
+
+    if (this.isRunning && this.beatGrid) {
+      this.clearScheduledSounds();
+      this.resetScheduleCursor();
+      this.scheduleAhead();
+    }
+  }
+
+  /**
+   * Beats of the current grid heard within [fromMs, toMs) of performance.now() time
+   */
+  beatsBetween(fromMs: number, toMs: number): GridBeat[] {
+    if (!this.beatGrid) {
+      return [];
+    }
+
+    const { beatIndexAtAnchor, countInBeats = 0 } = this.beatGrid;
+    const meter = this.beatGrid.meter ?? this.meter;
+    const firstBeat = beatIndexAtAnchor - countInBeats;
+    const beats: GridBeat[] = [];
+    for (
+      let beatIndex = Math.max(firstBeat, this.firstBeatIndexAtOrAfter(fromMs));
+      this.calculateBeatTime(beatIndex) < toMs;
+      beatIndex++
+    ) {
+      beats.push({
+        beatIndex,
+        timeMs: this.calculateBeatTime(beatIndex),
+        accent: getAccentLevel(meter, beatIndex),
+        beatInBar: beatInBar(meter, beatIndex),
+        isCountIn: this.isCountInBeat(beatIndex)
+      });
+    }
+    return beats;
+  }
+
+  /**
+   * Get current subdivision
+   */
+  getSubdivision(): Subdivision {
+    return this.subdivision;
+  }
+
   /**
    * Check if metronome is running
    */
@@ -214,12 +495,76 @@ export class Metronome {
   }
 
   /**
-   * Register callback for when beats are scheduled (for visual sync)
+   * Get the instantaneous tempo (differs from getBPM() while a ramp is in progress)
+   */
+  getCurrentTempo(): number {
+    if (!this.beatGrid || !this.isRunning) {
+      return this.bpm;
+    }
+
+    const { bpm, ramp } = this.beatGrid;
+    return tempoAtBeat(bpm, ramp, this.beatsSinceAnchorAt(this.timebase.now()));
+  }
+
+  /**
+   * Check if a tempo ramp is still in progress
+   */
+  isRamping(): boolean {
+    if (!this.isRunning || !this.beatGrid?.ramp) {
+      return false;
+    }
+
+    return this.beatsSinceAnchorAt(this.timebase.now()) < this.beatGrid.ramp.durationBeats;
+  }
+
+  /**
+   * Get current meter
+   */
+  getMeter(): Meter {
+    return this.meter;
+  }
+
+  /**
+   * Audio output latency in milliseconds, or null if unknown
+   */
+  getOutputLatencyMs(): number | null {
+    return this.audio.getOutputLatencyMs();
+  }
+
+  /**
+   * Rate of the audio clock against performance.now() (positive = audio clock runs fast)
+   */
+  getAudioClockDriftPpm(): number {
+    return this.audioClock.getDriftPpm();
+  }
+
+  /**
+   * Subscribe to a metronome event; call the returned function to unsubscribe
    */
-  onBeatScheduled(
-    callback: (beatIndex: number, isDownbeat: boolean, timeMs: number) => void
-  ): void {
-    this.onBeatScheduledCallback = callback;
+  on<E extends MetronomeEvent>(event: E, listener: MetronomeListener<E>): Unsubscribe {
+    return this.events.on(event, listener);
+  }
+
+  /**
+   * Hand every scheduled beat to a silent pulse output, until unsubscribed
+   * (replaces the pulse attached before)
+   */
+  attachBeatPulse(beatPulse: BeatPulse): Unsubscribe {
+    this.detachBeatPulse?.();
+    const offScheduled = this.on('beatScheduled', ({ beat }) => beatPulse.queue(beat));
+    const offCancelled = this.on('beatsCancelled', ({ fromTimeMs }) =>
+      beatPulse.cancelFrom(fromTimeMs)
+    );
+    const detach = () => {
+      offScheduled();
+      offCancelled();
+      if (this.detachBeatPulse === detach) {
+        this.detachBeatPulse = null;
+        beatPulse.cancelFrom(-Infinity);
+      }
+    };
+    this.detachBeatPulse = detach;
+    return detach;
   }
 
   /**
@@ -231,13 +576,37 @@ export class Metronome {
     this.scheduleAhead();
 
     // Then schedule at regular intervals
-    this.schedulerIntervalId = window.setInterval(() => {
+    this.schedulerIntervalId = this.timebase.setInterval(() => {
       if (this.isRunning) {
         this.scheduleAhead();
       }
     }, REFILL_INTERVAL_MS);
   }
 
+  /**
+   * Switch to the worklet renderer once it has loaded (keeps buffer sources if it cannot)
+   */
+  private async attachClickWorklet(): Promise<void> {
+    if (this.renderer instanceof WorkletClickRenderer) {
+      return;
+    }
+
+    const node = await this.audio.getClickWorkletNode();
+    if (!node || this.renderer instanceof WorkletClickRenderer) {
+      return;
+    }
+
+    // Clicks already handed to buffer sources are rescheduled on the worklet
+    this.clearScheduledSounds();
+    const renderer = new WorkletClickRenderer(node);
+    clickSoundCache.onRelease((buffers) => renderer.release(buffers));
+    this.renderer = renderer;
+    if (this.isRunning && this.beatGrid) {
+      this.resetScheduleCursor();
+      this.scheduleAhead();
+    }
+  }
+
   private startSchedulerIfNeeded(): void {
     if (this.schedulerIntervalId !== null) {
       return;
@@ -276,26 +645,46 @@ export class Metronome {
       return;
     }
 
-    const context = audioContextManager.getContext();
-    const now = performance.now();
+    const context = this.audio.getContext();
+    const now = this.timebase.now();
     const contextTime = context.currentTime;
-    const lookaheadTargetMs = now + LOOKAHEAD_MS;
+    const outputLatencyMs = this.audio.getOutputLatencyMs();
+    // The mapping accounts for the reported output latency, the offset for the rest
+    this.audioClock.observe(context, outputLatencyMs);
+    const outputLeadMs = (outputLatencyMs ?? 0) + this.latencyOffsetMs;
+    const lookaheadTargetMs = now + LOOKAHEAD_MS + Math.max(0, outputLeadMs);
+
+    // Schedule all beats (and their subdivisions) from now until lookahead window
+    for (;;) {
+      if (this.nextSubdivisionIndex === 0) {
+        this.promotePendingGridIfDue();
+      }
 
-    // Schedule all beats from now until lookahead window
-    while (this.nextScheduleTimeMs < lookaheadTargetMs) {
-      const beatTimeMs = this.calculateBeatTime(this.nextBeatIndex);
+      const tickTimeMs = this.calculateTickTime(this.nextBeatIndex, this.nextSubdivisionIndex);
+      if (tickTimeMs >= lookaheadTargetMs) {
+        break;
+      }
 
-      // Convert performance.now() time to AudioContext time
-      const beatContextTime = this.performanceToAudioContext(beatTimeMs, now, contextTime);
+      // Start early enough that the click is heard at the tick time
+      const tickContextTime = this.audioClock.toContextTime(tickTimeMs - this.latencyOffsetMs);
 
-      // Only schedule if in future
-      if (beatContextTime > contextTime) {
-        this.scheduleClick(beatContextTime, this.nextBeatIndex);
+      // Only schedule if in future (the count-in plays beats only)
+      if (tickContextTime > contextTime) {
+        if (this.nextSubdivisionIndex === 0) {
+          this.scheduleClick(tickContextTime, tickTimeMs, this.nextBeatIndex);
+        } else if (!this.isCountInBeat(this.nextBeatIndex)) {
+          this.scheduleSubdivisionClick(tickContextTime, tickTimeMs);
+        }
       }
 
-      this.nextBeatIndex++;
-      this.nextScheduleTimeMs = beatTimeMs;
+      this.nextSubdivisionIndex++;
+      if (this.nextSubdivisionIndex >= this.subdivision) {
+        this.nextSubdivisionIndex = 0;
+        this.nextBeatIndex++;
+      }
     }
+
+    this.renderer.flush();
   }
 
   /**
@@ -306,103 +695,126 @@ export class Metronome {
       return 0;
     }
 
-    const msPerBeat = 60000 / this.beatGrid.bpm;
-    const beatOffset = beatIndex - this.beatGrid.beatIndexAtAnchor;
-    return this.beatGrid.anchorPerformanceMs + beatOffset * msPerBeat;
+    const { bpm, ramp, anchorPerformanceMs, beatIndexAtAnchor } = this.beatGrid;
+    return anchorPerformanceMs + beatOffsetMs(bpm, ramp, beatIndex - beatIndexAtAnchor);
   }
 
   /**
-   * Convert performance.now() timestamp to AudioContext time
+   * Calculate the performance.now() timestamp for a subdivision tick of a beat
    */
-  private performanceToAudioContext(
-    performanceMs: number,
-    nowPerformance: number,
-    nowContext: number
-  ): number {
-    const deltaMs = performanceMs - nowPerformance;
-    return nowContext + deltaMs / 1000;
+  private calculateTickTime(beatIndex: number, subdivisionIndex: number): number {
+    const beatTimeMs = this.calculateBeatTime(beatIndex);
+    if (subdivisionIndex === 0 || !this.beatGrid) {
+      return beatTimeMs;
+    }
+
+    // Split the beat's actual duration so subdivisions follow a ramp too
+    const beatDurationMs = this.calculateBeatTime(beatIndex + 1) - beatTimeMs;
+    return beatTimeMs + (subdivisionIndex * beatDurationMs) / this.subdivision;
   }
 
   /**
-   * Schedule a single click in the Web Audio API
+   * Check if a beat belongs to the count-in before the current grid's anchor
    */
-  private scheduleClick(audioContextTime: number, beatIndex: number): void {
-    const context = audioContextManager.getContext();
-
-    // Determine if this is a downbeat (every 4th beat)
-    const isDownbeat = beatIndex % BEATS_PER_MEASURE === 0;
-
-    // Get appropriate click sound
-    const buffer = isDownbeat
-      ? clickSoundCache.getAccentClick(context)
-      : clickSoundCache.getRegularClick(context);
-
-    // Create audio graph: buffer source -> gain -> destination
-    const source = context.createBufferSource();
-    source.buffer = buffer;
-
-    const gainNode = context.createGain();
-    gainNode.gain.value = 1.0;
-
-    source.connect(gainNode);
-    gainNode.connect(context.destination);
+  private isCountInBeat(beatIndex: number): boolean {
+    if (!this.beatGrid?.countInBeats) {
+      return false;
+    }
 
-    // Track this source so we can cancel it if needed
-    this.scheduledSources.push(source);
+    const { beatIndexAtAnchor, countInBeats } = this.beatGrid;
+    return beatIndex < beatIndexAtAnchor && beatIndex >= beatIndexAtAnchor - countInBeats;
+  }
 
-    // Calculate when this beat will actually play (in performance.now() time)
-    const now = performance.now();
-    const contextNow = context.currentTime;
-    const playTimeMs = now + (audioContextTime - contextNow) * 1000;
+  /**
+   * Schedule a single click, heard at playTimeMs (performance.now() time)
+   */
+  private scheduleClick(audioContextTime: number, playTimeMs: number, beatIndex: number): void {
+    const context = this.audio.getContext();
+    const meter = this.beatGrid?.meter ?? this.meter;
+
+    // Accent comes from the beat's position within the bar
+    const accent = getAccentLevel(meter, beatIndex);
+    const positionInBar = beatInBar(meter, beatIndex);
+    const isCountIn = this.isCountInBeat(beatIndex);
+
+    // Muted beats keep their visual pulse but produce no sound
+    const voice = beatVoice(accent, isCountIn);
+    if (voice && !this.muted) {
+      const buffer = clickSoundCache.getClick(context, this.soundKit, voice, positionInBar);
+      this.renderer.play(buffer, voice, audioContextTime, playTimeMs);
+    }
 
-    // Schedule visual callback to trigger at the right time
-    if (this.onBeatScheduledCallback) {
-      const visualDelay = Math.max(0, playTimeMs - performance.now());
-      const timeoutId = window.setTimeout(() => {
-        const index = this.scheduledVisualTimeoutIds.indexOf(timeoutId);
+    // Listeners get the beat ahead of time (also when muted, for silent pulses)
+    const beat: GridBeat = {
+      beatIndex,
+      timeMs: playTimeMs,
+      accent,
+      beatInBar: positionInBar,
+      isCountIn
+    };
+    const lookaheadMs = playTimeMs - this.timebase.now();
+    this.events.emit('beatScheduled', {
+      beat,
+      contextTime: audioContextTime,
+      lookaheadMs,
+      durationMs: this.calculateBeatTime(beatIndex + 1) - playTimeMs
+    });
+
+    // One timer per beat for every beatPlayed/barStarted listener
+    const entry: ScheduledVisual = { timeoutId: 0, timeMs: playTimeMs };
+    entry.timeoutId = this.timebase.setTimeout(
+      () => {
+        const index = this.scheduledVisuals.indexOf(entry);
         if (index > -1) {
-          this.scheduledVisualTimeoutIds.splice(index, 1);
+          this.scheduledVisuals.splice(index, 1);
         }
 
-        if (this.onBeatScheduledCallback) {
-          this.onBeatScheduledCallback(beatIndex, isDownbeat, playTimeMs);
+        this.events.emit('beatPlayed', beat);
+        if (positionInBar === 0) {
+          this.events.emit('barStarted', beat);
         }
-      }, visualDelay);
-      this.scheduledVisualTimeoutIds.push(timeoutId);
-    }
+      },
+      Math.max(0, lookaheadMs)
+    );
+    this.scheduledVisuals.push(entry);
+  }
 
-    // Remove from tracking when it finishes playing
-    source.onended = () => {
-      const index = this.scheduledSources.indexOf(source);
-      if (index > -1) {
-        this.scheduledSources.splice(index, 1);
-      }
-    };
+  /**
+   * Schedule a quieter click between beats (no visual callback)
+   */
+  private scheduleSubdivisionClick(audioContextTime: number, playTimeMs: number): void {
+    if (this.muted) {
+      return;
+    }
 
-    // Schedule playback
-    source.start(audioContextTime);
+    const context = this.audio.getContext();
+    const buffer = clickSoundCache.getClick(context, this.soundKit, 'subdivision');
+    this.renderer.play(buffer, 'subdivision', audioContextTime, playTimeMs);
   }
 
   /**
-   * Clear all scheduled sounds (called on stop or BPM change)
+   * Clear scheduled sounds (called on stop, BPM change or re-anchor).
+   * With fromTimeMs, only clicks at or after that performance.now() time are dropped.
    */
-  private clearScheduledSounds(): void {
-    // Stop all scheduled sources
-    for (const source of this.scheduledSources) {
-      try {
-        source.stop();
-        source.disconnect();
-      } catch {
-        // Source may have already finished or been stopped
+  private clearScheduledSounds(fromTimeMs: number = -Infinity): void {
+    this.renderer.cancelFrom(
+      fromTimeMs,
+      Number.isFinite(fromTimeMs)
+        ? this.audioClock.toContextTime(fromTimeMs - this.latencyOffsetMs)
+        : fromTimeMs
+    );
+
+    const keptVisuals: ScheduledVisual[] = [];
+    for (const entry of this.scheduledVisuals) {
+      if (entry.timeMs < fromTimeMs) {
+        keptVisuals.push(entry);
+        continue;
       }
-    }
-
-    // Clear the array
-    this.scheduledSources = [];
 
-    for (const timeoutId of this.scheduledVisualTimeoutIds) {
-      clearTimeout(timeoutId);
+      this.timebase.clearTimeout(entry.timeoutId);
     }
-    this.scheduledVisualTimeoutIds = [];
+    this.scheduledVisuals = keptVisuals;
+
+    this.events.emit('beatsCancelled', { fromTimeMs });
   }
 }
@@ -0,0 +1,194 @@
+/**
+ * Microphone calibration flows
+ * - Output latency: play a chirp train through this device and hear it back
+ * - Host phase: listen to the host's clicks and compare them with this device's beat grid
+ * The analysis itself lives in calibration.ts.
+ */
+
+import { AudioContextManager, audioContextManager } from './context-manager.js';
+import { beatVoice, clickSoundCache } from './click-generator.js';
+import {
+  LATENCY_OFFSET_MAX_MS,
+  LATENCY_OFFSET_MIN_MS,
+  LATENCY_OFFSET_STEP_MS
+} from './latency-offset.js';
+import { ExpectedClick, createChirp, estimateClickLag, resample } from './calibration.js';
+import { Metronome } from './metronome.js';
+import { Timebase, systemTimebase } from '../sync/timebase.js';
+
+const CAPTURE_BUFFER_SIZE = 256; // Small blocks keep the capture timestamp tight
+const CALIBRATION_CHIRPS = 8;
+const CALIBRATION_CHIRP_SPACING_SEC = 0.4;
+const CALIBRATION_LEAD_IN_SEC = 0.5; // Let the microphone settle first
+const MAX_ROUND_TRIP_MS = 600;
+const MAX_SPREAD_MS = 5; // Matches further apart than this are echoes or noise
+const HOST_LISTEN_MS = 4000;
+const MAX_HOST_PHASE_ERROR_MS = 100; // Wider windows could catch the host's subdivisions
+
+interface MicRecording {
+  samples: Float32Array;
+  sampleRate: number;
+  startContextTime: number; // AudioContext time of the first sample
+  inputLatencyMs: number; // As reported by the browser (0 if unknown)
+}
+
+export interface OutputCalibration {
+  roundTripMs: number;
+  latencyOffsetMs: number; // Speaker delay to apply, clamped to the slider range
+}
+
+/**
+ * Record the microphone for a while, with echo cancellation and gain control off
+ * so the clicks come through unprocessed
+ */
+async function recordMicrophone(context: AudioContext, durationMs: number): Promise<MicRecording> {
+  const stream = await navigator.mediaDevices.getUserMedia({
+    audio: { echoCancellation: false, noiseSuppression: false, autoGainControl: false }
+  });
+
+  try {
+    const source = context.createMediaStreamSource(stream);
+    // Deprecated, but the only capture path that needs no separate worklet module
+    const processor = context.createScriptProcessor(CAPTURE_BUFFER_SIZE, 1, 1);
+    const chunks: Float32Array[] = [];
+    let startContextTime: number | null = null;
+
+    await new Promise<void>((resolve) => {
+      processor.onaudioprocess = (event) => {
+        if (startContextTime === null) {
+          // The input block was captured one block before its output plays
+          startContextTime = event.playbackTime - CAPTURE_BUFFER_SIZE / context.sampleRate;
+        }
+        chunks.push(new Float32Array(event.inputBuffer.getChannelData(0)));
+        if (chunks.length * CAPTURE_BUFFER_SIZE >= (durationMs / 1000) * context.sampleRate) {
+          resolve();
+        }
+      };
+      source.connect(processor);
+      // Some browsers only process nodes that reach the destination (it outputs silence)
+      processor.connect(context.destination);
+    });
+
+    processor.onaudioprocess = null;
+    source.disconnect();
+    processor.disconnect();
+
+    const samples = new Float32Array(chunks.length * CAPTURE_BUFFER_SIZE);
+    chunks.forEach((chunk, i) => samples.set(chunk, i * CAPTURE_BUFFER_SIZE));
+    // Chromium reports input latency (seconds); not in the DOM typings yet
+    const settings = stream.getAudioTracks()[0]?.getSettings() as
+      | (MediaTrackSettings & { latency?: number })
+      | undefined;
+    const reportedLatency = settings?.latency;
+    return {
+      samples,
+      sampleRate: context.sampleRate,
+      startContextTime: startContextTime ?? context.currentTime,
+      inputLatencyMs: typeof reportedLatency === 'number' ? reportedLatency * 1000 : 0
+    };
+  } finally {
+    stream.getTracks().forEach((track) => track.stop());
+  }
+}
+
+/**
+ * Measure this device's audio round trip and derive the speaker delay the
+ * browser does not report. The metronome should be stopped meanwhile.
+ */
+export async function calibrateOutputLatency(
+  audio: AudioContextManager = audioContextManager
+): Promise<OutputCalibration> {
+  await audio.resume();
+  const context = audio.getContext();
+  const chirp = createChirp(context.sampleRate);
+  const buffer = context.createBuffer(1, chirp.length, context.sampleRate);
+  buffer.getChannelData(0).set(chirp);
+
+  const firstChirpTime = context.currentTime + CALIBRATION_LEAD_IN_SEC;
+  const dueTimes = Array.from(
+    { length: CALIBRATION_CHIRPS },
+    (_, i) => firstChirpTime + i * CALIBRATION_CHIRP_SPACING_SEC
+  );
+  for (const when of dueTimes) {
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+    source.connect(context.destination);
+    source.start(when);
+  }
+
+  const listenMs =
+    (CALIBRATION_LEAD_IN_SEC + CALIBRATION_CHIRPS * CALIBRATION_CHIRP_SPACING_SEC) * 1000 +
+    MAX_ROUND_TRIP_MS;
+  const recording = await recordMicrophone(context, listenMs);
+  const estimate = estimateClickLag(
+    recording.samples,
+    recording.sampleRate,
+    dueTimes.map((when) => ({ atSec: when - recording.startContextTime, template: chirp })),
+    { minLagMs: 0, maxLagMs: MAX_ROUND_TRIP_MS }
+  );
+  if (!estimate || estimate.spreadMs > MAX_SPREAD_MS) {
+    throw new Error('Could not hear the calibration clicks. Turn the volume up and try again.');
+  }
+
+  // Round trip = reported output + unreported speaker delay + input latency
+  const speakerDelayMs =
+    estimate.lagMs - recording.inputLatencyMs - (audio.getOutputLatencyMs() ?? 0);
+  const stepped = Math.round(speakerDelayMs / LATENCY_OFFSET_STEP_MS) * LATENCY_OFFSET_STEP_MS;
+  return {
+    roundTripMs: estimate.lagMs,
+    latencyOffsetMs: Math.max(LATENCY_OFFSET_MIN_MS, Math.min(LATENCY_OFFSET_MAX_MS, stepped))
+  };
+}
+
+/**
+ * Listen to the host's clicks while this device's metronome is muted.
+ * Returns how late (positive) or early the host is heard against this device's beats.
+ */
+export async function measureHostPhaseErrorMs(
+  metronome: Metronome,
+  audio: AudioContextManager = audioContextManager,
+  timebase: Timebase = systemTimebase
+): Promise<number> {
+  await audio.resume();
+  const context = audio.getContext();
+
+  metronome.setMuted(true);
+  let recording: MicRecording;
+  try {
+    recording = await recordMicrophone(context, HOST_LISTEN_MS);
+  } finally {
+    metronome.setMuted(false);
+  }
+
+  // performance.now() time of the first recorded sample
+  const startMs = timebase.now() - (context.currentTime - recording.startContextTime) * 1000;
+  const endMs = startMs + (recording.samples.length / recording.sampleRate) * 1000;
+  const clicks: ExpectedClick[] = [];
+  for (const beat of metronome.beatsBetween(startMs, endMs - MAX_HOST_PHASE_ERROR_MS)) {
+    // Assumes the host plays the same sound kit as this device
+    const voice = beatVoice(beat.accent, beat.isCountIn);
+    if (voice) {
+      const buffer = clickSoundCache.getClick(
+        context,
+        metronome.getSoundKit(),
+        voice,
+        beat.beatInBar
+      );
+      clicks.push({
+        atSec: (beat.timeMs - startMs) / 1000,
+        template: resample(buffer.getChannelData(0), buffer.sampleRate, recording.sampleRate)
+      });
+    }
+  }
+
+  const estimate = clicks.length
+    ? estimateClickLag(recording.samples, recording.sampleRate, clicks, {
+        minLagMs: -MAX_HOST_PHASE_ERROR_MS,
+        maxLagMs: MAX_HOST_PHASE_ERROR_MS
+      })
+    : null;
+  if (!estimate) {
+    throw new Error('Could not hear the host. Move closer and try again.');
+  }
+  return estimate.lagMs - recording.inputLatencyMs;
+}
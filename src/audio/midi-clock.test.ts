@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import {
+  CLOCKS_PER_BEAT,
+  MIDI_CLOCK,
+  MIDI_CONTINUE,
+  MIDI_START,
+  MIDI_STOP,
+  MidiClock,
+  songPositionMessage
+} from './midi-clock.js';
+import { BeatGrid, Metronome } from './metronome.js';
+import { HeadlessAudioContextManager } from '../sim/headless-audio.js';
+import { VirtualClock } from '../sim/virtual-clock.js';
+
+interface SentMessage {
+  data: number[];
+  timestamp: number | undefined;
+}
+
+async function clockBeats(grid: BeatGrid, playForMs: number, latencyOffsetMs = 0) {
+  const clock = new VirtualClock();
+  const timebase = clock.createTimebase();
+  const metronome = new Metronome(timebase, new HeadlessAudioContextManager(timebase));
+  const midiClock = new MidiClock(timebase);
+  const sent: SentMessage[] = [];
+  let cleared = 0;
+  midiClock.setOutput({
+    send: (data, timestamp) => sent.push({ data, timestamp }),
+    clear: () => cleared++
+  });
+  midiClock.setLatencyOffsetMs(latencyOffsetMs);
+  midiClock.attach(metronome);
+
+  metronome.setBeatGrid(grid);
+  metronome.start(grid.bpm);
+  await clock.advance(playForMs);
+  metronome.stop();
+  return { sent, cleared };
+}
+
+function clockTimes(sent: SentMessage[]): number[] {
+  return sent
+    .filter((message) => message.data[0] === MIDI_CLOCK)
+    .map((message) => Math.round((message.timestamp ?? 0) * 1000) / 1000);
+}
+
+describe('MidiClock', () => {
+  it('starts on beat 0 and sends 24 clocks per beat', async () => {
+    const { sent } = await clockBeats(
+      { bpm: 120, anchorPerformanceMs: 1000, beatIndexAtAnchor: 0 },
+      1900
+    );
+
+    expect(sent[0]).toEqual({ data: [MIDI_START], timestamp: 1000 });
+    const times = clockTimes(sent);
+    expect(times.slice(0, CLOCKS_PER_BEAT + 1)).toEqual(
+      Array.from({ length: CLOCKS_PER_BEAT + 1 }, (_, pulse) => 1000 + (pulse * 500) / 24).map(
+        (ms) => Math.round(ms * 1000) / 1000
+      )
+    );
+    expect(sent[sent.length - 1]).toEqual({ data: [MIDI_STOP], timestamp: undefined });
+  });
+
+  it('sends the song position and continues when joining mid-song', async () => {
+    const { sent } = await clockBeats(
+      { bpm: 120, anchorPerformanceMs: 1000, beatIndexAtAnchor: 8 },
+      1200
+    );
+
+    expect(sent.slice(0, 3).map((message) => message.data)).toEqual([
+      songPositionMessage(8),
+      [MIDI_CONTINUE],
+      [MIDI_CLOCK]
+    ]);
+    expect(songPositionMessage(8)).toEqual([0xf2, 32, 0]);
+  });
+
+  it('clocks through the count-in and starts on bar 1', async () => {
+    const { sent } = await clockBeats(
+      { bpm: 120, anchorPerformanceMs: 2000, beatIndexAtAnchor: 0, countInBeats: 2 },
+      2200
+    );
+
+    const startIndex = sent.findIndex((message) => message.data[0] === MIDI_START);
+    expect(sent[startIndex].timestamp).toBe(2000);
+    expect(sent.slice(0, startIndex).every((message) => message.data[0] === MIDI_CLOCK)).toBe(true);
+    expect(startIndex).toBe(2 * CLOCKS_PER_BEAT);
+  });
+
+  it('sends early by the latency offset and clears queued clocks on stop', async () => {
+    const { sent, cleared } = await clockBeats(
+      { bpm: 120, anchorPerformanceMs: 1000, beatIndexAtAnchor: 0 },
+      1200,
+      30
+    );
+
+    expect(sent[0]).toEqual({ data: [MIDI_START], timestamp: 970 });
+    expect(cleared).toBeGreaterThan(0);
+  });
+
+  it('clamps the song position to 14 bits', () => {
+    expect(songPositionMessage(100000)).toEqual([0xf2, 0x7f, 0x7f]);
+    expect(songPositionMessage(-4)).toEqual([0xf2, 0, 0]);
+  });
+});
@@ -0,0 +1,263 @@
+/**
+ * MIDI clock output: drives drum machines and synths from the room's beat grid
+ *
+ * - 24 clock pulses per metronome beat (one beat = one quarter note), spread over
+ *   each beat as the metronome schedules it, so ramps and re-anchors are followed
+ * - Start on the first beat after the count-in when the song starts at beat 0,
+ *   otherwise Song Position Pointer + Continue (joining a room mid-song)
+ * - Stop when the metronome stops
+ * - Messages go out through MIDIOutput.send() timestamps (performance.now() time),
+ *   a short window ahead, so a re-anchor can still drop pulses not yet sent
+ */
+
+import {
+  LATENCY_OFFSET_MAX_MS,
+  LATENCY_OFFSET_MIN_MS,
+  isValidLatencyOffset
+} from './latency-offset.js';
+import type { Metronome } from './metronome.js';
+import type { Unsubscribe } from './metronome-events.js';
+import { Timebase, systemTimebase } from '../sync/timebase.js';
+
+export const MIDI_CLOCK = 0xf8;
+export const MIDI_START = 0xfa;
+export const MIDI_CONTINUE = 0xfb;
+export const MIDI_STOP = 0xfc;
+export const MIDI_SONG_POSITION = 0xf2;
+
+export const CLOCKS_PER_BEAT = 24;
+const SIXTEENTHS_PER_BEAT = 4; // Song position counts MIDI beats (sixteenth notes)
+const MAX_SONG_POSITION = 0x3fff; // 14 bits
+
+const SEND_AHEAD_MS = 100;
+const FLUSH_INTERVAL_MS = 25;
+
+// Same range as the speaker delay
+export const MIDI_LATENCY_MIN_MS = LATENCY_OFFSET_MIN_MS;
+export const MIDI_LATENCY_MAX_MS = LATENCY_OFFSET_MAX_MS;
+
+export interface MidiSettings {
+  outputId: string; // '' = no MIDI clock
+  latencyOffsetMs: number; // Positive = messages go out earlier
+}
+
+export const DEFAULT_MIDI_SETTINGS: MidiSettings = {
+  outputId: '',
+  latencyOffsetMs: 0
+};
+
+export function isValidMidiSettings(value: unknown): value is MidiSettings {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+
+  const { outputId, latencyOffsetMs } = value as Record<string, unknown>;
+  return typeof outputId === 'string' && isValidLatencyOffset(latencyOffsetMs);
+}
+
+/**
+ * The part of MIDIOutput the clock needs
+ */
+export interface MidiClockOutput {
+  send(data: number[], timestamp?: number): void;
+  clear?(): void;
+}
+
+/**
+ * Song Position Pointer for a beat index (clamped to the 14-bit range)
+ */
+export function songPositionMessage(beatIndex: number): number[] {
+  const position = Math.min(MAX_SONG_POSITION, Math.max(0, beatIndex * SIXTEENTHS_PER_BEAT));
+  return [MIDI_SONG_POSITION, position & 0x7f, (position >> 7) & 0x7f];
+}
+
+interface MidiMessage {
+  timeMs: number; // performance.now() time it should be heard
+  beatTimeMs: number; // Beat the message belongs to
+  data: number[];
+  startsTransport: boolean;
+}
+
+export class MidiClock {
+  private output: MidiClockOutput | null = null;
+  private latencyOffsetMs = 0;
+  private pending: MidiMessage[] = [];
+  private sent: MidiMessage[] = []; // Handed to the output, not yet due
+  private transportPending = false; // Waiting for the first beat after the count-in
+  private playing = false; // Start/Continue sent
+  private flushIntervalId: number | null = null;
+  private detach: Unsubscribe | null = null;
+
+  constructor(private readonly timebase: Timebase = systemTimebase) {}
+
+  /**
+   * Follow a metronome (detaches from the previous one)
+   */
+  attach(metronome: Metronome): Unsubscribe {
+    this.detach?.();
+    const unsubscribes = [
+      metronome.on('started', () => this.onStarted()),
+      metronome.on('beatScheduled', ({ beat, durationMs }) =>
+        this.onBeatScheduled(beat.beatIndex, beat.timeMs, durationMs, beat.isCountIn)
+      ),
+      metronome.on('beatsCancelled', ({ fromTimeMs }) => this.onBeatsCancelled(fromTimeMs)),
+      metronome.on('stopped', () => this.onStopped())
+    ];
+    const detach = () => {
+      unsubscribes.forEach((unsubscribe) => unsubscribe());
+      if (this.detach === detach) {
+        this.detach = null;
+        this.onStopped();
+      }
+    };
+    this.detach = detach;
+
+    if (metronome.running()) {
+      this.onStarted();
+    }
+    return detach;
+  }
+
+  /**
+   * Switch the port clocked (null for none); a running song continues there
+   */
+  setOutput(output: MidiClockOutput | null): void {
+    if (output === this.output) {
+      return;
+    }
+
+    this.clearOutput();
+    if (this.playing) {
+      this.output?.send([MIDI_STOP]);
+      this.playing = false;
+      this.transportPending = true;
+    }
+    // Pulses the old port had queued go to the new one
+    this.pending = [...this.sent.filter((message) => !message.startsTransport), ...this.pending];
+    this.sent = [];
+    this.output = output;
+  }
+
+  setLatencyOffsetMs(latencyOffsetMs: number): void {
+    this.latencyOffsetMs = latencyOffsetMs;
+  }
+
+  private onStarted(): void {
+    this.transportPending = true;
+    if (this.flushIntervalId === null) {
+      this.flushIntervalId = this.timebase.setInterval(() => this.flush(), FLUSH_INTERVAL_MS);
+    }
+  }
+
+  private onBeatScheduled(
+    beatIndex: number,
+    beatTimeMs: number,
+    durationMs: number,
+    isCountIn: boolean
+  ): void {
+    if (!this.output) {
+      return;
+    }
+
+    // This beat's pulses replace any left over from a previous grid
+    this.pending = this.pending.filter((message) => message.timeMs < beatTimeMs);
+
+    const message = (data: number[], timeMs = beatTimeMs, startsTransport = false) => {
+      this.pending.push({ timeMs, beatTimeMs, data, startsTransport });
+    };
+
+    // Clocks run through the count-in so receivers lock to the tempo before bar 1
+    if (this.transportPending && !isCountIn) {
+      this.transportPending = false;
+      if (beatIndex === 0) {
+        message([MIDI_START], beatTimeMs, true);
+      } else {
+        message(songPositionMessage(beatIndex), beatTimeMs, true);
+        message([MIDI_CONTINUE], beatTimeMs, true);
+      }
+    }
+    for (let pulse = 0; pulse < CLOCKS_PER_BEAT; pulse++) {
+      message([MIDI_CLOCK], beatTimeMs + (pulse * durationMs) / CLOCKS_PER_BEAT);
+    }
+    this.flush();
+  }
+
+  private onBeatsCancelled(fromTimeMs: number): void {
+    // A beat already under way keeps its pulses until the next beat replaces them
+    const cutoffMs = Math.max(fromTimeMs, this.timebase.now());
+    const kept = (message: MidiMessage) => message.beatTimeMs < cutoffMs;
+    const droppedTransport = (messages: MidiMessage[]) =>
+      messages.some((message) => !kept(message) && message.startsTransport);
+
+    if (droppedTransport(this.pending)) {
+      this.transportPending = true;
+    }
+    this.pending = this.pending.filter(kept);
+
+    // Messages already sent can only be taken back by clearing the port's queue
+    if (this.sent.some((message) => !kept(message)) && this.output?.clear) {
+      this.output.clear();
+      if (droppedTransport(this.sent)) {
+        this.transportPending = true;
+        this.playing = false;
+      }
+      const resend = this.sent.filter(kept);
+      this.sent = [];
+      resend.forEach((message) => this.send(message));
+    }
+  }
+
+  private onStopped(): void {
+    if (this.flushIntervalId !== null) {
+      this.timebase.clearInterval(this.flushIntervalId);
+      this.flushIntervalId = null;
+    }
+
+    this.pending = [];
+    this.clearOutput();
+    this.sent = [];
+    if (this.playing) {
+      this.output?.send([MIDI_STOP]);
+    }
+    this.playing = false;
+    this.transportPending = false;
+  }
+
+  private flush(): void {
+    const nowMs = this.timebase.now();
+    this.sent = this.sent.filter((message) => this.sendTimeMs(message) > nowMs);
+    if (!this.output) {
+      return;
+    }
+
+    const due = this.pending.filter((message) => this.sendTimeMs(message) <= nowMs + SEND_AHEAD_MS);
+    if (due.length === 0) {
+      return;
+    }
+
+    this.pending = this.pending.filter((message) => !due.includes(message));
+    due.forEach((message) => this.send(message));
+  }
+
+  private send(message: MidiMessage): void {
+    if (!this.output) {
+      return;
+    }
+
+    this.output.send(message.data, this.sendTimeMs(message));
+    this.sent.push(message);
+    if (message.data[0] === MIDI_START || message.data[0] === MIDI_CONTINUE) {
+      this.playing = true;
+    }
+  }
+
+  private sendTimeMs(message: MidiMessage): number {
+    return message.timeMs - this.latencyOffsetMs;
+  }
+
+  private clearOutput(): void {
+    if (this.sent.length > 0) {
+      this.output?.clear?.();
+    }
+  }
+}
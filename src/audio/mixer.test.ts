@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_MIXER, isValidMixer, masterGain } from './mixer.js';
+import { HeadlessAudioContextManager } from '../sim/headless-audio.js';
+import { VirtualClock } from '../sim/virtual-clock.js';
+
+describe('mixer', () => {
+  it('applies volume, mute and voice gains to existing buses', () => {
+    const audio = new HeadlessAudioContextManager(new VirtualClock().createTimebase());
+    const strongBus = audio.getClickBus('strong');
+    expect(strongBus.gain.value).toBe(1);
+
+    audio.setMixer({
+      volume: 0.5,
+      muted: false,
+      voiceGains: { ...DEFAULT_MIXER.voiceGains, strong: 0.3 }
+    });
+    expect(strongBus.gain.value).toBe(0.3);
+    expect(audio.getClickBus('weak').gain.value).toBe(1);
+  });
+
+  it('sets the master bus from the volume and mute', () => {
+    const audio = new HeadlessAudioContextManager(new VirtualClock().createTimebase());
+    audio.setMixer({ ...DEFAULT_MIXER, volume: 0.5 });
+    audio.getClickBus('strong');
+    expect(audio.getMasterGain()).toBe(0.25);
+
+    audio.setMixer({ ...DEFAULT_MIXER, volume: 0.5, muted: true });
+    expect(audio.getMasterGain()).toBe(0);
+    audio.setMixer({ ...DEFAULT_MIXER, volume: 0.8 });
+    expect(audio.getMasterGain()).toBeCloseTo(0.64, 9);
+  });
+
+  it('keeps buses created later in line with the mixer', () => {
+    const audio = new HeadlessAudioContextManager(new VirtualClock().createTimebase());
+    audio.setMixer({ ...DEFAULT_MIXER, voiceGains: { ...DEFAULT_MIXER.voiceGains, countIn: 0 } });
+    expect(audio.getClickBus('countIn').gain.value).toBe(0);
+  });
+
+  it('scales the master gain with the square of the volume and silences when muted', () => {
+    expect(masterGain({ ...DEFAULT_MIXER, volume: 0.5 })).toBe(0.25);
+    expect(masterGain({ ...DEFAULT_MIXER, muted: true })).toBe(0);
+  });
+
+  it('rejects malformed settings', () => {
+    expect(isValidMixer(DEFAULT_MIXER)).toBe(true);
+    expect(isValidMixer({ ...DEFAULT_MIXER, volume: 2 })).toBe(false);
+    expect(isValidMixer({ ...DEFAULT_MIXER, voiceGains: { strong: 1 } })).toBe(false);
+    expect(isValidMixer(null)).toBe(false);
+  });
+});
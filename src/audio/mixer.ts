@@ -0,0 +1,50 @@
+/**
+ * Per-device mixer: master volume, mute and a gain per click voice
+ * Applied on the AudioContextManager's buses, so changes reach clicks that are
+ * already scheduled.
+ */
+
+import { KIT_VOICES, KitVoice } from './sound-kits.js';
+
+export interface MixerSettings {
+  volume: number; // 0-1, slider position (squared for the gain)
+  muted: boolean; // Silences clicks; the visual beat keeps running
+  voiceGains: Record<KitVoice, number>; // 0-1 per accent level, subdivision and count-in
+}
+
+export const MIXER_VOICE_OPTIONS: Array<{ voice: KitVoice; label: string }> = [
+  { voice: 'strong', label: 'Strong' },
+  { voice: 'medium', label: 'Medium' },
+  { voice: 'weak', label: 'Weak' },
+  { voice: 'subdivision', label: 'Subdivision' },
+  { voice: 'countIn', label: 'Count-in' }
+];
+
+export const DEFAULT_MIXER: MixerSettings = {
+  volume: 1,
+  muted: false,
+  voiceGains: { strong: 1, medium: 1, weak: 1, subdivision: 1, countIn: 1 }
+};
+
+function isUnitLevel(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= 1;
+}
+
+export function isValidMixer(value: unknown): value is MixerSettings {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+
+  const { volume, muted, voiceGains } = value as Record<string, unknown>;
+  if (!isUnitLevel(volume) || typeof muted !== 'boolean' || !voiceGains) {
+    return false;
+  }
+  return KIT_VOICES.every((voice) => isUnitLevel((voiceGains as Record<string, unknown>)[voice]));
+}
+
+/**
+ * Gain of the master bus (a squared slider feels closer to even loudness steps)
+ */
+export function masterGain(mixer: MixerSettings): number {
+  return mixer.muted ? 0 : mixer.volume * mixer.volume;
+}
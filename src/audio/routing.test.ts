@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_ROUTING, isValidRouting, voicePan } from './routing.js';
+
+describe('voicePan', () => {
+  it('places every voice at the pan position', () => {
+    const routing = { ...DEFAULT_ROUTING, pan: -0.4 };
+    expect(voicePan(routing, 'strong')).toBe(-0.4);
+    expect(voicePan(routing, 'subdivision')).toBe(-0.4);
+  });
+
+  it('sends everything to one ear', () => {
+    expect(voicePan({ ...DEFAULT_ROUTING, mode: 'left' }, 'weak')).toBe(-1);
+    expect(voicePan({ ...DEFAULT_ROUTING, mode: 'right' }, 'countIn')).toBe(1);
+  });
+
+  it('splits accents from weak beats and subdivisions', () => {
+    const routing = { ...DEFAULT_ROUTING, mode: 'split' as const, accentSide: 'right' as const };
+    expect(voicePan(routing, 'strong')).toBe(1);
+    expect(voicePan(routing, 'medium')).toBe(1);
+    expect(voicePan(routing, 'countIn')).toBe(1);
+    expect(voicePan(routing, 'weak')).toBe(-1);
+    expect(voicePan(routing, 'subdivision')).toBe(-1);
+  });
+});
+
+describe('isValidRouting', () => {
+  it('rejects unknown modes and out-of-range pans', () => {
+    expect(isValidRouting(DEFAULT_ROUTING)).toBe(true);
+    expect(isValidRouting({ ...DEFAULT_ROUTING, mode: 'surround' })).toBe(false);
+    expect(isValidRouting({ ...DEFAULT_ROUTING, pan: 1.5 })).toBe(false);
+    expect(isValidRouting({ ...DEFAULT_ROUTING, accentSide: 'up' })).toBe(false);
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * Per-device channel routing of the click, for in-ear monitor setups
+ * - pan: every click at one stereo position
+ * - left / right: every click in one ear only
+ * - split: accents (and the count-in) in one ear, weak beats and subdivisions in the other
+ */
+
+import { KitVoice } from './sound-kits.js';
+
+export type RoutingMode = 'pan' | 'left' | 'right' | 'split';
+
+export interface RoutingSettings {
+  mode: RoutingMode;
+  pan: number; // -1 (left) to 1 (right), used by the pan mode
+  accentSide: 'left' | 'right'; // Ear the accents go to in the split mode
+}
+
+export const ROUTING_MODE_OPTIONS: Array<{ value: RoutingMode; label: string }> = [
+  { value: 'pan', label: 'Stereo' },
+  { value: 'left', label: 'Left ear only' },
+  { value: 'right', label: 'Right ear only' },
+  { value: 'split', label: 'Split accents' }
+];
+
+export const DEFAULT_ROUTING: RoutingSettings = {
+  mode: 'pan',
+  pan: 0,
+  accentSide: 'left'
+};
+
+const ACCENT_VOICES: KitVoice[] = ['strong', 'medium', 'countIn'];
+
+export function isValidRouting(value: unknown): value is RoutingSettings {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+
+  const { mode, pan, accentSide } = value as Record<string, unknown>;
+  return (
+    ROUTING_MODE_OPTIONS.some((option) => option.value === mode) &&
+    typeof pan === 'number' &&
+    pan >= -1 &&
+    pan <= 1 &&
+    (accentSide === 'left' || accentSide === 'right')
+  );
+}
+
+/**
+ * Stereo position (-1 to 1) of a voice's clicks
+ */
+export function voicePan(routing: RoutingSettings, voice: KitVoice): number {
+  switch (routing.mode) {
+    case 'pan':
+      return routing.pan;
+    case 'left':
+      return -1;
+    case 'right':
+      return 1;
+    case 'split': {
+      const accentPan = routing.accentSide === 'left' ? -1 : 1;
+      return ACCENT_VOICES.includes(voice) ? accentPan : -accentPan;
+    }
+  }
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { KitVoice, SOUND_KIT_OPTIONS, isValidSoundKit, renderKitSound } from './sound-kits.js';
+import { MAX_SPOKEN_COUNT } from './voice-count.js';
+
+const SAMPLE_RATE = 16000;
+const VOICES: KitVoice[] = ['strong', 'medium', 'weak', 'subdivision', 'countIn'];
+
+function peak(samples: Float32Array): number {
+  return samples.reduce((max, value) => Math.max(max, Math.abs(value)), 0);
+}
+
+describe('renderKitSound', () => {
+  it('renders every voice of every kit at its level', () => {
+    for (const { value: kit } of SOUND_KIT_OPTIONS) {
+      const peaks = VOICES.map((voice) => peak(renderKitSound(kit, voice, SAMPLE_RATE)));
+      expect(peaks.every((level) => level > 0 && level <= 1)).toBe(true);
+      expect(peaks[0]).toBeGreaterThan(peaks[2]);
+      expect(peaks[3]).toBeLessThan(peaks[2]);
+    }
+  });
+
+  it('renders at the requested sample rate', () => {
+    const at44k = renderKitSound('woodblock', 'weak', 44100);
+    const at48k = renderKitSound('woodblock', 'weak', 48000);
+    expect(at48k.length / at44k.length).toBeCloseTo(48000 / 44100, 2);
+  });
+
+  it('counts the beats of the bar out loud', () => {
+    const one = renderKitSound('voice', 'strong', SAMPLE_RATE, 0);
+    const two = renderKitSound('voice', 'weak', SAMPLE_RATE, 1);
+    expect(one.length).not.toBe(two.length);
+    expect(one.length).toBeGreaterThan(0.2 * SAMPLE_RATE);
+
+    // Past the spoken numbers, the beat still clicks
+    const beyond = renderKitSound('voice', 'weak', SAMPLE_RATE, MAX_SPOKEN_COUNT);
+    expect(beyond).toEqual(renderKitSound('sine', 'weak', SAMPLE_RATE));
+  });
+
+  it('plays the uploaded sample, or the sine blip until there is one', () => {
+    const sample = { sampleRate: 8000, samples: Float32Array.from({ length: 800 }, () => 0.25) };
+    const played = renderKitSound('sample', 'weak', SAMPLE_RATE, 0, sample);
+    expect(played).toHaveLength(1600);
+    expect(peak(played)).toBeCloseTo(0.5, 6);
+
+    expect(renderKitSound('sample', 'weak', SAMPLE_RATE)).toEqual(
+      renderKitSound('sine', 'weak', SAMPLE_RATE)
+    );
+  });
+});
+
+describe('isValidSoundKit', () => {
+  it('accepts known kits only', () => {
+    expect(isValidSoundKit('cowbell')).toBe(true);
+    expect(isValidSoundKit('tambourine')).toBe(false);
+    expect(isValidSoundKit(undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,182 @@
+/**
+ * Sound kits for the metronome click
+ * Each kit renders one sound per voice (accent level, subdivision tick, count-in).
+ * The kit is a per-device choice: every device in a room can pick its own.
+ */
+
+import { resample } from './calibration.js';
+import { MAX_SPOKEN_COUNT, speakCount } from './voice-count.js';
+
+export type SoundKitId =
+  | 'sine'
+  | 'woodblock'
+  | 'cowbell'
+  | 'hihat'
+  | 'rimshot'
+  | 'voice'
+  | 'sample';
+
+export const SOUND_KIT_OPTIONS: Array<{ value: SoundKitId; label: string }> = [
+  { value: 'sine', label: 'Sine blip' },
+  { value: 'woodblock', label: 'Woodblock' },
+  { value: 'cowbell', label: 'Cowbell' },
+  { value: 'hihat', label: 'Hi-hat' },
+  { value: 'rimshot', label: 'Rimshot' },
+  { value: 'voice', label: 'Voice count' },
+  { value: 'sample', label: 'My sample' }
+];
+
+export const DEFAULT_SOUND_KIT: SoundKitId = 'sine';
+
+export function isValidSoundKit(value: unknown): value is SoundKitId {
+  return SOUND_KIT_OPTIONS.some((option) => option.value === value);
+}
+
+/**
+ * What a click is for: a beat's accent level, a subdivision tick or a count-in beat
+ */
+export type KitVoice = 'strong' | 'medium' | 'weak' | 'subdivision' | 'countIn';
+
+export const KIT_VOICES: KitVoice[] = ['strong', 'medium', 'weak', 'subdivision', 'countIn'];
+
+/**
+ * A user-uploaded sound, mono
+ */
+export interface SoundSample {
+  sampleRate: number;
+  samples: Float32Array;
+}
+
+// Peak level and pitch of each voice (pitch relative to a weak beat)
+const VOICE_LEVEL: Record<KitVoice, number> = {
+  strong: 0.8,
+  medium: 0.65,
+  weak: 0.5,
+  subdivision: 0.22,
+  countIn: 0.75
+};
+const VOICE_PITCH: Record<KitVoice, number> = {
+  strong: 1.5,
+  medium: 1.25,
+  weak: 1,
+  subdivision: 2,
+  countIn: 0.78
+};
+
+type Synth = (sampleRate: number, pitch: number) => Float32Array;
+
+const SYNTHS: Record<Exclude<SoundKitId, 'voice' | 'sample'>, Synth> = {
+  sine: (sampleRate, pitch) =>
+    render(sampleRate, 50, (t) => Math.sin(2 * Math.PI * 800 * pitch * t) * Math.exp(-10 * t)),
+  woodblock: (sampleRate, pitch) =>
+    render(
+      sampleRate,
+      60,
+      (t) =>
+        Math.sin(2 * Math.PI * 1000 * pitch * t) * Math.exp(-70 * t) +
+        0.4 * Math.sin(2 * Math.PI * 2700 * pitch * t) * Math.exp(-110 * t)
+    ),
+  cowbell: (sampleRate, pitch) =>
+    render(sampleRate, 250, (t) => {
+      const tone = squareish(540 * pitch * t) + squareish(800 * pitch * t);
+      return tone * (0.6 * Math.exp(-60 * t) + 0.4 * Math.exp(-8 * t));
+    }),
+  hihat: (sampleRate, pitch) => {
+    const noise = highPass(whiteNoise(sampleRate, 80), sampleRate, 7000);
+    return render(sampleRate, 80, (t, i) => noise[i] * Math.exp((-60 / pitch) * t));
+  },
+  rimshot: (sampleRate, pitch) => {
+    const noise = highPass(whiteNoise(sampleRate, 70), sampleRate, 2000);
+    return render(
+      sampleRate,
+      70,
+      (t, i) =>
+        0.6 * noise[i] * Math.exp(-150 * t) +
+        Math.sin(2 * Math.PI * 1700 * pitch * t) * Math.exp(-90 * t) +
+        0.7 * Math.sin(2 * Math.PI * 400 * pitch * t) * Math.exp(-60 * t)
+    );
+  }
+};
+
+/**
+ * Render one click of a kit at the context's sample rate (peak at the voice's level).
+ * beatInBar picks the number for the voice count; the sample kit falls back to the
+ * sine blip until a sample is uploaded.
+ */
+export function renderKitSound(
+  kit: SoundKitId,
+  voice: KitVoice,
+  sampleRate: number,
+  beatInBar = 0,
+  sample: SoundSample | null = null
+): Float32Array {
+  const level = VOICE_LEVEL[voice];
+
+  if (kit === 'voice' && voice !== 'subdivision' && beatInBar < MAX_SPOKEN_COUNT) {
+    const spoken = speakCount(beatInBar + 1, sampleRate);
+    if (spoken) {
+      return normalize(spoken, level);
+    }
+  }
+
+  if (kit === 'sample' && sample) {
+    // Only the count-in changes pitch, so the sample keeps its character
+    const rate = voice === 'countIn' ? sample.sampleRate * VOICE_PITCH.countIn : sample.sampleRate;
+    return normalize(resample(sample.samples, rate, sampleRate), level);
+  }
+
+  const synth = kit === 'voice' || kit === 'sample' ? SYNTHS.sine : SYNTHS[kit];
+  return normalize(synth(sampleRate, VOICE_PITCH[voice]), level);
+}
+
+function render(
+  sampleRate: number,
+  durationMs: number,
+  at: (t: number, i: number) => number
+): Float32Array {
+  const samples = new Float32Array(Math.floor((durationMs / 1000) * sampleRate));
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = at(i / sampleRate, i);
+  }
+  return samples;
+}
+
+// Odd harmonics give the metallic edge of a square wave without its harshness
+function squareish(cycles: number): number {
+  const x = 2 * Math.PI * cycles;
+  return Math.sin(x) + Math.sin(3 * x) / 3 + Math.sin(5 * x) / 5;
+}
+
+function whiteNoise(sampleRate: number, durationMs: number): Float32Array {
+  const samples = new Float32Array(Math.floor((durationMs / 1000) * sampleRate));
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = Math.random() * 2 - 1;
+  }
+  return samples;
+}
+
+// One-pole high-pass filter
+function highPass(samples: Float32Array, sampleRate: number, cutoffHz: number): Float32Array {
+  const rc = 1 / (2 * Math.PI * Math.min(cutoffHz, sampleRate * 0.45));
+  const alpha = rc / (rc + 1 / sampleRate);
+  const filtered = new Float32Array(samples.length);
+  for (let i = 1; i < samples.length; i++) {
+    filtered[i] = alpha * (filtered[i - 1] + samples[i] - samples[i - 1]);
+  }
+  return filtered;
+}
+
+function normalize(samples: Float32Array, level: number): Float32Array {
+  let peak = 0;
+  for (const value of samples) {
+    peak = Math.max(peak, Math.abs(value));
+  }
+
+  const normalized = new Float32Array(samples.length);
+  if (peak > 0) {
+    for (let i = 0; i < samples.length; i++) {
+      normalized[i] = (samples[i] / peak) * level;
+    }
+  }
+  return normalized;
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import {
+  MAX_SAMPLE_SECONDS,
+  decodeSoundSample,
+  encodeSoundSample,
+  prepareSoundSample
+} from './sound-sample.js';
+
+describe('prepareSoundSample', () => {
+  it('mixes to mono, skips leading silence and caps the length', () => {
+    const sampleRate = 1000;
+    const left = new Float32Array(3000);
+    const right = new Float32Array(3000);
+    left.fill(0.5, 200);
+    right.fill(0.3, 200);
+
+    const sample = prepareSoundSample([left, right], sampleRate);
+    expect(sample?.samples).toHaveLength(MAX_SAMPLE_SECONDS * sampleRate);
+    expect(sample?.samples[0]).toBeCloseTo(0.4, 6);
+  });
+
+  it('rejects silence', () => {
+    expect(prepareSoundSample([new Float32Array(100)], 1000)).toBeNull();
+  });
+});
+
+describe('encodeSoundSample', () => {
+  it('round-trips through storage at 16-bit precision', () => {
+    const samples = Float32Array.from({ length: 64 }, (_, i) => Math.sin(i / 5));
+    const decoded = decodeSoundSample(encodeSoundSample({ sampleRate: 22050, samples }));
+    expect(decoded?.sampleRate).toBe(22050);
+    expect(decoded?.samples).toHaveLength(64);
+    decoded?.samples.forEach((value, i) => expect(value).toBeCloseTo(samples[i], 4));
+  });
+
+  it('rejects malformed data', () => {
+    expect(decodeSoundSample('not json')).toBeNull();
+    expect(decodeSoundSample(JSON.stringify({ sampleRate: 0, pcm: 'AAAA' }))).toBeNull();
+    expect(decodeSoundSample(JSON.stringify({ sampleRate: 8000, pcm: 'AA==' }))).toBeNull();
+  });
+});
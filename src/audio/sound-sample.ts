@@ -0,0 +1,121 @@
+/**
+ * User-uploaded click sample for the 'sample' sound kit
+ * Decoded once, mixed to mono and trimmed, then stored on this device as 16-bit PCM.
+ */
+
+import { AudioContextManager, audioContextManager } from './context-manager.js';
+import { SoundSample } from './sound-kits.js';
+
+export const MAX_SAMPLE_SECONDS = 1;
+const MAX_FILE_BYTES = 10 * 1024 * 1024;
+const ONSET_THRESHOLD = 0.05; // Of the peak; quieter lead-in is skipped
+
+/**
+ * Decode an audio file into a sample ready for the click cache
+ */
+export async function loadSoundSampleFile(
+  file: Blob,
+  audio: AudioContextManager = audioContextManager
+): Promise<SoundSample> {
+  if (file.size > MAX_FILE_BYTES) {
+    throw new Error('That file is too large for a click sound.');
+  }
+
+  let decoded: AudioBuffer;
+  try {
+    decoded = await audio.getContext().decodeAudioData(await file.arrayBuffer());
+  } catch {
+    throw new Error('That file is not an audio format this browser can play.');
+  }
+
+  const channels: Float32Array[] = [];
+  for (let channel = 0; channel < decoded.numberOfChannels; channel++) {
+    channels.push(decoded.getChannelData(channel));
+  }
+  const sample = prepareSoundSample(channels, decoded.sampleRate);
+  if (!sample) {
+    throw new Error('That sound is silent.');
+  }
+  return sample;
+}
+
+/**
+ * Mix decoded channels down to mono, skipping leading silence and keeping at most
+ * MAX_SAMPLE_SECONDS. Null if the sound is silent.
+ */
+export function prepareSoundSample(
+  channels: Float32Array[],
+  sampleRate: number
+): SoundSample | null {
+  const length = channels[0]?.length ?? 0;
+  const mono = new Float32Array(length);
+  for (const channel of channels) {
+    for (let i = 0; i < length; i++) {
+      mono[i] += channel[i] / channels.length;
+    }
+  }
+
+  let peak = 0;
+  for (const value of mono) {
+    peak = Math.max(peak, Math.abs(value));
+  }
+  if (peak === 0) {
+    return null;
+  }
+
+  const start = mono.findIndex((value) => Math.abs(value) >= peak * ONSET_THRESHOLD);
+  const end = Math.min(length, start + Math.round(MAX_SAMPLE_SECONDS * sampleRate));
+  return { sampleRate, samples: mono.slice(start, end) };
+}
+
+/**
+ * Serialize a sample for localStorage (base64 of 16-bit PCM)
+ */
+export function encodeSoundSample(sample: SoundSample): string {
+  const pcm = new Int16Array(sample.samples.length);
+  for (let i = 0; i < pcm.length; i++) {
+    pcm[i] = Math.round(Math.max(-1, Math.min(1, sample.samples[i])) * 0x7fff);
+  }
+
+  const bytes = new Uint8Array(pcm.buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return JSON.stringify({ sampleRate: sample.sampleRate, pcm: btoa(binary) });
+}
+
+/**
+ * Parse a sample stored by encodeSoundSample (null if malformed)
+ */
+export function decodeSoundSample(stored: string): SoundSample | null {
+  try {
+    const parsed = JSON.parse(stored) as { sampleRate?: unknown; pcm?: unknown } | null;
+    if (
+      !parsed ||
+      typeof parsed.sampleRate !== 'number' ||
+      !(parsed.sampleRate > 0) ||
+      typeof parsed.pcm !== 'string'
+    ) {
+      return null;
+    }
+
+    const binary = atob(parsed.pcm);
+    if (binary.length === 0 || binary.length % 2 !== 0) {
+      return null;
+    }
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+      bytes[i] = binary.charCodeAt(i);
+    }
+
+    const pcm = new Int16Array(bytes.buffer);
+    const samples = new Float32Array(pcm.length);
+    for (let i = 0; i < pcm.length; i++) {
+      samples[i] = pcm[i] / 0x7fff;
+    }
+    return { sampleRate: parsed.sampleRate, samples };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,25 @@
+/**
+ * Beat subdivisions
+ * Extra clicks between the main beats, derived from the same beat grid
+ */
+
+/**
+ * Clicks per beat (1 = beats only, 2 = eighths, 3 = triplets, 4 = sixteenths)
+ */
+export type Subdivision = 1 | 2 | 3 | 4;
+
+export interface SubdivisionOption {
+  value: Subdivision;
+  label: string;
+}
+
+export const SUBDIVISION_OPTIONS: SubdivisionOption[] = [
+  { value: 1, label: 'Beats' },
+  { value: 2, label: 'Eighths' },
+  { value: 3, label: 'Triplets' },
+  { value: 4, label: 'Sixteenths' }
+];
+
+export function isValidSubdivision(value: unknown): value is Subdivision {
+  return SUBDIVISION_OPTIONS.some((option) => option.value === value);
+}
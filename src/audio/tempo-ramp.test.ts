@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import {
+  beatOffsetMs,
+  beatsAtOffsetMs,
+  isValidTempoRamp,
+  rebaseRamp,
+  tempoAtBeat
+} from './tempo-ramp.js';
+import { TempoRamp } from '../types.js';
+
+const LINEAR: TempoRamp = { startBpm: 60, endBpm: 120, durationBeats: 8, curve: 'linear' };
+const EXPONENTIAL: TempoRamp = { ...LINEAR, curve: 'exponential' };
+
+// Midpoint-rule integral of 60000 / bpm(b), independent of the closed forms
+function integratedMs(ramp: TempoRamp, beats: number): number {
+  const steps = 20000;
+  let ms = 0;
+  for (let i = 0; i < steps; i++) {
+    const beat = ((i + 0.5) * beats) / steps;
+    ms += (60000 / tempoAtBeat(ramp.endBpm, ramp, beat)) * (beats / steps);
+  }
+  return ms;
+}
+
+describe('tempo ramp', () => {
+  it('matches a numeric integral of the tempo curve', () => {
+    for (const ramp of [LINEAR, EXPONENTIAL]) {
+      for (const beats of [1, 3.5, 8]) {
+        expect(beatOffsetMs(ramp.endBpm, ramp, beats)).toBeCloseTo(integratedMs(ramp, beats), 3);
+      }
+    }
+  });
+
+  it('reaches each curve at the expected tempo', () => {
+    expect(tempoAtBeat(120, LINEAR, 4)).toBe(90);
+    expect(tempoAtBeat(120, EXPONENTIAL, 4)).toBeCloseTo(60 * Math.SQRT2, 9);
+    expect(tempoAtBeat(120, LINEAR, -2)).toBe(60);
+    expect(tempoAtBeat(120, LINEAR, 20)).toBe(120);
+    expect(tempoAtBeat(100, undefined, 5)).toBe(100);
+  });
+
+  it('inverts beat offsets back to beats', () => {
+    for (const ramp of [LINEAR, EXPONENTIAL, undefined]) {
+      for (const beats of [-2, 0, 0.25, 5, 8, 13.5]) {
+        const offsetMs = beatOffsetMs(120, ramp, beats);
+        expect(beatsAtOffsetMs(120, ramp, offsetMs)).toBeCloseTo(beats, 9);
+      }
+    }
+  });
+
+  it('holds the end tempo after the ramp and the start tempo before it', () => {
+    for (const ramp of [LINEAR, EXPONENTIAL]) {
+      const rampMs = beatOffsetMs(120, ramp, 8);
+      expect(beatOffsetMs(120, ramp, 12) - rampMs).toBeCloseTo(2000, 9);
+      expect(beatOffsetMs(120, ramp, -1)).toBe(-1000);
+    }
+  });
+
+  it('treats a flat ramp as a constant tempo', () => {
+    const flat: TempoRamp = { startBpm: 90, endBpm: 90, durationBeats: 4, curve: 'exponential' };
+    expect(beatOffsetMs(90, flat, 3)).toBeCloseTo(2000, 9);
+    expect(beatsAtOffsetMs(90, { ...flat, curve: 'linear' }, 2000)).toBeCloseTo(3, 9);
+  });
+
+  it('rebases mid-ramp without changing the remaining beat times', () => {
+    for (const ramp of [LINEAR, EXPONENTIAL]) {
+      const rebased = rebaseRamp(ramp, 3);
+      expect(rebased?.durationBeats).toBe(5);
+      expect(rebased?.startBpm).toBeCloseTo(tempoAtBeat(120, ramp, 3), 9);
+      for (const beats of [1, 4, 7]) {
+        expect(beatOffsetMs(120, rebased, beats)).toBeCloseTo(
+          beatOffsetMs(120, ramp, beats + 3) - beatOffsetMs(120, ramp, 3),
+          6
+        );
+      }
+    }
+  });
+
+  it('drops a finished ramp when rebasing and keeps it before it starts', () => {
+    expect(rebaseRamp(LINEAR, 8)).toBeUndefined();
+    expect(rebaseRamp(LINEAR, 0)).toBe(LINEAR);
+    expect(rebaseRamp(undefined, 2)).toBeUndefined();
+  });
+
+  it('rejects invalid ramps', () => {
+    expect(isValidTempoRamp(LINEAR)).toBe(true);
+    expect(isValidTempoRamp(null)).toBe(false);
+    expect(isValidTempoRamp({ ...LINEAR, curve: 'cubic' })).toBe(false);
+    expect(isValidTempoRamp({ ...LINEAR, startBpm: 10 })).toBe(false);
+    expect(isValidTempoRamp({ ...LINEAR, endBpm: Number.NaN })).toBe(false);
+    expect(isValidTempoRamp({ ...LINEAR, durationBeats: 0 })).toBe(false);
+    expect(isValidTempoRamp({ ...LINEAR, durationBeats: 5000 })).toBe(false);
+  });
+});
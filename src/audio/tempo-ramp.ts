@@ -0,0 +1,163 @@
+/**
+ * Closed-form tempo ramp math
+ *
+ * A ramp is defined over beats counted from the grid anchor:
+ * - linear:      bpm(b) = start + (end - start) * b / D
+ * - exponential: bpm(b) = start * (end / start) ^ (b / D)
+ * After D beats the tempo stays at `end`; before the anchor it is `start`.
+ *
+ * Beat times are the integral of 60000 / bpm(b), so every device derives
+ * identical beat times from the same announcement without per-beat messages.
+ */
+
+import { RampCurve, TempoRamp } from '../types.js';
+
+const MIN_RAMP_BPM = 20;
+const MAX_RAMP_BPM = 400;
+const MAX_RAMP_BEATS = 4096;
+const EPSILON = 1e-9;
+
+const RAMP_CURVES: RampCurve[] = ['linear', 'exponential'];
+
+/**
+ * Elapsed milliseconds from the anchor to a (possibly fractional) beat offset.
+ * Without a ramp this is the plain constant-tempo grid at `bpm`.
+ */
+export function beatOffsetMs(bpm: number, ramp: TempoRamp | undefined, beats: number): number {
+  if (!ramp) {
+    return (beats * 60000) / bpm;
+  }
+
+  const { startBpm, endBpm, durationBeats } = ramp;
+  if (beats <= 0) {
+    return (beats * 60000) / startBpm;
+  }
+
+  if (beats > durationBeats) {
+    return rampSegmentMs(ramp, durationBeats) + ((beats - durationBeats) * 60000) / endBpm;
+  }
+
+  return rampSegmentMs(ramp, beats);
+}
+
+/**
+ * Inverse of beatOffsetMs: fractional beats elapsed after offsetMs from the anchor.
+ */
+export function beatsAtOffsetMs(
+  bpm: number,
+  ramp: TempoRamp | undefined,
+  offsetMs: number
+): number {
+  if (!ramp) {
+    return (offsetMs * bpm) / 60000;
+  }
+
+  const { startBpm, endBpm, durationBeats } = ramp;
+  if (offsetMs <= 0) {
+    return (offsetMs * startBpm) / 60000;
+  }
+
+  const rampMs = rampSegmentMs(ramp, durationBeats);
+  if (offsetMs >= rampMs) {
+    return durationBeats + ((offsetMs - rampMs) * endBpm) / 60000;
+  }
+
+  if (ramp.curve === 'exponential') {
+    const logRatio = Math.log(endBpm / startBpm);
+    if (Math.abs(logRatio) < EPSILON) {
+      return (offsetMs * startBpm) / 60000;
+    }
+    return (
+      -(durationBeats / logRatio) *
+      Math.log(1 - (offsetMs * startBpm * logRatio) / (60000 * durationBeats))
+    );
+  }
+
+  const slope = (endBpm - startBpm) / durationBeats;
+  if (Math.abs(slope) < EPSILON) {
+    return (offsetMs * startBpm) / 60000;
+  }
+  return (startBpm / slope) * (Math.exp((slope * offsetMs) / 60000) - 1);
+}
+
+/**
+ * Instantaneous tempo at a beat offset from the anchor
+ */
+export function tempoAtBeat(bpm: number, ramp: TempoRamp | undefined, beats: number): number {
+  if (!ramp) {
+    return bpm;
+  }
+
+  const { startBpm, endBpm, durationBeats } = ramp;
+  const progress = Math.max(0, Math.min(1, beats / durationBeats));
+  if (ramp.curve === 'exponential') {
+    return startBpm * Math.pow(endBpm / startBpm, progress);
+  }
+  return startBpm + (endBpm - startBpm) * progress;
+}
+
+/**
+ * Remaining part of a ramp as seen from a later beat offset (undefined once finished).
+ * Used to re-anchor mid-ramp without changing the tempo curve.
+ */
+export function rebaseRamp(ramp: TempoRamp | undefined, beats: number): TempoRamp | undefined {
+  if (!ramp || beats >= ramp.durationBeats) {
+    return undefined;
+  }
+  if (beats <= 0) {
+    return ramp;
+  }
+
+  return {
+    ...ramp,
+    startBpm: tempoAtBeat(ramp.endBpm, ramp, beats),
+    durationBeats: ramp.durationBeats - beats
+  };
+}
+
+/**
+ * Validate a ramp received from the network or from storage
+ */
+export function isValidTempoRamp(value: unknown): value is TempoRamp {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+
+  const ramp = value as Record<string, unknown>;
+  const isTempo = (bpm: unknown) =>
+    typeof bpm === 'number' && Number.isFinite(bpm) && bpm >= MIN_RAMP_BPM && bpm <= MAX_RAMP_BPM;
+
+  return (
+    isTempo(ramp.startBpm) &&
+    isTempo(ramp.endBpm) &&
+    typeof ramp.durationBeats === 'number' &&
+    Number.isFinite(ramp.durationBeats) &&
+    ramp.durationBeats > 0 &&
+    ramp.durationBeats <= MAX_RAMP_BEATS &&
+    RAMP_CURVES.includes(ramp.curve as RampCurve)
+  );
+}
+
+/**
+ * Milliseconds from the anchor to `beats` (0 ≤ beats ≤ durationBeats) inside the ramp
+ */
+function rampSegmentMs(ramp: TempoRamp, beats: number): number {
+  const { startBpm, endBpm, durationBeats } = ramp;
+
+  if (ramp.curve === 'exponential') {
+    const logRatio = Math.log(endBpm / startBpm);
+    if (Math.abs(logRatio) < EPSILON) {
+      return (beats * 60000) / startBpm;
+    }
+    return (
+      ((60000 * durationBeats) / (startBpm * logRatio)) *
+      (1 - Math.exp((-logRatio * beats) / durationBeats))
+    );
+  }
+
+  const slope = (endBpm - startBpm) / durationBeats;
+  if (Math.abs(slope) < EPSILON) {
+    return (beats * 60000) / startBpm;
+  }
+  return (60000 / slope) * Math.log((startBpm + slope * beats) / startBpm);
+}
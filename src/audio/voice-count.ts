@@ -0,0 +1,150 @@
+/**
+ * Spoken beat numbers ("one", "two"...) for the voice count sound kit
+ *
+ * A small formant synthesizer: a falling glottal pulse train (or noise, for
+ * consonants such as "s" and "f") runs through three resonators whose
+ * frequencies glide between phoneme targets. Robotic, but each number is
+ * recognizable and no recordings have to be shipped or loaded.
+ */
+
+export const MAX_SPOKEN_COUNT = 12;
+
+interface Phoneme {
+  formants: [number, number, number]; // Hz
+  voiced: number; // Amplitude of the glottal source
+  noise: number; // Amplitude of the noise source
+  noiseHz: number; // Center of the noise band
+}
+
+interface Segment {
+  phoneme: Phoneme | null; // null = closure (silence before a stop)
+  ms: number;
+}
+
+function vowel(f1: number, f2: number, f3: number): Phoneme {
+  return { formants: [f1, f2, f3], voiced: 1, noise: 0, noiseHz: 0 };
+}
+
+const IY = vowel(270, 2290, 3010);
+const IH = vowel(390, 1990, 2550);
+const EH = vowel(530, 1840, 2480);
+const AH = vowel(520, 1190, 2390);
+const AA = vowel(730, 1090, 2440);
+const AO = vowel(570, 840, 2410);
+const UW = vowel(300, 870, 2240);
+const W: Phoneme = { formants: [290, 610, 2150], voiced: 0.5, noise: 0, noiseHz: 0 };
+const R: Phoneme = { formants: [310, 1060, 1380], voiced: 0.6, noise: 0, noiseHz: 0 };
+const L: Phoneme = { formants: [310, 1050, 2880], voiced: 0.6, noise: 0, noiseHz: 0 };
+const N: Phoneme = { formants: [280, 1700, 2600], voiced: 0.35, noise: 0, noiseHz: 0 };
+const V: Phoneme = { formants: [220, 1100, 2080], voiced: 0.3, noise: 0.1, noiseHz: 3500 };
+const F: Phoneme = { formants: [300, 1400, 2500], voiced: 0, noise: 0.15, noiseHz: 4000 };
+const TH: Phoneme = { formants: [300, 1400, 2500], voiced: 0, noise: 0.12, noiseHz: 5000 };
+const S: Phoneme = { formants: [300, 1700, 2600], voiced: 0, noise: 0.35, noiseHz: 6000 };
+const T: Phoneme = { formants: [300, 1700, 2600], voiced: 0, noise: 0.4, noiseHz: 4200 };
+const K: Phoneme = { formants: [300, 1700, 2600], voiced: 0, noise: 0.35, noiseHz: 2200 };
+
+function s(phoneme: Phoneme | null, ms: number): Segment {
+  return { phoneme, ms };
+}
+
+const WORDS: Segment[][] = [
+  [s(W, 60), s(AH, 180), s(N, 100)],
+  [s(T, 35), s(UW, 260)],
+  [s(TH, 90), s(R, 60), s(IY, 220)],
+  [s(F, 100), s(AO, 180), s(R, 120)],
+  [s(F, 100), s(AA, 120), s(IY, 130), s(V, 60)],
+  [s(S, 110), s(IH, 120), s(null, 50), s(K, 30), s(S, 110)],
+  [s(S, 110), s(EH, 140), s(V, 50), s(AH, 70), s(N, 100)],
+  [s(EH, 130), s(IY, 120), s(null, 40), s(T, 40)],
+  [s(N, 80), s(AA, 120), s(IY, 120), s(N, 100)],
+  [s(T, 40), s(EH, 180), s(N, 120)],
+  [s(IH, 80), s(L, 60), s(EH, 140), s(V, 50), s(AH, 60), s(N, 100)],
+  [s(T, 40), s(W, 50), s(EH, 140), s(L, 70), s(V, 60)]
+];
+
+const FORMANT_BANDWIDTHS = [80, 100, 120]; // Hz
+const FORMANT_GAINS = [1, 0.5, 0.25];
+const GLIDE_FRACTION = 0.4; // Share of a segment spent moving to its targets
+const PITCH_START_HZ = 140;
+const PITCH_END_HZ = 105;
+const EDGE_MS = 5; // Fade in and out
+
+/**
+ * Two-pole resonator (bandpass) whose center frequency can change per sample
+ */
+class Resonator {
+  private y1 = 0;
+  private y2 = 0;
+
+  constructor(
+    private readonly sampleRate: number,
+    private readonly bandwidthHz: number
+  ) {}
+
+  process(input: number, frequencyHz: number): number {
+    const r = Math.exp((-Math.PI * this.bandwidthHz) / this.sampleRate);
+    const a1 = 2 * r * Math.cos((2 * Math.PI * frequencyHz) / this.sampleRate);
+    const a2 = -r * r;
+    const output = (1 - r) * input + a1 * this.y1 + a2 * this.y2;
+    this.y2 = this.y1;
+    this.y1 = output;
+    return output;
+  }
+}
+
+/**
+ * Samples of a spoken number (not normalized), or null past MAX_SPOKEN_COUNT
+ */
+export function speakCount(count: number, sampleRate: number): Float32Array | null {
+  const word = WORDS[count - 1];
+  if (!word) {
+    return null;
+  }
+
+  const totalMs = word.reduce((sum, segment) => sum + segment.ms, 0);
+  const output = new Float32Array(Math.round((totalMs / 1000) * sampleRate));
+  const formantFilters = FORMANT_BANDWIDTHS.map(
+    (bandwidth) => new Resonator(sampleRate, bandwidth)
+  );
+  const noiseFilter = new Resonator(sampleRate, 1500);
+
+  let previous = word[0].phoneme ?? IY;
+  let index = 0;
+  let phase = 0;
+  for (const segment of word) {
+    const target = segment.phoneme;
+    const length = Math.round((segment.ms / 1000) * sampleRate);
+    const glideLength = Math.max(1, Math.round(length * GLIDE_FRACTION));
+
+    for (let i = 0; i < length && index < output.length; i++, index++) {
+      if (!target) {
+        output[index] = 0;
+        continue;
+      }
+
+      const mix = Math.min(1, i / glideLength);
+      const pitchHz = PITCH_START_HZ + ((PITCH_END_HZ - PITCH_START_HZ) * index) / output.length;
+      phase = (phase + pitchHz / sampleRate) % 1;
+      const glottal = (1 - 2 * phase) * (previous.voiced + (target.voiced - previous.voiced) * mix);
+      const noise = (Math.random() * 2 - 1) * target.noise;
+
+      let sample = noiseFilter.process(noise, target.noiseHz) * 4;
+      for (let f = 0; f < formantFilters.length; f++) {
+        const frequency = previous.formants[f] + (target.formants[f] - previous.formants[f]) * mix;
+        sample += formantFilters[f].process(glottal, frequency) * FORMANT_GAINS[f];
+      }
+      output[index] = sample;
+    }
+
+    if (target) {
+      previous = target;
+    }
+  }
+
+  const edge = Math.round((EDGE_MS / 1000) * sampleRate);
+  for (let i = 0; i < edge && i < output.length; i++) {
+    output[i] *= i / edge;
+    output[output.length - 1 - i] *= i / edge;
+  }
+  return output;
+}
@@ -6,6 +6,7 @@ export interface LeaderConnectionManagerLike {
   onPeerConnected(callback: (peerId: string) => void): void;
   onPeerDisconnected(callback: (peerId: string) => void): void;
   sendTimeSync(peerId: string, data: any): void;
+  broadcastTimeSync(data: any): void;
   sendControl(peerId: string, data: any): void;
   broadcastControl(data: any): void;
   closeAll(): Promise<void>;
@@ -16,6 +17,8 @@ export interface PeerConnectionManagerLike {
   onTimeSync(handler: DataChannelMessageHandler): void;
   onControl(handler: DataChannelMessageHandler): void;
   onConnected(callback: () => void): void;
+  onPeerSeen(callback: (peerId: string) => void): void;
+  onPeerLeft(callback: (peerId: string) => void): void;
   sendTimeSync(data: any): void;
   sendControl(data: any): void;
   isConnected(): boolean;
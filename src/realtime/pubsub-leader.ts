@@ -103,6 +103,16 @@ export class HostPubSubConnectionManager {
     void this.signaling.send(message);
   }
 
+  broadcastTimeSync(data: any): void {
+    const type = data?.type as MessageType;
+    if (!type) {
+      return;
+    }
+
+    const message = createMessage(this.roomId, this.leaderId, '*', type, data.payload);
+    void this.signaling.send(message);
+  }
+
   sendControl(peerId: string, data: any): void {
     if (!this.peers.has(peerId)) {
       return;
@@ -1,13 +1,18 @@
 import { SignalingTransport } from '../signaling/transport.js';
 import { DataChannelMessageHandler } from '../webrtc/types.js';
 import { Message, MessageType, createMessage } from '../types.js';
+import { Timebase, systemTimebase } from '../sync/timebase.js';
 
 const CONTROL_TYPES = new Set<MessageType>([
   'start_announce',
   'stop_announce',
   'param_update',
   'room_closed',
-  'clock_offset'
+  'clock_offset',
+  'control_result',
+  'leader_handoff',
+  // Carries nothing, but keeps a quiet leader from looking lost
+  'leader_beacon'
 ]);
 
 export class PeerPubSubConnectionManager {
@@ -19,11 +24,14 @@ export class PeerPubSubConnectionManager {
   private onTimeSyncMessage: DataChannelMessageHandler | null = null;
   private onControlMessage: DataChannelMessageHandler | null = null;
   private onConnectedCallback: (() => void) | null = null;
+  private onPeerSeenCallback: ((peerId: string) => void) | null = null;
+  private onPeerLeftCallback: ((peerId: string) => void) | null = null;
 
   constructor(
     private readonly roomId: string,
     private readonly peerId: string,
-    private readonly signaling: SignalingTransport
+    private readonly signaling: SignalingTransport,
+    private readonly timebase: Timebase = systemTimebase
   ) {
     this.signaling.onMessage((message) => {
       void this.handleMessage(message);
@@ -55,6 +63,16 @@ export class PeerPubSubConnectionManager {
       return;
     }
 
+    // Other peers' join announcements tell us who is still in the room, their byes who left.
+    if (message.type === 'join') {
+      this.onPeerSeenCallback?.(message.from);
+      return;
+    }
+    if (message.type === 'peer_bye') {
+      this.onPeerLeftCallback?.(message.from);
+      return;
+    }
+
     if (this.leaderId && message.from !== this.leaderId) {
       return;
     }
@@ -71,11 +89,11 @@ export class PeerPubSubConnectionManager {
 
   private startJoinAnnounceLoop(): void {
     if (this.joinRetryIntervalId !== null) {
-      clearInterval(this.joinRetryIntervalId);
+      this.timebase.clearInterval(this.joinRetryIntervalId);
     }
 
     // Keep announcing join periodically even while connected so a refreshed host can rediscover peers.
-    this.joinRetryIntervalId = window.setInterval(() => {
+    this.joinRetryIntervalId = this.timebase.setInterval(() => {
       void this.sendJoin();
     }, PeerPubSubConnectionManager.JOIN_ANNOUNCE_INTERVAL_MS);
   }
@@ -92,6 +110,14 @@ export class PeerPubSubConnectionManager {
     this.onConnectedCallback = callback;
   }
 
+  onPeerSeen(callback: (peerId: string) => void): void {
+    this.onPeerSeenCallback = callback;
+  }
+
+  onPeerLeft(callback: (peerId: string) => void): void {
+    this.onPeerLeftCallback = callback;
+  }
+
   sendTimeSync(data: any): void {
     if (!this.connected || !this.leaderId) {
       return;
@@ -126,12 +152,13 @@ export class PeerPubSubConnectionManager {
 
   async close(): Promise<void> {
     if (this.joinRetryIntervalId !== null) {
-      clearInterval(this.joinRetryIntervalId);
+      this.timebase.clearInterval(this.joinRetryIntervalId);
       this.joinRetryIntervalId = null;
     }
 
     if (this.connected && this.leaderId) {
-      const bye = createMessage(this.roomId, this.peerId, this.leaderId, 'peer_bye', {});
+      // Sent to the whole room so other peers stop counting us as an election candidate
+      const bye = createMessage(this.roomId, this.peerId, '*', 'peer_bye', {});
       await this.signaling.send(bye);
     }
 
@@ -6,11 +6,15 @@ import { LeaderConnectionManager } from '../webrtc/leader.js';
 import { PeerConnectionManager } from '../webrtc/peer.js';
 import { HostPubSubConnectionManager } from './pubsub-leader.js';
 import { PeerPubSubConnectionManager } from './pubsub-peer.js';
+import { Timebase, systemTimebase } from '../sync/timebase.js';
+import { ClockSyncMode } from '../sync/clock.js';
 
 export type TransportMode = 'webrtc' | 'pubsub';
 
 export interface TransportRuntime {
   mode: TransportMode;
+  timebase: Timebase;
+  clockSyncMode: ClockSyncMode;
   createSignaling: () => SignalingTransport;
   createLeaderConnection(
     roomId: string,
@@ -28,11 +32,16 @@ export interface TransportRuntimeOptions {
   mode: TransportMode;
   createSignaling: () => SignalingTransport;
   iceConfig?: IceConfig;
+  timebase?: Timebase; // Defaults to performance.now() and window timers
+  clockSyncMode?: ClockSyncMode; // Defaults to 'peer'
 }
 
 export function createTransportRuntime(options: TransportRuntimeOptions): TransportRuntime {
+  const timebase = options.timebase ?? systemTimebase;
   return {
     mode: options.mode,
+    timebase,
+    clockSyncMode: options.clockSyncMode ?? 'peer',
     createSignaling: options.createSignaling,
     createLeaderConnection(roomId, leaderId, signaling) {
       if (options.mode === 'webrtc') {
@@ -52,7 +61,7 @@ export function createTransportRuntime(options: TransportRuntimeOptions): Transp
         return new PeerConnectionManager(roomId, peerId, signaling, options.iceConfig);
       }
 
-      return new PeerPubSubConnectionManager(roomId, peerId, signaling);
+      return new PeerPubSubConnectionManager(roomId, peerId, signaling, timebase);
     }
   };
 }
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { InMemoryNetwork, InMemorySignaling, NetworkConditions } from './memory.js';
+import { VirtualClock } from '../sim/virtual-clock.js';
+import { createSeededRandom } from '../sim/random.js';
+import { Message, createMessage } from '../types.js';
+
+async function connectPair(conditions: Partial<NetworkConditions>) {
+  const clock = new VirtualClock();
+  const network = new InMemoryNetwork(clock.createTimebase(), conditions, createSeededRandom(3));
+  const sender = new InMemorySignaling(network);
+  const receiver = new InMemorySignaling(network);
+  await sender.connect('ROOM', 'a');
+  await receiver.connect('ROOM', 'b');
+
+  const received: Array<{ seq: number; atMs: number }> = [];
+  receiver.onMessage((message: Message) => {
+    received.push({ seq: (message.payload as { seq: number }).seq, atMs: clock.now() });
+  });
+
+  const send = (seq: number, to: string = '*') =>
+    sender.send(createMessage('ROOM', 'a', to, 'time_ping', { seq }));
+  return { clock, network, send, received };
+}
+
+describe('InMemoryNetwork', () => {
+  it('delivers after the configured latency', async () => {
+    const { clock, send, received } = await connectPair({ latencyMs: 30 });
+    await send(1);
+
+    await clock.advance(29);
+    expect(received).toHaveLength(0);
+    await clock.advance(1);
+    expect(received).toEqual([{ seq: 1, atMs: 30 }]);
+  });
+
+  it('keeps jittered deliveries within the window', async () => {
+    const { clock, send, received } = await connectPair({ latencyMs: 20, jitterMs: 10 });
+    for (let seq = 0; seq < 50; seq++) {
+      await send(seq);
+    }
+
+    await clock.advance(100);
+    expect(received).toHaveLength(50);
+    expect(received.every(({ atMs }) => atMs >= 20 && atMs < 30)).toBe(true);
+  });
+
+  it('drops roughly the configured share of deliveries', async () => {
+    const { clock, network, send, received } = await connectPair({ lossRate: 0.25 });
+    for (let seq = 0; seq < 400; seq++) {
+      await send(seq);
+    }
+
+    await clock.advance(10);
+    expect(received.length).toBeGreaterThan(260);
+    expect(received.length).toBeLessThan(340);
+    expect(network.getStats()).toEqual({ sent: 400, dropped: 400 - received.length });
+  });
+
+  it('reorders held-back deliveries behind later ones', async () => {
+    const { clock, send, received } = await connectPair({
+      latencyMs: 10,
+      reorderRate: 0.5,
+      reorderDelayMs: 50
+    });
+    for (let seq = 0; seq < 20; seq++) {
+      await send(seq);
+      await clock.advance(5);
+    }
+
+    await clock.advance(100);
+    const order = received.map(({ seq }) => seq);
+    expect(order).toHaveLength(20);
+    expect(order).not.toEqual([...order].sort((a, b) => a - b));
+  });
+
+  it('only delivers messages addressed to the client', async () => {
+    const { clock, send, received } = await connectPair({});
+    await send(1, 'someone-else');
+    await send(2, 'b');
+
+    await clock.advance(1);
+    expect(received.map(({ seq }) => seq)).toEqual([2]);
+  });
+
+  it('delivers nothing over a cut link until it is restored', async () => {
+    const { clock, network, send, received } = await connectPair({});
+    network.setLinkCut('b', 'a', true);
+    await send(1);
+    network.setLinkCut('a', 'b', false);
+    await send(2);
+
+    await clock.advance(1);
+    expect(received.map(({ seq }) => seq)).toEqual([2]);
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * In-memory signaling transport for simulations
+ * Every client attaches to a shared network that delivers messages on a timebase
+ * with configurable latency, jitter, loss and reordering.
+ */
+
+import { SignalingTransport, MessageHandler } from './transport.js';
+import { Message } from '../types.js';
+import { Timebase } from '../sync/timebase.js';
+
+export interface NetworkConditions {
+  latencyMs: number; // One-way base delay
+  jitterMs: number; // Extra delay drawn uniformly from [0, jitterMs)
+  lossRate: number; // Probability (0-1) that a delivery is dropped
+  reorderRate: number; // Probability (0-1) that a delivery is held back behind later ones
+  reorderDelayMs: number; // Extra delay for held-back deliveries
+}
+
+export const IDEAL_NETWORK: NetworkConditions = {
+  latencyMs: 0,
+  jitterMs: 0,
+  lossRate: 0,
+  reorderRate: 0,
+  reorderDelayMs: 0
+};
+
+/**
+ * Shared medium between in-memory clients. Each recipient draws its own delay
+ * and loss, like fan-out through a pub/sub provider.
+ */
+export class InMemoryNetwork {
+  private clients: Set<InMemorySignaling> = new Set();
+  private cutLinks: Set<string> = new Set(); // "from>to" client id pairs
+  private conditions: NetworkConditions;
+  private sentCount = 0;
+  private droppedCount = 0;
+
+  constructor(
+    private readonly timebase: Timebase,
+    conditions: Partial<NetworkConditions> = {},
+    private readonly random: () => number = Math.random
+  ) {
+    this.conditions = { ...IDEAL_NETWORK, ...conditions };
+  }
+
+  setConditions(conditions: Partial<NetworkConditions>): void {
+    this.conditions = { ...this.conditions, ...conditions };
+  }
+
+  /**
+   * Cut or restore the link between two clients (both directions), e.g. to split the room
+   */
+  setLinkCut(clientIdA: string, clientIdB: string, cut: boolean): void {
+    for (const link of [`${clientIdA}>${clientIdB}`, `${clientIdB}>${clientIdA}`]) {
+      if (cut) {
+        this.cutLinks.add(link);
+      } else {
+        this.cutLinks.delete(link);
+      }
+    }
+  }
+
+  getConditions(): NetworkConditions {
+    return { ...this.conditions };
+  }
+
+  /**
+   * Messages handed to the network and deliveries dropped so far
+   */
+  getStats(): { sent: number; dropped: number } {
+    return { sent: this.sentCount, dropped: this.droppedCount };
+  }
+
+  attach(client: InMemorySignaling): void {
+    this.clients.add(client);
+  }
+
+  detach(client: InMemorySignaling): void {
+    this.clients.delete(client);
+  }
+
+  send(sender: InMemorySignaling, message: Message): void {
+    this.sentCount++;
+    // Copy like a real wire would, so receivers never share objects with the sender
+    const wire = JSON.stringify(message);
+
+    for (const client of this.clients) {
+      if (
+        client === sender ||
+        this.cutLinks.has(`${sender.getClientId()}>${client.getClientId()}`)
+      ) {
+        continue;
+      }
+
+      if (this.random() < this.conditions.lossRate) {
+        this.droppedCount++;
+        continue;
+      }
+
+      this.timebase.setTimeout(() => {
+        client.receive(JSON.parse(wire) as Message);
+      }, this.deliveryDelayMs());
+    }
+  }
+
+  private deliveryDelayMs(): number {
+    const { latencyMs, jitterMs, reorderRate, reorderDelayMs } = this.conditions;
+    let delayMs = latencyMs + this.random() * jitterMs;
+    if (this.random() < reorderRate) {
+      delayMs += reorderDelayMs;
+    }
+    return delayMs;
+  }
+}
+
+export class InMemorySignaling implements SignalingTransport {
+  private messageHandler: MessageHandler | null = null;
+  private connected: boolean = false;
+  private roomId: string = '';
+  private clientId: string = '';
+
+  constructor(private readonly network: InMemoryNetwork) {}
+
+  async connect(roomId: string, clientId: string): Promise<void> {
+    this.roomId = roomId;
+    this.clientId = clientId;
+    this.network.attach(this);
+    this.connected = true;
+  }
+
+  async send(message: Message): Promise<void> {
+    if (!this.connected) {
+      throw new Error('Not connected to signaling');
+    }
+
+    this.network.send(this, message);
+  }
+
+  onMessage(handler: MessageHandler): void {
+    this.messageHandler = handler;
+  }
+
+  async disconnect(): Promise<void> {
+    this.network.detach(this);
+    this.connected = false;
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  getClientId(): string {
+    return this.clientId;
+  }
+
+  /**
+   * Called by the network when a delivery arrives
+   */
+  receive(message: Message): void {
+    // Deliveries in flight when we disconnected are lost
+    if (!this.connected) {
+      return;
+    }
+
+    if (message.from === this.clientId || message.roomId !== this.roomId) {
+      return;
+    }
+
+    if (message.to !== this.clientId && message.to !== '*') {
+      return;
+    }
+
+    this.messageHandler?.(message);
+  }
+}
@@ -0,0 +1,140 @@
+/**
+ * Headless audio for simulations
+ * A stand-in AudioContext whose clock follows a device timebase, so the real
+ * metronome scheduler runs in Node without producing sound.
+ */
+
+import { AudioContextManager } from '../audio/context-manager.js';
+import { Timebase } from '../sync/timebase.js';
+
+class HeadlessAudioParam {
+  value = 1;
+
+  setTargetAtTime(value: number): void {
+    this.value = value;
+  }
+}
+
+class HeadlessAudioNode {
+  readonly inputs: HeadlessAudioNode[] = []; // Nodes connected into this one
+
+  connect(target: HeadlessAudioNode): void {
+    target.inputs.push(this);
+  }
+
+  disconnect(): void {}
+}
+
+class HeadlessGainNode extends HeadlessAudioNode {
+  readonly gain = new HeadlessAudioParam();
+}
+
+class HeadlessStereoPannerNode extends HeadlessAudioNode {
+  readonly pan = new HeadlessAudioParam();
+}
+
+class HeadlessBufferSource extends HeadlessAudioNode {
+  buffer: unknown = null;
+  onended: (() => void) | null = null;
+
+  constructor(private readonly onStart: (when: number) => void) {
+    super();
+  }
+
+  start(when: number = 0): void {
+    this.onStart(when);
+  }
+
+  stop(): void {}
+}
+
+class HeadlessAudioContext {
+  readonly state = 'running';
+  readonly sampleRate = 44100;
+  readonly destination = new HeadlessAudioNode();
+  readonly startTimes: number[] = []; // Context time of every source.start()
+
+  constructor(private readonly timebase: Timebase) {}
+
+  get currentTime(): number {
+    return this.timebase.now() / 1000;
+  }
+
+  async resume(): Promise<void> {}
+
+  async close(): Promise<void> {}
+
+  createBuffer(channels: number, length: number, sampleRate: number) {
+    const data = Array.from({ length: channels }, () => new Float32Array(length));
+    return {
+      length,
+      sampleRate,
+      numberOfChannels: channels,
+      duration: length / sampleRate,
+      getChannelData: (channel: number) => data[channel]
+    };
+  }
+
+  createBufferSource(): HeadlessBufferSource {
+    return new HeadlessBufferSource((when) => this.startTimes.push(when));
+  }
+
+  createGain(): HeadlessGainNode {
+    return new HeadlessGainNode();
+  }
+
+  createStereoPanner(): HeadlessStereoPannerNode {
+    return new HeadlessStereoPannerNode();
+  }
+}
+
+export class HeadlessAudioContextManager extends AudioContextManager {
+  private readonly headlessContext: HeadlessAudioContext;
+
+  /**
+   * @param outputLatencyMs - Latency the simulated browser reports (null = not reported)
+   */
+  constructor(
+    timebase: Timebase,
+    private readonly outputLatencyMs: number | null = null
+  ) {
+    super();
+    this.headlessContext = new HeadlessAudioContext(timebase);
+  }
+
+  getContext(): AudioContext {
+    return this.headlessContext as unknown as AudioContext;
+  }
+
+  getOutputLatencyMs(): number | null {
+    return this.outputLatencyMs;
+  }
+
+  /**
+   * Gain of the master bus feeding the speaker (null before the first click bus exists)
+   */
+  getMasterGain(): number | null {
+    const [master] = this.headlessContext.destination.inputs;
+    return master instanceof HeadlessGainNode ? master.gain.value : null;
+  }
+
+  /**
+   * Device times (ms) at which the started sounds reach the speaker
+   */
+  getHeardTimesMs(): number[] {
+    return this.headlessContext.startTimes.map((when) => when * 1000 + (this.outputLatencyMs ?? 0));
+  }
+
+  async resume(): Promise<void> {}
+
+  async close(): Promise<void> {}
+
+  // Clicks go through (headless) buffer sources
+  async getClickWorkletNode(): Promise<AudioWorkletNode | null> {
+    return null;
+  }
+
+  isReady(): boolean {
+    return true;
+  }
+}
@@ -0,0 +1,424 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { RoomSimulation, SimulatedDevice } from './room-simulation.js';
+import { PeerStateMachine } from '../state/peer-machine.js';
+import { NetworkConditions } from '../signaling/memory.js';
+import { DEFAULT_METER } from '../audio/meter.js';
+import { Meter } from '../types.js';
+
+const ROOM_ID = 'SIM001';
+const PHASE_TOLERANCE_MS = 8;
+const LOSSY_NETWORK: Partial<NetworkConditions> = {
+  latencyMs: 40,
+  jitterMs: 10,
+  lossRate: 0.02,
+  reorderRate: 0.05,
+  reorderDelayMs: 20
+};
+// performance.now() origins differ per device (pages opened at different times)
+const PEER_CLOCKS = [{ offsetMs: 73_418.6 }, { offsetMs: 2_015.2 }, { offsetMs: 911_204.9 }];
+
+async function openRoom(sim: RoomSimulation, peerCount: number = PEER_CLOCKS.length) {
+  const host = sim.createLeader('host', { offsetMs: 15_000 });
+  await host.leader.createRoom(120, ROOM_ID);
+
+  const peers: Array<{ device: SimulatedDevice; peer: PeerStateMachine }> = [];
+  for (let i = 0; i < peerCount; i++) {
+    const entry = sim.createPeer(`peer-${i}`, PEER_CLOCKS[i % PEER_CLOCKS.length]);
+    await entry.peer.joinRoom(ROOM_ID);
+    peers.push(entry);
+  }
+
+  // Let clock sync settle before anything starts
+  await sim.run(5000);
+  return { host, peers };
+}
+
+function worstPhaseErrorMs(
+  sim: RoomSimulation,
+  reference: SimulatedDevice,
+  devices: SimulatedDevice[],
+  fromMs: number
+): number {
+  // Leave room for a late peer's beat that has not played yet
+  const toMs = sim.now() - 200;
+  return Math.max(...devices.map((device) => sim.phaseErrorMs(reference, device, fromMs, toMs)));
+}
+
+describe('room simulation', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('starts every peer in phase with the host', async () => {
+    const sim = new RoomSimulation({ seed: 7, network: LOSSY_NETWORK });
+    const { host, peers } = await openRoom(sim);
+
+    host.leader.startMetronome();
+    await sim.run(10_000);
+
+    expect(peers.every(({ peer }) => peer.getState() === 'C_RUNNING')).toBe(true);
+    const settledFromMs = sim.now() - 5000;
+    expect(host.device.beatsBetween(settledFromMs, sim.now()).length).toBeGreaterThan(6);
+    expect(
+      worstPhaseErrorMs(
+        sim,
+        host.device,
+        peers.map(({ device }) => device),
+        settledFromMs
+      )
+    ).toBeLessThanOrEqual(PHASE_TOLERANCE_MS);
+  });
+
+  it('matches the host exactly on a network without jitter', async () => {
+    const sim = new RoomSimulation({ network: { latencyMs: 25 } });
+    const { host, peers } = await openRoom(sim);
+
+    host.leader.startMetronome();
+    await sim.run(5000);
+
+    expect(
+      worstPhaseErrorMs(
+        sim,
+        host.device,
+        peers.map(({ device }) => device),
+        0
+      )
+    ).toBeLessThan(0.5);
+  });
+
+  it('switches tempo on the same beat everywhere', async () => {
+    const sim = new RoomSimulation({ seed: 11, network: LOSSY_NETWORK });
+    const { host, peers } = await openRoom(sim);
+    host.leader.startMetronome();
+    await sim.run(4000);
+
+    const changedAtMs = sim.now();
+    host.leader.setBPM(150);
+    // A lost announcement is repaired by the next running-anchor rebroadcast
+    await sim.run(10_000);
+
+    const beats = host.device.beatsBetween(changedAtMs + 1000, sim.now());
+    expect(beats[1].atMs - beats[0].atMs).toBeCloseTo(400, 3);
+    expect(
+      worstPhaseErrorMs(
+        sim,
+        host.device,
+        peers.map(({ device }) => device),
+        sim.now() - 4000
+      )
+    ).toBeLessThanOrEqual(PHASE_TOLERANCE_MS);
+  });
+
+  it('keeps the count-in when the tempo changes during it', async () => {
+    const sim = new RoomSimulation({ seed: 17, network: { latencyMs: 25 } });
+    const { host, peers } = await openRoom(sim, 1);
+    host.leader.setCountInBars(4);
+    const startedAtMs = sim.now();
+    host.leader.startMetronome();
+    await sim.run(1000);
+
+    host.leader.setBPM(150);
+    // Joins from the room state, so it only counts in if the change kept the count-in
+    const late = sim.createPeer('late', { offsetMs: 5_551_212 });
+    await late.peer.joinRoom(ROOM_ID);
+    await sim.run(9000);
+
+    // Bar 1 stays where the count-in was heading and the new tempo starts there. Devices
+    // already counting in finish at the old tempo; the late peer counts in at the new one.
+    const downbeatMs = startedAtMs + 300 + 8000;
+    for (const device of [host.device, peers[0].device, late.device]) {
+      const countIn = device.beatsBetween(downbeatMs - 2000, downbeatMs - 1);
+      expect(countIn.length).toBeGreaterThan(0);
+      expect(countIn.every((beat) => beat.isCountIn && beat.beatIndex < 0)).toBe(true);
+      const [downbeat, next] = device.beatsBetween(downbeatMs - 1, sim.now());
+      expect(downbeat).toMatchObject({ beatIndex: 0, isCountIn: false });
+      expect(downbeat.atMs).toBeCloseTo(downbeatMs, 3);
+      expect(next.atMs - downbeat.atMs).toBeCloseTo(400, 3);
+    }
+    expect(
+      worstPhaseErrorMs(sim, host.device, [peers[0].device, late.device], downbeatMs - 1)
+    ).toBeLessThan(0.5);
+  });
+
+  it('advances to the next song when the bars run out, across a meter change', async () => {
+    const sim = new RoomSimulation({ seed: 23, network: LOSSY_NETWORK });
+    const { host, peers } = await openRoom(sim);
+    const startedAtMs = sim.now();
+    host.leader.startMetronome();
+    await sim.run(2500);
+
+    // 3/4 from bar 3: a 4-bar song ends after 2 bars of 4/4 and 2 bars of 3/4
+    const waltz: Meter = { beatsPerBar: 3, noteValue: 4, accents: ['strong', 'weak', 'weak'] };
+    host.leader.setMeter(waltz);
+    // Same check the host runs on each status refresh
+    let endBeatIndex: number | null = null;
+    while (endBeatIndex === null) {
+      await sim.run(250);
+      const songEndBeatIndex = host.leader.getSongEndBeatIndex(4);
+      const msUntilEnd = host.leader.getMsUntilBeat(songEndBeatIndex);
+      if (msUntilEnd !== null && msUntilEnd <= 1000) {
+        endBeatIndex = songEndBeatIndex;
+        host.leader.changeSong(90, DEFAULT_METER, endBeatIndex);
+      }
+    }
+    await sim.run(6000);
+
+    const songEndMs = startedAtMs + 14 * 500;
+    const [lastBeat, firstBeat, secondBeat] = host.device.beatsBetween(songEndMs - 501, sim.now());
+    expect(lastBeat.atMs).toBeCloseTo(songEndMs - 500, 3);
+    expect(firstBeat).toMatchObject({ beatIndex: 0 });
+    expect(firstBeat.atMs).toBeCloseTo(songEndMs, 3);
+    expect(secondBeat.atMs - firstBeat.atMs).toBeCloseTo(60000 / 90, 3);
+    expect(
+      worstPhaseErrorMs(
+        sim,
+        host.device,
+        peers.map(({ device }) => device),
+        sim.now() - 4000
+      )
+    ).toBeLessThanOrEqual(PHASE_TOLERANCE_MS);
+  });
+
+  it('keeps control requests with the same id from different peers apart', async () => {
+    const sim = new RoomSimulation({ seed: 29, network: { latencyMs: 25 } });
+    const { host, peers } = await openRoom(sim, 2);
+
+    // Each peer picks its own request ids, so two of them can collide
+    const random = vi.spyOn(Math, 'random').mockReturnValue(0.5);
+    const [firstId, secondId] = peers.map(({ peer }, i) => peer.requestControl('set_bpm', 100 + i));
+    random.mockRestore();
+    await sim.run(500);
+
+    expect(firstId).toBe(secondId);
+    const pending = () => host.leader.getPendingControlRequests().map((request) => request.peerId);
+    expect(pending().sort()).toEqual(['peer-0', 'peer-1']);
+
+    host.leader.resolveControlRequest('peer-1', secondId ?? '', true);
+    expect(pending()).toEqual(['peer-0']);
+    expect(host.leader.getPersistenceSnapshot()?.bpm).toBe(101);
+  });
+
+  it('stops every peer', async () => {
+    const sim = new RoomSimulation({ seed: 13, network: LOSSY_NETWORK });
+    const { host, peers } = await openRoom(sim);
+    host.leader.startMetronome();
+    await sim.run(4000);
+
+    // stop_announce is sent once and not repeated, so keep it from being dropped
+    sim.network.setConditions({ lossRate: 0 });
+    const stoppedAtMs = sim.now();
+    host.leader.stopMetronome();
+    await sim.run(2000);
+
+    const lastBeatMs = Math.max(...host.device.beats.map((beat) => beat.atMs));
+    expect(lastBeatMs).toBeLessThanOrEqual(stoppedAtMs);
+    for (const { device, peer } of peers) {
+      expect(peer.getState()).toBe('C_SYNCING');
+      expect(device.beatsBetween(stoppedAtMs + 500, sim.now())).toHaveLength(0);
+    }
+  });
+
+  it('resumes in phase after the host page is refreshed', async () => {
+    const sim = new RoomSimulation({ seed: 17, network: LOSSY_NETWORK });
+    const { host, peers } = await openRoom(sim);
+    host.leader.startMetronome();
+    await sim.run(4000);
+
+    // The host persists its anchor in wall-clock terms before reloading.
+    const snapshot = host.leader.getPersistenceSnapshot();
+    expect(snapshot?.running).toBe(true);
+    const anchorSimMs = host.device.timebase.toSimMs(snapshot?.anchorLeaderMs ?? 0);
+    host.device.crash();
+    await sim.run(1500);
+
+    const reloaded = sim.createLeader('host-reloaded', { offsetMs: 42.5 });
+    await reloaded.leader.createRoom(snapshot?.bpm ?? 120, ROOM_ID, snapshot?.meter);
+    reloaded.leader.resumeMetronomeFromAnchor(
+      reloaded.device.timebase.toDeviceMs(anchorSimMs),
+      snapshot?.beatIndexAtAnchor ?? 0
+    );
+    await sim.run(8000);
+
+    expect(peers.every(({ peer }) => peer.getState() === 'C_RUNNING')).toBe(true);
+    expect(
+      worstPhaseErrorMs(
+        sim,
+        reloaded.device,
+        peers.map(({ device }) => device),
+        sim.now() - 3000
+      )
+    ).toBeLessThanOrEqual(PHASE_TOLERANCE_MS);
+  });
+
+  it('keeps counting in after the host page is refreshed during the count-in', async () => {
+    const sim = new RoomSimulation({ seed: 31, network: { latencyMs: 25 } });
+    const { host, peers } = await openRoom(sim);
+    host.leader.setCountInBars(4);
+    host.leader.startMetronome();
+    await sim.run(2000);
+
+    const snapshot = host.leader.getPersistenceSnapshot();
+    expect(snapshot?.countInBeats).toBe(16);
+    const anchorSimMs = host.device.timebase.toSimMs(snapshot?.anchorLeaderMs ?? 0);
+    host.device.crash();
+    await sim.run(500);
+
+    const reloaded = sim.createLeader('host-reloaded', { offsetMs: 42.5 });
+    await reloaded.leader.createRoom(snapshot?.bpm ?? 120, ROOM_ID, snapshot?.meter);
+    const resumedAtMs = sim.now();
+    reloaded.leader.resumeMetronomeFromAnchor(
+      reloaded.device.timebase.toDeviceMs(anchorSimMs),
+      snapshot?.beatIndexAtAnchor ?? 0,
+      snapshot?.ramp,
+      snapshot?.countInBeats
+    );
+    await sim.run(7000);
+
+    for (const device of [reloaded.device, ...peers.map(({ device }) => device)]) {
+      const countIn = device.beatsBetween(resumedAtMs + 1000, anchorSimMs - 1);
+      expect(countIn.length).toBeGreaterThan(4);
+      expect(countIn.every((beat) => beat.isCountIn && beat.beatIndex < 0)).toBe(true);
+      const [downbeat] = device.beatsBetween(anchorSimMs - 1, sim.now());
+      expect(downbeat).toMatchObject({ beatIndex: 0, isCountIn: false });
+    }
+  });
+
+  it('brings a late joiner into phase with a running room', async () => {
+    const sim = new RoomSimulation({ seed: 19, network: LOSSY_NETWORK });
+    const { host } = await openRoom(sim, 1);
+    host.leader.startMetronome();
+    await sim.run(6000);
+
+    const late = sim.createPeer('late', { offsetMs: 5_551_212 });
+    await late.peer.joinRoom(ROOM_ID);
+    await sim.run(8000);
+
+    expect(late.peer.getState()).toBe('C_RUNNING');
+    expect(
+      worstPhaseErrorMs(sim, host.device, [late.device], sim.now() - 4000)
+    ).toBeLessThanOrEqual(PHASE_TOLERANCE_MS);
+  });
+
+  it('keeps drifting peers in phase through a long rehearsal', async () => {
+    const sim = new RoomSimulation({ seed: 29, network: LOSSY_NETWORK });
+    const host = sim.createLeader('host', { offsetMs: 15_000, driftPpm: -40 });
+    await host.leader.createRoom(120, ROOM_ID);
+    const fast = sim.createPeer('fast', { offsetMs: 8_100.3, driftPpm: 90 });
+    const slow = sim.createPeer('slow', { offsetMs: 64_002.7, driftPpm: -120 });
+    await fast.peer.joinRoom(ROOM_ID);
+    await slow.peer.joinRoom(ROOM_ID);
+    await sim.run(5000);
+
+    host.leader.startMetronome();
+    await sim.run(180_000);
+
+    expect(host.device.beatsBetween(sim.now() - 60_000, sim.now()).length).toBeGreaterThan(100);
+    // Skew is measured against the host's own drifting clock
+    expect(Math.abs(fast.peer.getClockStats().skewPpm - 130)).toBeLessThan(15);
+    expect(Math.abs(slow.peer.getClockStats().skewPpm + 80)).toBeLessThan(15);
+    expect(
+      worstPhaseErrorMs(sim, host.device, [fast.device, slow.device], sim.now() - 60_000)
+    ).toBeLessThanOrEqual(PHASE_TOLERANCE_MS);
+  });
+
+  it('reports sync quality of every peer to the host', async () => {
+    const sim = new RoomSimulation({ seed: 37, network: LOSSY_NETWORK });
+    const { host } = await openRoom(sim);
+    await sim.run(5000);
+
+    const stats = host.leader.getPeerSyncStats();
+    expect(stats.map(({ peerId }) => peerId)).toEqual(['peer-0', 'peer-1', 'peer-2']);
+    for (const peer of stats) {
+      expect(peer.clock?.stable).toBe(true);
+      expect(peer.clock?.rtt).toBeGreaterThanOrEqual(80);
+      expect(peer.clock?.jitterMs).toBeGreaterThan(0);
+      expect(peer.clock?.confidenceMs).toBeLessThan(PHASE_TOLERANCE_MS);
+      expect(peer.phaseErrorMs).toBeLessThan(PHASE_TOLERANCE_MS);
+      expect(peer.lastSeenAgeMs).toBeLessThan(3000);
+    }
+  });
+
+  it("receives each peer's own view of its sync", async () => {
+    const sim = new RoomSimulation({ seed: 41, network: LOSSY_NETWORK });
+    const { host, peers } = await openRoom(sim);
+    host.leader.startMetronome();
+    await sim.run(12_000);
+
+    for (const peer of host.leader.getPeerSyncStats()) {
+      expect(peer.report?.stable).toBe(true);
+      expect(peer.report?.confidenceMs).toBeLessThan(PHASE_TOLERANCE_MS);
+    }
+    // The host's phase estimate stays within tolerance while the peers stay stable
+    for (let i = 0; i < 10; i++) {
+      await sim.run(1000);
+      for (const peer of host.leader.getPeerSyncStats()) {
+        expect(peer.clock?.stable).toBe(true);
+        expect(peer.phaseErrorMs).toBeLessThanOrEqual(PHASE_TOLERANCE_MS);
+      }
+    }
+    const diagnostics = peers[0].peer.getSyncDiagnostics();
+    expect(diagnostics.clock.stable).toBe(true);
+    expect(diagnostics.appliedOffsetMs).not.toBeNull();
+  });
+
+  it('keeps peers in phase with leader-computed offsets', async () => {
+    const sim = new RoomSimulation({ seed: 31, network: LOSSY_NETWORK, clockSyncMode: 'leader' });
+    const { host, peers } = await openRoom(sim);
+
+    host.leader.startMetronome();
+    await sim.run(10_000);
+
+    expect(peers.every(({ peer }) => peer.getState() === 'C_RUNNING')).toBe(true);
+    expect(
+      worstPhaseErrorMs(
+        sim,
+        host.device,
+        peers.map(({ device }) => device),
+        sim.now() - 5000
+      )
+    ).toBeLessThanOrEqual(PHASE_TOLERANCE_MS);
+  });
+
+  it('pings the whole room with one stream and leaves offsets to the peers', async () => {
+    const countSyncMessages = async (clockSyncMode: 'leader' | 'peer') => {
+      const sim = new RoomSimulation({ network: { latencyMs: 25 }, clockSyncMode });
+      await openRoom(sim);
+      const send = vi.spyOn(sim.network, 'send');
+      await sim.run(20_000);
+      const types = send.mock.calls.map(([, message]) => message.type);
+      const count = (type: string) => types.filter((sent) => sent === type).length;
+      return {
+        pings: count('time_ping'),
+        pongs: count('time_pong'),
+        offsets: count('clock_offset')
+      };
+    };
+
+    // Settled peers are pinged every 2 s, whatever the room size
+    const peerSide = await countSyncMessages('peer');
+    expect(peerSide.pings).toBeLessThanOrEqual(11);
+    expect(peerSide.pongs).toBeGreaterThan(0);
+    expect(peerSide.offsets).toBe(0);
+
+    const leaderSide = await countSyncMessages('leader');
+    expect(leaderSide.pings).toBeLessThanOrEqual(11);
+    expect(leaderSide.offsets).toBe(leaderSide.pongs);
+  });
+
+  it('replays identically for the same seed', async () => {
+    const playOnce = async () => {
+      const sim = new RoomSimulation({ seed: 23, network: LOSSY_NETWORK });
+      const { host, peers } = await openRoom(sim, 2);
+      host.leader.startMetronome();
+      await sim.run(3000);
+      return peers.map(({ device }) => device.beats);
+    };
+
+    expect(await playOnce()).toEqual(await playOnce());
+  });
+});
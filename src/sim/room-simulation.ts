@@ -0,0 +1,146 @@
+/**
+ * Headless room simulation
+ * Runs a real LeaderStateMachine and PeerStateMachines on a virtual clock over an
+ * in-memory network. Every device has its own clock (offset and drift) and a real
+ * metronome on headless audio; the beats each metronome plays are recorded in
+ * simulation time so phase errors between devices can be measured.
+ */
+
+import { LeaderStateMachine } from '../state/leader-machine.js';
+import { PeerStateMachine } from '../state/peer-machine.js';
+import { Metronome } from '../audio/metronome.js';
+import { TransportRuntime, createTransportRuntime } from '../realtime/runtime.js';
+import { InMemoryNetwork, InMemorySignaling, NetworkConditions } from '../signaling/memory.js';
+import { DeviceClockOptions, DeviceTimebase, VirtualClock } from './virtual-clock.js';
+import { HeadlessAudioContextManager } from './headless-audio.js';
+import { createSeededRandom } from './random.js';
+import { ClockSyncMode } from '../sync/clock.js';
+
+export interface SimulationOptions {
+  seed?: number;
+  network?: Partial<NetworkConditions>;
+  clockSyncMode?: ClockSyncMode;
+}
+
+export interface SimulatedBeat {
+  beatIndex: number;
+  atMs: number; // Simulation time the beat played
+  isCountIn: boolean;
+}
+
+export class SimulatedDevice {
+  readonly beats: SimulatedBeat[] = [];
+  readonly metronome: Metronome;
+  readonly runtime: TransportRuntime;
+  private signalings: InMemorySignaling[] = [];
+
+  constructor(
+    readonly id: string,
+    readonly timebase: DeviceTimebase,
+    network: InMemoryNetwork,
+    clockSyncMode?: ClockSyncMode
+  ) {
+    this.metronome = new Metronome(timebase, new HeadlessAudioContextManager(timebase));
+    this.metronome.on('beatPlayed', ({ beatIndex, timeMs, isCountIn }) => {
+      this.beats.push({ beatIndex, atMs: timebase.toSimMs(timeMs), isCountIn });
+    });
+    this.runtime = createTransportRuntime({
+      mode: 'pubsub',
+      timebase,
+      clockSyncMode,
+      createSignaling: () => {
+        const signaling = new InMemorySignaling(network);
+        this.signalings.push(signaling);
+        return signaling;
+      }
+    });
+  }
+
+  /**
+   * Beats played within [fromMs, toMs) of simulation time
+   */
+  beatsBetween(fromMs: number, toMs: number): SimulatedBeat[] {
+    return this.beats.filter((beat) => beat.atMs >= fromMs && beat.atMs < toMs);
+  }
+
+  /**
+   * Vanish without saying goodbye (tab closed, page refreshed, battery died)
+   */
+  crash(): void {
+    this.timebase.dispose();
+    this.metronome.stop();
+    for (const signaling of this.signalings) {
+      void signaling.disconnect();
+    }
+    this.signalings = [];
+  }
+}
+
+export class RoomSimulation {
+  readonly clock = new VirtualClock();
+  readonly network: InMemoryNetwork;
+  private readonly clockSyncMode?: ClockSyncMode;
+
+  constructor(options: SimulationOptions = {}) {
+    this.clockSyncMode = options.clockSyncMode;
+    this.network = new InMemoryNetwork(
+      this.clock.createTimebase(),
+      options.network,
+      createSeededRandom(options.seed ?? 1)
+    );
+  }
+
+  createDevice(id: string, clock: DeviceClockOptions = {}): SimulatedDevice {
+    return new SimulatedDevice(
+      id,
+      this.clock.createTimebase(clock),
+      this.network,
+      this.clockSyncMode
+    );
+  }
+
+  createLeader(id: string, clock: DeviceClockOptions = {}) {
+    const device = this.createDevice(id, clock);
+    return { device, leader: new LeaderStateMachine(id, device.runtime, device.metronome) };
+  }
+
+  createPeer(id: string, clock: DeviceClockOptions = {}) {
+    const device = this.createDevice(id, clock);
+    return { device, peer: new PeerStateMachine(id, device.runtime, device.metronome) };
+  }
+
+  /**
+   * Simulation time in milliseconds
+   */
+  now(): number {
+    return this.clock.now();
+  }
+
+  async run(ms: number): Promise<void> {
+    await this.clock.advance(ms);
+  }
+
+  /**
+   * Largest phase error (ms) of a device against a reference over a window of
+   * simulation time. Every reference beat must have a same-index beat on the
+   * other device; a missing one counts as an infinite error.
+   */
+  phaseErrorMs(
+    reference: SimulatedDevice,
+    other: SimulatedDevice,
+    fromMs: number,
+    toMs: number = this.now()
+  ): number {
+    let worstMs = 0;
+    for (const beat of reference.beatsBetween(fromMs, toMs)) {
+      let nearestMs = Infinity;
+      for (const candidate of other.beats) {
+        if (candidate.beatIndex === beat.beatIndex) {
+          nearestMs = Math.min(nearestMs, Math.abs(candidate.atMs - beat.atMs));
+        }
+      }
+      worstMs = Math.max(worstMs, nearestMs);
+    }
+    return worstMs;
+  }
+}
@@ -0,0 +1,182 @@
+/**
+ * Virtual clock for deterministic simulations
+ * Timers fire in due-time order (ties in scheduling order) only when the
+ * simulation advances, and pending promise work settles after every timer.
+ */
+
+import { Timebase } from '../sync/timebase.js';
+
+// Promise chains in the state machines are a few awaits deep; settle them all per timer.
+const MICROTASK_FLUSH_ROUNDS = 50;
+
+interface VirtualTimer {
+  dueMs: number;
+  seq: number;
+  intervalMs: number | null;
+  callback: () => void;
+}
+
+export interface DeviceClockOptions {
+  offsetMs?: number; // Device time at simulation time 0 (performance.now() origins differ)
+  driftPpm?: number; // Crystal drift: device clock runs this many ppm fast
+}
+
+export class VirtualClock {
+  private nowMs = 0;
+  private nextId = 1;
+  private nextSeq = 0;
+  private timers: Map<number, VirtualTimer> = new Map();
+
+  /**
+   * Simulation (true) time in milliseconds
+   */
+  now(): number {
+    return this.nowMs;
+  }
+
+  schedule(callback: () => void, delayMs: number, intervalMs: number | null = null): number {
+    const id = this.nextId++;
+    this.timers.set(id, {
+      dueMs: this.nowMs + Math.max(0, delayMs),
+      seq: this.nextSeq++,
+      // A zero interval would never let time advance
+      intervalMs: intervalMs === null ? null : Math.max(1, intervalMs),
+      callback
+    });
+    return id;
+  }
+
+  cancel(id: number): void {
+    this.timers.delete(id);
+  }
+
+  getPendingTimerCount(): number {
+    return this.timers.size;
+  }
+
+  /**
+   * Run every timer due within the next ms milliseconds
+   */
+  async advance(ms: number): Promise<void> {
+    const endMs = this.nowMs + ms;
+    await flushMicrotasks();
+
+    for (;;) {
+      const next = this.nextDueTimer(endMs);
+      if (!next) {
+        break;
+      }
+
+      const [id, timer] = next;
+      this.nowMs = timer.dueMs;
+      if (timer.intervalMs === null) {
+        this.timers.delete(id);
+      } else {
+        timer.dueMs += timer.intervalMs;
+        timer.seq = this.nextSeq++;
+      }
+
+      timer.callback();
+      await flushMicrotasks();
+    }
+
+    this.nowMs = endMs;
+  }
+
+  /**
+   * Timebase of a device whose clock is offset from (and may drift against) true time
+   */
+  createTimebase(options: DeviceClockOptions = {}): DeviceTimebase {
+    return new DeviceTimebase(this, options.offsetMs ?? 0, options.driftPpm ?? 0);
+  }
+
+  private nextDueTimer(endMs: number): [number, VirtualTimer] | null {
+    let best: [number, VirtualTimer] | null = null;
+    for (const entry of this.timers) {
+      const timer = entry[1];
+      if (timer.dueMs > endMs) {
+        continue;
+      }
+      if (
+        !best ||
+        timer.dueMs < best[1].dueMs ||
+        (timer.dueMs === best[1].dueMs && timer.seq < best[1].seq)
+      ) {
+        best = entry;
+      }
+    }
+    return best;
+  }
+}
+
+/**
+ * One device's view of the virtual clock. Disposing it cancels every timer it
+ * started, like closing the tab.
+ */
+export class DeviceTimebase implements Timebase {
+  private readonly rate: number;
+  private ownTimers: Set<number> = new Set();
+
+  constructor(
+    private readonly clock: VirtualClock,
+    private readonly offsetMs: number,
+    driftPpm: number
+  ) {
+    this.rate = 1 + driftPpm / 1e6;
+  }
+
+  now(): number {
+    return this.toDeviceMs(this.clock.now());
+  }
+
+  /**
+   * Convert simulation time to this device's clock
+   */
+  toDeviceMs(simMs: number): number {
+    return this.offsetMs + simMs * this.rate;
+  }
+
+  /**
+   * Convert this device's clock to simulation time
+   */
+  toSimMs(deviceMs: number): number {
+    return (deviceMs - this.offsetMs) / this.rate;
+  }
+
+  setTimeout(callback: () => void, delayMs: number): number {
+    const id = this.clock.schedule(() => {
+      this.ownTimers.delete(id);
+      callback();
+    }, delayMs / this.rate);
+    this.ownTimers.add(id);
+    return id;
+  }
+
+  clearTimeout(id: number): void {
+    this.ownTimers.delete(id);
+    this.clock.cancel(id);
+  }
+
+  setInterval(callback: () => void, intervalMs: number): number {
+    const id = this.clock.schedule(callback, intervalMs / this.rate, intervalMs / this.rate);
+    this.ownTimers.add(id);
+    return id;
+  }
+
+  clearInterval(id: number): void {
+    this.clearTimeout(id);
+  }
+
+  dispose(): void {
+    for (const id of this.ownTimers) {
+      this.clock.cancel(id);
+    }
+    this.ownTimers.clear();
+  }
+}
+
+async function flushMicrotasks(): Promise<void> {
+  for (let i = 0; i < MICROTASK_FLUSH_ROUNDS; i++) {
+    await Promise.resolve();
+  }
+}
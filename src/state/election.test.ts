@@ -0,0 +1,270 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { LeaderElection, electLeader, shouldYieldTo } from './election.js';
+import { LeaderStateMachine } from './leader-machine.js';
+import { PeerStateMachine } from './peer-machine.js';
+import { RoomSimulation, SimulatedDevice } from '../sim/room-simulation.js';
+import { MockSignaling } from '../signaling/mock.js';
+import { createTransportRuntime } from '../realtime/runtime.js';
+import { LeaderHandoffPayload } from '../types.js';
+
+const OPTIONS = { leaderLostAfterMs: 5000, peerSeenTtlMs: 6000 };
+
+describe('electLeader', () => {
+  it('picks the lowest id regardless of order', () => {
+    expect(electLeader(['c', 'a', 'b'])).toBe('a');
+    expect(electLeader(['b', 'c', 'a'])).toBe('a');
+  });
+
+  it('returns null without candidates', () => {
+    expect(electLeader([])).toBeNull();
+  });
+});
+
+describe('shouldYieldTo', () => {
+  it('lets exactly one of two leaders step down', () => {
+    expect(shouldYieldTo('b', 'a')).toBe(true);
+    expect(shouldYieldTo('a', 'b')).toBe(false);
+  });
+});
+
+describe('LeaderElection', () => {
+  it('is not lost before the leader has been heard', () => {
+    const election = new LeaderElection('a', OPTIONS);
+    expect(election.isLeaderLost(60_000)).toBe(false);
+  });
+
+  it('is lost once the leader is silent for too long', () => {
+    const election = new LeaderElection('a', OPTIONS);
+    election.noteLeaderSeen(1000);
+    expect(election.isLeaderLost(6000)).toBe(false);
+    expect(election.isLeaderLost(6001)).toBe(true);
+  });
+
+  it('drops peers that were not seen within the TTL', () => {
+    const election = new LeaderElection('c', OPTIONS);
+    election.notePeerSeen('a', 0);
+    election.notePeerSeen('b', 5000);
+    expect(election.getCandidates(7000).sort()).toEqual(['b', 'c']);
+    expect(election.electWinner(7000)).toBe('b');
+  });
+
+  it('drops peers that left', () => {
+    const election = new LeaderElection('c', OPTIONS);
+    election.notePeerSeen('a', 0);
+    election.forgetPeer('a');
+    expect(election.getCandidates(0)).toEqual(['c']);
+  });
+
+  it('ignores its own join announcements', () => {
+    const election = new LeaderElection('a', OPTIONS);
+    election.notePeerSeen('a', 0);
+    expect(election.getCandidates(0)).toEqual(['a']);
+  });
+
+  it('agrees on one winner when peers share a view', () => {
+    const ids = ['p3', 'p1', 'p2'];
+    const winners = ids.map((id) => {
+      const election = new LeaderElection(id, OPTIONS);
+      ids.forEach((other) => election.notePeerSeen(other, 1000));
+      return election.electWinner(2000);
+    });
+    expect(new Set(winners)).toEqual(new Set(['p1']));
+  });
+
+  it('elects two winners when views diverge', () => {
+    const left = new LeaderElection('p1', OPTIONS);
+    const right = new LeaderElection('p2', OPTIONS);
+    expect(left.electWinner(0)).toBe('p1');
+    expect(right.electWinner(0)).toBe('p2');
+  });
+
+  it('forgets everything on reset', () => {
+    const election = new LeaderElection('b', OPTIONS);
+    election.noteLeaderSeen(0);
+    election.notePeerSeen('a', 0);
+    election.reset();
+    expect(election.isLeaderLost(60_000)).toBe(false);
+    expect(election.getCandidates(0)).toEqual(['b']);
+  });
+});
+
+// Elections run in pub/sub rooms only, which is what the simulation uses.
+describe('election in a simulated room', () => {
+  interface ElectingPeer {
+    device: SimulatedDevice;
+    peer: PeerStateMachine;
+    elected: LeaderHandoffPayload[];
+  }
+
+  async function openLeader(sim: RoomSimulation, id: string, roomId: string) {
+    const entry = sim.createLeader(id);
+    await entry.leader.createRoom(120, roomId);
+    return entry;
+  }
+
+  async function joinPeer(sim: RoomSimulation, id: string, roomId: string) {
+    const { device, peer } = sim.createPeer(id);
+    const elected: LeaderHandoffPayload[] = [];
+    peer.onLeaderHandoff((handoff) => elected.push(handoff));
+    await peer.joinRoom(roomId);
+    return { device, peer, elected };
+  }
+
+  // What the app does with the winner: a leader on the same device and metronome
+  async function takeOver(roomId: string, { device, peer, elected }: ElectingPeer) {
+    const successor = new LeaderStateMachine(peer.getId(), device.runtime, device.metronome);
+    await peer.releaseForHandoff();
+    await successor.adoptRoom(roomId, elected[0], 0);
+    return successor;
+  }
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('elects the lowest surviving peer when the leader goes silent', async () => {
+    const sim = new RoomSimulation({ network: { latencyMs: 25 } });
+    const host = await openLeader(sim, 'm-leader', 'ROOM01');
+    const first = await joinPeer(sim, 'b-peer', 'ROOM01');
+    const second = await joinPeer(sim, 'c-peer', 'ROOM01');
+    await sim.run(2500);
+    expect(first.peer.getState()).toBe('C_SYNCING');
+    expect(second.peer.getState()).toBe('C_SYNCING');
+
+    host.device.crash();
+    await sim.run(7000);
+
+    expect(first.elected).toHaveLength(1);
+    expect(first.elected[0].bpm).toBe(120);
+    expect(second.elected).toHaveLength(0);
+    expect(second.peer.getState()).toBe('C_ELECTING');
+  });
+
+  it('keeps the leader while it is still heard', async () => {
+    const sim = new RoomSimulation({ network: { latencyMs: 25 } });
+    await openLeader(sim, 'm-leader', 'ROOM02');
+    const { peer, elected } = await joinPeer(sim, 'b-peer', 'ROOM02');
+
+    await sim.run(10_000);
+
+    expect(elected).toHaveLength(0);
+    expect(peer.getState()).toBe('C_SYNCING');
+  });
+
+  it('does not elect a peer that said goodbye', async () => {
+    const sim = new RoomSimulation({ network: { latencyMs: 25 } });
+    const host = await openLeader(sim, 'm-leader', 'ROOM03');
+    const leaving = await joinPeer(sim, 'b-peer', 'ROOM03');
+    const staying = await joinPeer(sim, 'c-peer', 'ROOM03');
+    // Just after b-peer's join announcement at 4 s
+    await sim.run(4001);
+
+    await leaving.peer.leaveRoom();
+    host.device.crash();
+    // The election runs while that announcement is still within the TTL
+    await sim.run(6000);
+
+    expect(staying.elected).toHaveLength(1);
+  });
+
+  it('resolves a split brain in favour of the lower leader id', async () => {
+    const sim = new RoomSimulation({ network: { latencyMs: 25 } });
+    const low = await openLeader(sim, 'a-leader', 'ROOM04');
+    const high = await openLeader(sim, 'z-leader', 'ROOM04');
+    const yielded: string[] = [];
+    low.leader.onYield((roomId) => yielded.push(`low:${roomId}`));
+    high.leader.onYield((roomId) => yielded.push(`high:${roomId}`));
+
+    await sim.run(2500);
+
+    expect(yielded).toEqual(['high:ROOM04']);
+    expect(high.leader.getState()).toBe('L_IDLE');
+    expect(low.leader.getState()).toBe('L_ROOM_OPEN');
+  });
+
+  it('ends with one leader after partitioned peers both elect themselves', async () => {
+    const sim = new RoomSimulation({ network: { latencyMs: 25 } });
+    const host = await openLeader(sim, 'm-leader', 'ROOM05');
+    sim.network.setLinkCut('b-peer', 'c-peer', true);
+    const left = await joinPeer(sim, 'b-peer', 'ROOM05');
+    const right = await joinPeer(sim, 'c-peer', 'ROOM05');
+    await sim.run(2500);
+
+    host.device.crash();
+    await sim.run(7000);
+    expect(left.elected).toHaveLength(1);
+    expect(right.elected).toHaveLength(1);
+
+    // Both winners take over; the partition heals and beacons meet.
+    sim.network.setLinkCut('b-peer', 'c-peer', false);
+    const yielded: string[] = [];
+    const leftLeader = await takeOver('ROOM05', left);
+    const rightLeader = await takeOver('ROOM05', right);
+    leftLeader.onYield(() => yielded.push('b-peer'));
+    rightLeader.onYield(() => yielded.push('c-peer'));
+
+    await sim.run(2500);
+
+    expect(yielded).toEqual(['c-peer']);
+    expect(leftLeader.getState()).toBe('L_ROOM_OPEN');
+    expect(rightLeader.getState()).toBe('L_IDLE');
+  });
+});
+
+// The simulation stands in for the transport above; this checks the same beacons over BroadcastChannel.
+describe('election over mock signaling', () => {
+  const realSetTimeout = globalThis.setTimeout;
+
+  // BroadcastChannel delivers on the real event loop, so let it run between fake ticks.
+  async function advance(ms: number): Promise<void> {
+    for (let elapsed = 0; elapsed < ms; elapsed += 250) {
+      await vi.advanceTimersByTimeAsync(250);
+      await new Promise((resolve) => realSetTimeout(resolve, 5));
+    }
+  }
+
+  function openLeader(id: string): LeaderStateMachine {
+    const signaling = new MockSignaling();
+    return new LeaderStateMachine(
+      id,
+      createTransportRuntime({ mode: 'pubsub', createSignaling: () => signaling })
+    );
+  }
+
+  beforeEach(() => {
+    vi.stubGlobal('window', globalThis);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.useFakeTimers({
+      toFake: ['setTimeout', 'clearTimeout', 'setInterval', 'clearInterval', 'performance']
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  it('resolves a split brain in favour of the lower leader id', async () => {
+    const low = openLeader('a-leader');
+    const high = openLeader('z-leader');
+    await low.createRoom(120, 'MOCK01');
+    await high.createRoom(120, 'MOCK01');
+    const yielded: string[] = [];
+    low.onYield(() => yielded.push('low'));
+    high.onYield(() => yielded.push('high'));
+
+    await advance(2500);
+
+    expect(yielded).toEqual(['high']);
+    expect(high.getState()).toBe('L_IDLE');
+    expect(low.getState()).toBe('L_ROOM_OPEN');
+    await low.closeRoom();
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * Leader election
+ * Peers that stop hearing from the leader pick a successor deterministically:
+ * the lowest peer ID among peers seen recently (including themselves).
+ * Peers with the same view agree without exchanging votes; diverging views can
+ * briefly produce two leaders, which is resolved by the lower leader ID winning.
+ * Only pub/sub rooms hold elections: a WebRTC peer is wired to the old leader alone
+ * and could not reach a successor, so it keeps its grid until the host returns.
+ */
+
+export interface ElectionOptions {
+  leaderLostAfterMs: number; // Silence from the leader before an election starts
+  peerSeenTtlMs: number; // Peers not heard from within this window are not candidates
+}
+
+export const DEFAULT_ELECTION_OPTIONS: ElectionOptions = {
+  leaderLostAfterMs: 5000,
+  peerSeenTtlMs: 6000
+};
+
+/**
+ * Deterministic winner among candidate IDs (lowest ID), or null if there are none
+ */
+export function electLeader(candidateIds: string[]): string | null {
+  let winner: string | null = null;
+  for (const id of candidateIds) {
+    if (winner === null || id < winner) {
+      winner = id;
+    }
+  }
+  return winner;
+}
+
+/**
+ * Whether a leader should step down after hearing another leader in the same room
+ */
+export function shouldYieldTo(myLeaderId: string, rivalLeaderId: string): boolean {
+  return rivalLeaderId < myLeaderId;
+}
+
+export class LeaderElection {
+  private lastLeaderSeenMs: number | null = null;
+  private peersSeenAtMs: Map<string, number> = new Map();
+
+  constructor(
+    private readonly myId: string,
+    private readonly options: ElectionOptions = DEFAULT_ELECTION_OPTIONS
+  ) {}
+
+  /**
+   * Record any message from the current leader
+   */
+  noteLeaderSeen(nowMs: number): void {
+    this.lastLeaderSeenMs = nowMs;
+  }
+
+  /**
+   * Record a join announcement from another peer in the room
+   */
+  notePeerSeen(peerId: string, nowMs: number): void {
+    if (peerId !== this.myId) {
+      this.peersSeenAtMs.set(peerId, nowMs);
+    }
+  }
+
+  /**
+   * Forget a peer (it became leader or left)
+   */
+  forgetPeer(peerId: string): void {
+    this.peersSeenAtMs.delete(peerId);
+  }
+
+  /**
+   * True once a leader was heard and has then been silent for too long
+   */
+  isLeaderLost(nowMs: number): boolean {
+    return (
+      this.lastLeaderSeenMs !== null &&
+      nowMs - this.lastLeaderSeenMs > this.options.leaderLostAfterMs
+    );
+  }
+
+  /**
+   * Candidates for leadership: this peer plus peers seen within the TTL
+   */
+  getCandidates(nowMs: number): string[] {
+    const candidates = [this.myId];
+    for (const [peerId, seenAtMs] of this.peersSeenAtMs) {
+      if (nowMs - seenAtMs <= this.options.peerSeenTtlMs) {
+        candidates.push(peerId);
+      }
+    }
+    return candidates;
+  }
+
+  /**
+   * Winner of an election held now
+   */
+  electWinner(nowMs: number): string {
+    return electLeader(this.getCandidates(nowMs)) ?? this.myId;
+  }
+
+  reset(): void {
+    this.lastLeaderSeenMs = null;
+    this.peersSeenAtMs.clear();
+  }
+}
@@ -11,31 +11,124 @@ import { TransportRuntime, createDefaultTransportRuntime } from '../realtime/run
 import {
   generateRoomId,
   createMessage,
+  ControlRequestPayload,
+  ControlResultPayload,
+  LeaderHandoffPayload,
+  Meter,
+  RoomState,
   StartAnnouncePayload,
+  SyncReportPayload,
   ParamUpdatePayload,
-  TimePingPayload,
+  TempoRamp,
   TimePongPayload
 } from '../types.js';
-import { ClockSync } from '../sync/clock.js';
+import { ClockStats } from '../sync/clock.js';
+import { LeaderSyncEngine } from '../sync/sync-engine.js';
+import { Timebase } from '../sync/timebase.js';
+import { shouldYieldTo } from './election.js';
+import { DEFAULT_METER, metersEqual } from '../audio/meter.js';
+import { beatOffsetMs, beatsAtOffsetMs, rebaseRamp, tempoAtBeat } from '../audio/tempo-ramp.js';
 
-const PING_INTERVAL_MS = 1000; // Send time ping every 1 second
 const STALE_PEER_TTL_MS = 6000;
 const STALE_PEER_SWEEP_MS = 1000;
 const BPM_CHANGE_LEAD_MS = 300;
 const RUNNING_ANCHOR_REBROADCAST_MS = 4000;
+// First count-in click is this far out so the announcement reaches peers before it plays.
+const COUNT_IN_LEAD_MS = 300;
+const MAX_COUNT_IN_BARS = 4;
+const CONTROL_REQUEST_TTL_MS = 30000;
+const PEER_REQUEST_MIN_BPM = 40;
+const PEER_REQUEST_MAX_BPM = 240;
+const HANDOFF_ACK_TIMEOUT_MS = 3000;
+// Broadcast so a second leader in the same room (split brain after an election) notices us
+const LEADER_BEACON_MS = 2000;
 type ControlMessageType =
   | 'start_announce'
   | 'stop_announce'
   | 'param_update'
   | 'clock_offset'
-  | 'room_closed';
+  | 'room_closed'
+  | 'control_result'
+  | 'leader_handoff'
+  | 'leader_beacon';
 
 export interface LeaderPersistenceSnapshot {
   roomId: string;
   bpm: number;
+  meter: Meter;
   running: boolean;
   anchorLeaderMs?: number;
   beatIndexAtAnchor?: number;
+  ramp?: TempoRamp;
+  countInBeats?: number; // Count-in before the anchor, so a refresh during it keeps counting in
+}
+
+/**
+ * Host's view of one peer's clock sync
+ */
+export interface PeerSyncStats {
+  peerId: string;
+  clock: ClockStats | null; // Null until the first pong is accepted
+  lastSeenAgeMs: number;
+  report: SyncReportPayload | null; // The peer's own view, sent every few seconds
+  // Estimated click misalignment against the host: how far the peer's applied offset is from
+  // the leader's estimate, plus its last grid correction. Null until both sides have one.
+  phaseErrorMs: number | null;
+}
+
+/**
+ * Control request from a peer waiting for the host's decision
+ */
+export interface PendingControlRequest extends ControlRequestPayload {
+  peerId: string;
+  receivedAtMs: number;
+}
+
+// Request ids are chosen by each peer, so pending requests are keyed per peer.
+function controlRequestKey(peerId: string, requestId: string): string {
+  return `${peerId}:${requestId}`;
+}
+
+function isValidControlRequest(payload: unknown): payload is ControlRequestPayload {
+  if (!payload || typeof payload !== 'object') {
+    return false;
+  }
+
+  const request = payload as Record<string, unknown>;
+  if (typeof request.requestId !== 'string' || !request.requestId) {
+    return false;
+  }
+  if (request.action === 'start' || request.action === 'stop') {
+    return true;
+  }
+  return (
+    request.action === 'set_bpm' &&
+    typeof request.bpm === 'number' &&
+    Number.isFinite(request.bpm) &&
+    request.bpm >= PEER_REQUEST_MIN_BPM &&
+    request.bpm <= PEER_REQUEST_MAX_BPM
+  );
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function isValidSyncReport(payload: unknown): payload is SyncReportPayload {
+  if (!payload || typeof payload !== 'object') {
+    return false;
+  }
+
+  const report = payload as Record<string, unknown>;
+  return (
+    isFiniteNumber(report.offsetMs) &&
+    isFiniteNumber(report.rtt) &&
+    isFiniteNumber(report.confidenceMs) &&
+    typeof report.stable === 'boolean' &&
+    isFiniteNumber(report.phaseCorrections) &&
+    (report.lastPhaseCorrectionMs === undefined || isFiniteNumber(report.lastPhaseCorrectionMs)) &&
+    (report.outputLatencyMs === undefined || isFiniteNumber(report.outputLatencyMs))
+  );
 }
 
 export class LeaderStateMachine {
@@ -43,20 +136,52 @@ export class LeaderStateMachine {
   private roomState: RoomStateManager | null = null;
   private connectionManager: LeaderConnectionManagerLike | null = null;
   private metronome: Metronome;
+  private readonly timebase: Timebase;
   private myId: string;
-  private pingIntervals: Map<string, number> = new Map();
-  private pingSeq: Map<string, number> = new Map();
-  private clockSyncs: Map<string, ClockSync> = new Map();
+  private readonly syncEngine: LeaderSyncEngine;
+  private syncReports: Map<string, SyncReportPayload> = new Map();
   private staleSweepIntervalId: number | null = null;
   private runningAnchorRebroadcastIntervalId: number | null = null;
   private activeRunId = 0;
+  private countInBars = 0;
+  // Beat index of the current song's first downbeat on the running grid
+  private songStartBeatIndex = 0;
+  // First click of a scheduled start (count-in included) while it is still ahead
+  private scheduledFirstBeatLeaderMs: number | null = null;
+  private allowPeerControl = false;
+  private pendingControlRequests: Map<string, PendingControlRequest> = new Map();
+  private controlRequestTimeouts: Map<string, number> = new Map();
+  private onControlRequestCallback: ((request: PendingControlRequest) => void) | null = null;
+  private onControlResultCallback: ((result: ControlResultPayload) => void) | null = null;
+  private pendingHandoff: { successorId: string; resolve: () => void } | null = null;
+  private leaderBeaconIntervalId: number | null = null;
+  private onYieldCallback: ((roomId: string) => void) | null = null;
 
+  /**
+   * @param metronome - Pass the running metronome of a peer taking over leadership
+   *                    so playback continues without a gap
+   */
   constructor(
     myId: string,
-    private readonly transportRuntime: TransportRuntime = createDefaultTransportRuntime('pubsub')
+    private readonly transportRuntime: TransportRuntime = createDefaultTransportRuntime('pubsub'),
+    metronome: Metronome = new Metronome(transportRuntime.timebase)
   ) {
     this.myId = myId;
-    this.metronome = new Metronome();
+    this.metronome = metronome;
+    this.timebase = transportRuntime.timebase;
+    this.syncEngine = new LeaderSyncEngine(
+      (ping, peerId) => {
+        const message = { type: 'time_ping', payload: ping };
+        if (peerId) {
+          this.connectionManager?.sendTimeSync(peerId, message);
+        } else {
+          this.connectionManager?.broadcastTimeSync(message);
+        }
+      },
+      (peerId, offset) => this.sendControlToPeer(peerId, 'clock_offset', offset),
+      transportRuntime.clockSyncMode,
+      this.timebase
+    );
   }
 
   private sendControlToPeer(peerId: string, type: ControlMessageType, payload: unknown): void {
@@ -70,15 +195,139 @@ export class LeaderStateMachine {
   /**
    * Create room and open for peers
    */
-  async createRoom(bpm: number, preferredRoomId?: string): Promise<string> {
+  async createRoom(
+    bpm: number,
+    preferredRoomId?: string,
+    meter: Meter = DEFAULT_METER
+  ): Promise<string> {
     if (this.state !== 'L_IDLE') {
       throw new Error('Room already exists');
     }
 
     const roomId = preferredRoomId ?? generateRoomId();
-    this.roomState = new RoomStateManager(roomId, this.myId, bpm);
+    this.roomState = new RoomStateManager(roomId, this.myId, bpm, meter, this.timebase);
     this.activeRunId = 0;
 
+    await this.openConnection(roomId);
+
+    this.state = 'L_ROOM_OPEN';
+    console.log(`✅ Leader created room: ${roomId} at ${bpm} BPM`);
+
+    return roomId;
+  }
+
+  /**
+   * Take over a room handed off by its previous leader. The anchor is translated
+   * into this device's clock with the offset measured while it was a peer
+   * (peer time = old leader time + offsetMs), and a running metronome passed to
+   * the constructor keeps playing through the switch.
+   */
+  async adoptRoom(roomId: string, handoff: LeaderHandoffPayload, offsetMs: number): Promise<void> {
+    if (this.state !== 'L_IDLE') {
+      throw new Error('Room already exists');
+    }
+
+    this.roomState = new RoomStateManager(
+      roomId,
+      this.myId,
+      handoff.bpm,
+      handoff.meter,
+      this.timebase
+    );
+    this.roomState.setRamp(handoff.ramp);
+    this.roomState.setVersion(handoff.version);
+    this.activeRunId = handoff.runId;
+
+    await this.openConnection(roomId);
+    this.state = 'L_ROOM_OPEN';
+
+    if (handoff.running && handoff.anchorLeaderMs !== undefined) {
+      const anchorMs = handoff.anchorLeaderMs + offsetMs;
+      const beatIndexAtAnchor = handoff.beatIndexAtAnchor ?? 0;
+      this.roomState.setBeatAnchor(anchorMs, beatIndexAtAnchor, handoff.countInBeats);
+      this.roomState.setStatus('running');
+      this.state = 'L_RUNNING';
+
+      const countInMs = -beatOffsetMs(handoff.bpm, handoff.ramp, -(handoff.countInBeats ?? 0));
+      this.scheduledFirstBeatLeaderMs =
+        anchorMs - countInMs > this.timebase.now() ? anchorMs - countInMs : null;
+
+      this.metronome.setBeatGrid({
+        bpm: handoff.bpm,
+        anchorPerformanceMs: anchorMs,
+        beatIndexAtAnchor,
+        meter: handoff.meter,
+        ramp: handoff.ramp,
+        countInBeats: handoff.countInBeats
+      });
+      this.metronome.start(handoff.bpm);
+      this.startRunningAnchorRebroadcast();
+    } else {
+      this.metronome.stop();
+      this.metronome.setBPM(handoff.bpm);
+      this.metronome.setMeter(handoff.meter);
+    }
+
+    console.log(`✅ Took over room ${roomId} (run ${handoff.runId})`);
+  }
+
+  /**
+   * Hand the room to a connected peer. Resolves once the successor has accepted;
+   * this leader then goes idle without stopping the room for everyone else.
+   */
+  async handOffTo(successorId: string): Promise<void> {
+    if (this.state !== 'L_ROOM_OPEN' && this.state !== 'L_RUNNING') {
+      throw new Error('Room not open');
+    }
+    if (!this.roomState || !this.connectionManager) {
+      throw new Error('Room state not initialized');
+    }
+    if (this.pendingHandoff) {
+      throw new Error('Handoff already in progress');
+    }
+    if (!this.roomState.getConnectedPeers().includes(successorId)) {
+      throw new Error('Successor is not connected');
+    }
+
+    const state = this.roomState.getState();
+    const running = this.state === 'L_RUNNING' && state.startAtLeaderMs !== undefined;
+    const handoff: LeaderHandoffPayload = {
+      bpm: state.bpm,
+      meter: state.meter,
+      version: state.version,
+      runId: this.activeRunId,
+      running,
+      anchorLeaderMs: running ? state.startAtLeaderMs : undefined,
+      beatIndexAtAnchor: running ? (state.beatIndexAtAnchor ?? 0) : undefined,
+      ramp: running ? state.ramp : undefined,
+      countInBeats: running ? state.countInBeats : undefined
+    };
+
+    await new Promise<void>((resolve, reject) => {
+      const timeoutId = this.timebase.setTimeout(() => {
+        this.pendingHandoff = null;
+        reject(new Error('Successor did not take over'));
+      }, HANDOFF_ACK_TIMEOUT_MS);
+
+      this.pendingHandoff = {
+        successorId,
+        resolve: () => {
+          this.timebase.clearTimeout(timeoutId);
+          this.pendingHandoff = null;
+          resolve();
+        }
+      };
+      this.sendControlToPeer(successorId, 'leader_handoff', handoff);
+    });
+
+    await this.shutDown(false);
+    console.log(`✅ Handed room off to ${successorId}`);
+  }
+
+  /**
+   * Open signaling and the peer connection manager for a room
+   */
+  private async openConnection(roomId: string): Promise<void> {
     const signaling = this.transportRuntime.createSignaling();
     await signaling.connect(roomId, this.myId);
 
@@ -88,8 +337,28 @@ export class LeaderStateMachine {
       signaling
     );
 
-    // Handle control messages from peers (if needed)
+    // Handle control messages from peers
     this.connectionManager.onControl((data) => {
+      if (data.type === 'control_request') {
+        this.handleControlRequest(data.peerId, data.payload);
+        return;
+      }
+      if (data.type === 'leader_beacon') {
+        this.handleRivalLeader(data.peerId);
+        return;
+      }
+      if (data.type === 'sync_report') {
+        if (this.roomState?.getState().peers[data.peerId] && isValidSyncReport(data.payload)) {
+          this.syncReports.set(data.peerId, data.payload);
+        }
+        return;
+      }
+      if (data.type === 'leader_handoff_ack') {
+        if (this.pendingHandoff && this.pendingHandoff.successorId === data.peerId) {
+          this.pendingHandoff.resolve();
+        }
+        return;
+      }
       console.log('📥 Control message from peer:', data);
     });
 
@@ -105,7 +374,7 @@ export class LeaderStateMachine {
       console.log(`✅ Peer connected: ${peerId}, starting time sync`);
       this.roomState?.addPeer(peerId);
       this.roomState?.markPeerConnected(peerId);
-      this.startTimeSyncWithPeer(peerId);
+      this.syncEngine.startSync(peerId);
       this.syncPeerState(peerId);
     });
 
@@ -117,82 +386,245 @@ export class LeaderStateMachine {
     });
 
     this.startStalePeerSweep();
+    this.startLeaderBeacon();
+    this.syncEngine.start();
+  }
 
-    this.state = 'L_ROOM_OPEN';
-    console.log(`✅ Leader created room: ${roomId} at ${bpm} BPM`);
+  private startLeaderBeacon(): void {
+    this.stopLeaderBeacon();
+    this.leaderBeaconIntervalId = this.timebase.setInterval(() => {
+      this.broadcastControl('leader_beacon', {});
+    }, LEADER_BEACON_MS);
+  }
 
-    return roomId;
+  private stopLeaderBeacon(): void {
+    if (this.leaderBeaconIntervalId !== null) {
+      this.timebase.clearInterval(this.leaderBeaconIntervalId);
+      this.leaderBeaconIntervalId = null;
+    }
   }
 
   /**
-   * Start time synchronization with a peer
+   * Another leader is serving this room. The lower leader ID keeps the room;
+   * the other steps down without closing it.
    */
-  private startTimeSyncWithPeer(peerId: string): void {
-    if (!this.connectionManager) {
+  private handleRivalLeader(rivalLeaderId: string): void {
+    const roomId = this.roomState?.getState().roomId;
+    if (!roomId || this.state === 'L_CLOSING' || !shouldYieldTo(this.myId, rivalLeaderId)) {
       return;
     }
 
-    // Initialize clock sync for this peer
-    this.clockSyncs.set(peerId, new ClockSync());
-    this.pingSeq.set(peerId, 0);
+    console.warn(`⚠️ Leader ${rivalLeaderId} also serves this room; stepping down`);
+    void this.shutDown(false).then(() => {
+      this.onYieldCallback?.(roomId);
+    });
+  }
+  /**
+   * Handle a peer asking to start/stop playback or change tempo
+   */
+  private handleControlRequest(peerId: string, payload: unknown): void {
+    if (!this.roomState?.getState().peers[peerId]) {
+      return;
+    }
+    if (!isValidControlRequest(payload)) {
+      console.warn(`⚠️ Ignoring malformed control request from ${peerId}`, payload);
+      return;
+    }
+    if (this.pendingControlRequests.has(controlRequestKey(peerId, payload.requestId))) {
+      return;
+    }
 
-    // Send first ping immediately, then continue periodically.
-    this.sendTimePingToPeer(peerId);
+    const request: PendingControlRequest = {
+      requestId: payload.requestId,
+      action: payload.action,
+      bpm: payload.action === 'set_bpm' ? payload.bpm : undefined,
+      peerId,
+      receivedAtMs: this.timebase.now()
+    };
 
-    const intervalId = window.setInterval(() => {
-      this.sendTimePingToPeer(peerId);
-    }, PING_INTERVAL_MS);
+    if (this.allowPeerControl) {
+      this.finishControlRequest(request, true);
+      return;
+    }
 
-    this.pingIntervals.set(peerId, intervalId);
+    const key = controlRequestKey(peerId, request.requestId);
+    this.pendingControlRequests.set(key, request);
+    this.controlRequestTimeouts.set(
+      key,
+      this.timebase.setTimeout(() => {
+        this.resolveControlRequest(peerId, request.requestId, false, 'expired');
+      }, CONTROL_REQUEST_TTL_MS)
+    );
+    this.onControlRequestCallback?.(request);
   }
 
   /**
-   * Send one time-sync ping to a peer.
+   * Approve or deny a pending peer control request
    */
-  private sendTimePingToPeer(peerId: string): void {
-    if (!this.connectionManager) {
+  resolveControlRequest(
+    peerId: string,
+    requestId: string,
+    approved: boolean,
+    reason: ControlResultPayload['reason'] = 'denied'
+  ): void {
+    const key = controlRequestKey(peerId, requestId);
+    const request = this.pendingControlRequests.get(key);
+    if (!request) {
       return;
     }
 
-    const seq = this.pingSeq.get(peerId) ?? 0;
-    this.pingSeq.set(peerId, seq + 1);
+    this.pendingControlRequests.delete(key);
+    const timeoutId = this.controlRequestTimeouts.get(key);
+    if (timeoutId !== undefined) {
+      this.timebase.clearTimeout(timeoutId);
+      this.controlRequestTimeouts.delete(key);
+    }
+
+    this.finishControlRequest(request, approved, reason);
+  }
+
+  private finishControlRequest(
+    request: PendingControlRequest,
+    approved: boolean,
+    reason: ControlResultPayload['reason'] = 'denied'
+  ): void {
+    if (approved) {
+      this.applyControlRequest(request);
+    }
 
-    const t1 = performance.now();
-    const ping: TimePingPayload = {
-      seq,
-      t1LeaderMs: t1
+    const result: ControlResultPayload = {
+      requestId: request.requestId,
+      peerId: request.peerId,
+      action: request.action,
+      bpm: request.bpm,
+      approved,
+      reason: approved ? undefined : reason
     };
+    this.broadcastControl('control_result', result);
+    this.onControlResultCallback?.(result);
+  }
 
-    this.connectionManager.sendTimeSync(peerId, {
-      type: 'time_ping',
-      payload: ping
-    });
+  private applyControlRequest(request: PendingControlRequest): void {
+    if (request.action === 'start') {
+      if (this.state === 'L_ROOM_OPEN') {
+        this.startMetronome();
+      }
+      return;
+    }
+
+    if (request.action === 'stop') {
+      this.stopMetronome();
+      return;
+    }
+
+    if (request.bpm !== undefined) {
+      this.setBPM(request.bpm);
+    }
+  }
+
+  private clearControlRequests(): void {
+    for (const timeoutId of this.controlRequestTimeouts.values()) {
+      this.timebase.clearTimeout(timeoutId);
+    }
+    this.controlRequestTimeouts.clear();
+    this.pendingControlRequests.clear();
+  }
+
+  /**
+   * Let every peer start/stop playback and change tempo without asking
+   */
+  setAllowPeerControl(allow: boolean): void {
+    this.allowPeerControl = allow;
+    if (allow) {
+      for (const request of [...this.pendingControlRequests.values()]) {
+        this.resolveControlRequest(request.peerId, request.requestId, true);
+      }
+    }
+  }
+
+  getAllowPeerControl(): boolean {
+    return this.allowPeerControl;
+  }
+
+  getPendingControlRequests(): PendingControlRequest[] {
+    return [...this.pendingControlRequests.values()];
+  }
+
+  /**
+   * Register callback for when this leader stepped down for a rival leader
+   * (the room lives on under the rival)
+   */
+  onYield(callback: (roomId: string) => void): void {
+    this.onYieldCallback = callback;
+  }
+
+  /**
+   * Register callback for every accepted pong, with that peer's updated clock stats
+   */
+  onPeerClockStats(callback: (peerId: string, stats: ClockStats) => void): void {
+    this.syncEngine.onStats(callback);
+  }
+
+  getPeerClockStats(peerId: string): ClockStats | null {
+    return this.syncEngine.getClockSync(peerId)?.getStats() ?? null;
+  }
+
+  /**
+   * Clock sync quality of every peer in the room, by peer ID
+   */
+  getPeerSyncStats(): PeerSyncStats[] {
+    if (!this.roomState) {
+      return [];
+    }
+
+    const nowMs = this.timebase.now();
+    return Object.values(this.roomState.getState().peers)
+      .map((peer) => {
+        const clock = this.getPeerClockStats(peer.peerId);
+        const report = this.syncReports.get(peer.peerId) ?? null;
+        return {
+          peerId: peer.peerId,
+          clock,
+          lastSeenAgeMs: Math.max(0, nowMs - peer.lastSeenMs),
+          report,
+          phaseErrorMs:
+            clock && report
+              ? Math.abs(report.offsetMs - clock.offsetMs) +
+                Math.abs(report.lastPhaseCorrectionMs ?? 0)
+              : null
+        };
+      })
+      .sort((a, b) => a.peerId.localeCompare(b.peerId));
+  }
+
+  /**
+   * Register callback for control requests that need the host's decision
+   */
+  onControlRequest(callback: (request: PendingControlRequest) => void): void {
+    this.onControlRequestCallback = callback;
+  }
+
+  /**
+   * Register callback for every answered control request (applied or not)
+   */
+  onControlResult(callback: (result: ControlResultPayload) => void): void {
+    this.onControlResultCallback = callback;
   }
 
   /**
    * Handle time pong from peer
    */
   private handleTimePong(peerId: string, pong: TimePongPayload): void {
-    const clockSync = this.clockSyncs.get(peerId);
-    if (!clockSync || !this.connectionManager) {
+    const stats = this.syncEngine.handlePong(peerId, pong);
+    if (!stats) {
       return;
     }
 
-    const t4 = performance.now();
-
-    // Calculate offset
-    const stats = clockSync.processPong(pong.t1LeaderMs, pong.t2PeerMs, pong.t3PeerMs, t4);
-
     this.roomState?.markPeerConnected(peerId);
 
-    // Send offset to peer via control channel
-    this.sendControlToPeer(peerId, 'clock_offset', {
-      offsetMs: stats.offsetMs,
-      rtt: stats.rtt
-    });
-
     console.log(
-      `⏱️ Peer ${peerId} offset: ${stats.offsetMs.toFixed(2)}ms, RTT: ${stats.rtt.toFixed(2)}ms`
+      `⏱️ Peer ${peerId} offset: ${stats.offsetMs.toFixed(2)}ms ±${stats.confidenceMs.toFixed(2)}ms, ` +
+        `skew: ${stats.skewPpm.toFixed(1)}ppm, RTT: ${stats.rtt.toFixed(2)}ms`
     );
   }
 
@@ -200,21 +632,16 @@ export class LeaderStateMachine {
    * Stop time synchronization with a peer
    */
   private stopTimeSyncWithPeer(peerId: string): void {
-    const intervalId = this.pingIntervals.get(peerId);
-    if (intervalId) {
-      clearInterval(intervalId);
-      this.pingIntervals.delete(peerId);
-    }
-    this.pingSeq.delete(peerId);
-    this.clockSyncs.delete(peerId);
+    this.syncEngine.stopSync(peerId);
+    this.syncReports.delete(peerId);
   }
 
   private startStalePeerSweep(): void {
     if (this.staleSweepIntervalId !== null) {
-      clearInterval(this.staleSweepIntervalId);
+      this.timebase.clearInterval(this.staleSweepIntervalId);
     }
 
-    this.staleSweepIntervalId = window.setInterval(() => {
+    this.staleSweepIntervalId = this.timebase.setInterval(() => {
       if (!this.roomState) {
         return;
       }
@@ -230,7 +657,7 @@ export class LeaderStateMachine {
 
   private stopStalePeerSweep(): void {
     if (this.staleSweepIntervalId !== null) {
-      clearInterval(this.staleSweepIntervalId);
+      this.timebase.clearInterval(this.staleSweepIntervalId);
       this.staleSweepIntervalId = null;
     }
   }
@@ -250,21 +677,24 @@ export class LeaderStateMachine {
       version: state.version,
       runId: this.activeRunId,
       anchorLeaderMs: state.startAtLeaderMs,
-      beatIndexAtAnchor: state.beatIndexAtAnchor ?? 0
+      beatIndexAtAnchor: state.beatIndexAtAnchor ?? 0,
+      meter: state.meter,
+      ramp: state.ramp,
+      countInBeats: state.countInBeats
     };
     this.broadcastControl('start_announce', announcement);
   }
 
   private startRunningAnchorRebroadcast(): void {
     this.stopRunningAnchorRebroadcast();
-    this.runningAnchorRebroadcastIntervalId = window.setInterval(() => {
+    this.runningAnchorRebroadcastIntervalId = this.timebase.setInterval(() => {
       this.broadcastRunningAnchor();
     }, RUNNING_ANCHOR_REBROADCAST_MS);
   }
 
   private stopRunningAnchorRebroadcast(): void {
     if (this.runningAnchorRebroadcastIntervalId !== null) {
-      clearInterval(this.runningAnchorRebroadcastIntervalId);
+      this.timebase.clearInterval(this.runningAnchorRebroadcastIntervalId);
       this.runningAnchorRebroadcastIntervalId = null;
     }
   }
@@ -282,6 +712,7 @@ export class LeaderStateMachine {
     // Always send latest BPM/version so late joiners are aligned.
     const paramUpdate: ParamUpdatePayload = {
       bpm: state.bpm,
+      meter: state.meter,
       version: state.version
     };
     this.sendControlToPeer(peerId, 'param_update', paramUpdate);
@@ -293,7 +724,10 @@ export class LeaderStateMachine {
         version: state.version,
         runId: this.activeRunId,
         anchorLeaderMs: state.startAtLeaderMs,
-        beatIndexAtAnchor: state.beatIndexAtAnchor ?? 0
+        beatIndexAtAnchor: state.beatIndexAtAnchor ?? 0,
+        meter: state.meter,
+        ramp: state.ramp,
+        countInBeats: state.countInBeats
       };
 
       this.sendControlToPeer(peerId, 'start_announce', announcement);
@@ -301,9 +735,23 @@ export class LeaderStateMachine {
   }
 
   /**
-   * Start metronome
+   * Set how many bars are counted in before bar 1 on the next start (0 = none)
    */
-  startMetronome(): void {
+  setCountInBars(bars: number): void {
+    this.countInBars = Math.max(0, Math.min(MAX_COUNT_IN_BARS, Math.round(bars)));
+  }
+
+  getCountInBars(): number {
+    return this.countInBars;
+  }
+
+  /**
+   * Start metronome (optionally ramping from beat 0).
+   * With a count-in, beat 0 is anchored in the future after the count-in bars.
+   * With startAtLeaderMs (a scheduled start), bar 1 lands exactly there and any
+   * count-in plays right before it.
+   */
+  startMetronome(ramp?: TempoRamp, scheduledAtLeaderMs?: number): void {
     if (this.state !== 'L_ROOM_OPEN') {
       throw new Error('Room not open');
     }
@@ -312,10 +760,30 @@ export class LeaderStateMachine {
       throw new Error('Room state not initialized');
     }
 
-    const bpm = this.roomState.getState().bpm;
-    const startAtLeaderMs = performance.now();
+    const now = this.timebase.now();
+    const previous = this.roomState.getState();
+    const countInBeats = this.countInBars * previous.meter.beatsPerBar;
+    const countInMs = -beatOffsetMs(previous.bpm, ramp, -countInBeats);
+    if (
+      scheduledAtLeaderMs !== undefined &&
+      scheduledAtLeaderMs - countInMs - now < COUNT_IN_LEAD_MS
+    ) {
+      throw new Error('Start time must be in the future');
+    }
 
-    this.roomState.setBeatAnchor(startAtLeaderMs, 0);
+    if (ramp) {
+      this.roomState.setBPM(ramp.endBpm);
+    }
+    this.roomState.setRamp(ramp);
+
+    const { bpm, meter } = this.roomState.getState();
+    const startAtLeaderMs =
+      scheduledAtLeaderMs ?? now + (countInBeats > 0 ? COUNT_IN_LEAD_MS + countInMs : 0);
+    this.scheduledFirstBeatLeaderMs =
+      scheduledAtLeaderMs === undefined ? null : scheduledAtLeaderMs - countInMs;
+
+    this.roomState.setBeatAnchor(startAtLeaderMs, 0, countInBeats || undefined);
+    this.songStartBeatIndex = 0;
     this.roomState.setStatus('running');
     this.state = 'L_RUNNING';
     this.activeRunId += 1;
@@ -326,16 +794,22 @@ export class LeaderStateMachine {
       version: this.roomState.getState().version,
       runId: this.activeRunId,
       anchorLeaderMs: startAtLeaderMs,
-      beatIndexAtAnchor: 0 // Start from beat 0
+      beatIndexAtAnchor: 0, // Start from beat 0
+      meter,
+      ramp,
+      countInBeats: countInBeats || undefined
     };
 
     this.broadcastControl('start_announce', announcement);
 
-    // Start local metronome immediately.
+    // Start local metronome immediately (the count-in plays from the grid before the anchor).
     this.metronome.setBeatGrid({
       bpm,
       anchorPerformanceMs: startAtLeaderMs,
-      beatIndexAtAnchor: 0
+      beatIndexAtAnchor: 0,
+      meter,
+      ramp,
+      countInBeats: countInBeats || undefined
     });
     this.metronome.start(bpm);
     this.startRunningAnchorRebroadcast();
@@ -352,7 +826,12 @@ export class LeaderStateMachine {
     }
 
     this.metronome.stop();
+    this.scheduledFirstBeatLeaderMs = null;
     this.roomState?.setStatus('open');
+    // A ramp belongs to one run; the room keeps the tempo it was heading for.
+    if (this.roomState?.getState().ramp) {
+      this.roomState.setRamp(undefined);
+    }
     this.state = 'L_ROOM_OPEN';
     this.stopRunningAnchorRebroadcast();
 
@@ -366,7 +845,12 @@ export class LeaderStateMachine {
    * Resume running playback from an existing beat anchor.
    * Used when restoring host session after page refresh.
    */
-  resumeMetronomeFromAnchor(anchorLeaderMs: number, beatIndexAtAnchor: number): void {
+  resumeMetronomeFromAnchor(
+    anchorLeaderMs: number,
+    beatIndexAtAnchor: number,
+    ramp?: TempoRamp,
+    countInBeats?: number
+  ): void {
     if (this.state !== 'L_ROOM_OPEN') {
       return;
     }
@@ -375,8 +859,14 @@ export class LeaderStateMachine {
       return;
     }
 
-    const bpm = this.roomState.getState().bpm;
-    this.roomState.setBeatAnchor(anchorLeaderMs, beatIndexAtAnchor);
+    if (ramp) {
+      this.roomState.setBPM(ramp.endBpm);
+    }
+    this.roomState.setRamp(ramp);
+
+    const { bpm, meter } = this.roomState.getState();
+    this.roomState.setBeatAnchor(anchorLeaderMs, beatIndexAtAnchor, countInBeats);
+    this.songStartBeatIndex = 0;
     this.roomState.setStatus('running');
     this.state = 'L_RUNNING';
     this.activeRunId += 1;
@@ -386,19 +876,83 @@ export class LeaderStateMachine {
       version: this.roomState.getState().version,
       runId: this.activeRunId,
       anchorLeaderMs,
-      beatIndexAtAnchor
+      beatIndexAtAnchor,
+      meter,
+      ramp,
+      countInBeats
     };
     this.broadcastControl('start_announce', announcement);
 
     this.metronome.setBeatGrid({
       bpm,
       anchorPerformanceMs: anchorLeaderMs,
-      beatIndexAtAnchor
+      beatIndexAtAnchor,
+      meter,
+      ramp,
+      countInBeats
     });
     this.metronome.start(bpm);
     this.startRunningAnchorRebroadcast();
   }
 
+  /**
+   * Ramp tempo to target.endBpm. While running the ramp begins on the next downbeat
+   * from the tempo playing there; otherwise playback starts ramping from the room BPM.
+   */
+  startTempoRamp(target: Omit<TempoRamp, 'startBpm'>): void {
+    if (!this.roomState || !this.connectionManager) {
+      return;
+    }
+
+    const previous = this.roomState.getState();
+    if (this.state === 'L_ROOM_OPEN') {
+      this.startMetronome({ ...target, startBpm: previous.bpm });
+      return;
+    }
+
+    if (this.state !== 'L_RUNNING' || previous.startAtLeaderMs === undefined) {
+      return;
+    }
+
+    const change = this.findChangeBeat(previous, this.timebase.now(), previous.meter.beatsPerBar);
+    const ramp: TempoRamp = {
+      ...target,
+      startBpm: tempoAtBeat(
+        previous.bpm,
+        previous.ramp,
+        change.beatIndex - (previous.beatIndexAtAnchor ?? 0)
+      )
+    };
+
+    const countInBeats = this.keptCountInBeats(previous, change, previous.meter.beatsPerBar);
+
+    this.roomState.setBPM(ramp.endBpm);
+    this.roomState.setRamp(ramp);
+    this.roomState.setBeatAnchor(change.atLeaderMs, change.beatIndex, countInBeats);
+
+    const state = this.roomState.getState();
+    this.metronome.setBeatGrid({
+      bpm: state.bpm,
+      anchorPerformanceMs: change.atLeaderMs,
+      beatIndexAtAnchor: change.beatIndex,
+      meter: state.meter,
+      ramp,
+      countInBeats
+    });
+
+    const announcement: StartAnnouncePayload = {
+      bpm: state.bpm,
+      version: state.version,
+      runId: this.activeRunId,
+      anchorLeaderMs: change.atLeaderMs,
+      beatIndexAtAnchor: change.beatIndex,
+      meter: state.meter,
+      ramp,
+      countInBeats
+    };
+    this.broadcastControl('start_announce', announcement);
+  }
+
   /**
    * Update BPM (for future: while running)
    */
@@ -408,11 +962,15 @@ export class LeaderStateMachine {
     }
 
     const previous = this.roomState.getState();
-    if (previous.bpm === bpm) {
+    if (previous.bpm === bpm && !previous.ramp) {
       return;
     }
 
+    // A step change replaces any ramp in progress.
     this.roomState.setBPM(bpm);
+    if (previous.ramp) {
+      this.roomState.setRamp(undefined);
+    }
 
     const state = this.roomState.getState();
     const previousStartAtLeaderMs = previous.startAtLeaderMs;
@@ -420,34 +978,26 @@ export class LeaderStateMachine {
 
     if (running) {
       // Re-anchor tempo change to a shared future beat so all peers switch phase-aligned.
-      const now = performance.now();
-      const msPerBeatOld = 60000 / previous.bpm;
-      const baseBeatIndex = previous.beatIndexAtAnchor ?? 0;
-      const elapsedMs = Math.max(0, now - previousStartAtLeaderMs);
-      const beatsSinceAnchor = Math.floor(elapsedMs / msPerBeatOld);
-      const currentBeatIndex = baseBeatIndex + beatsSinceAnchor;
-      const currentBeatTime =
-        previousStartAtLeaderMs + (currentBeatIndex - baseBeatIndex) * msPerBeatOld;
-      const leadRemainingMs = Math.max(0, BPM_CHANGE_LEAD_MS - (now - currentBeatTime));
-      const beatsAhead = Math.max(1, Math.ceil(leadRemainingMs / msPerBeatOld));
-      const changeBeatIndex = currentBeatIndex + beatsAhead;
-      const changeAtLeaderMs =
-        previousStartAtLeaderMs + (changeBeatIndex - baseBeatIndex) * msPerBeatOld;
-
-      this.roomState.setBeatAnchor(changeAtLeaderMs, changeBeatIndex);
+      const change = this.findChangeBeat(previous, this.timebase.now(), 1);
+      const countInBeats = this.keptCountInBeats(previous, change, state.meter.beatsPerBar);
+      this.roomState.setBeatAnchor(change.atLeaderMs, change.beatIndex, countInBeats);
 
       this.metronome.setBeatGrid({
         bpm,
-        anchorPerformanceMs: changeAtLeaderMs,
-        beatIndexAtAnchor: changeBeatIndex
+        anchorPerformanceMs: change.atLeaderMs,
+        beatIndexAtAnchor: change.beatIndex,
+        meter: state.meter,
+        countInBeats
       });
 
       const announcement: StartAnnouncePayload = {
         bpm,
         version: state.version,
         runId: this.activeRunId,
-        anchorLeaderMs: changeAtLeaderMs,
-        beatIndexAtAnchor: changeBeatIndex
+        anchorLeaderMs: change.atLeaderMs,
+        beatIndexAtAnchor: change.beatIndex,
+        meter: state.meter,
+        countInBeats
       };
       this.broadcastControl('start_announce', announcement);
       return;
@@ -460,6 +1010,237 @@ export class LeaderStateMachine {
     this.broadcastControl('param_update', update);
   }
 
+  /**
+   * Update meter (time signature and accents)
+   */
+  setMeter(meter: Meter): void {
+    if (!this.roomState || !this.connectionManager) {
+      return;
+    }
+
+    const previous = this.roomState.getState();
+    if (metersEqual(previous.meter, meter)) {
+      return;
+    }
+
+    this.roomState.setMeter(meter);
+
+    const state = this.roomState.getState();
+    const previousStartAtLeaderMs = previous.startAtLeaderMs;
+    const running = this.state === 'L_RUNNING' && previousStartAtLeaderMs !== undefined;
+
+    if (running) {
+      let anchorLeaderMs = previousStartAtLeaderMs;
+      let beatIndexAtAnchor = previous.beatIndexAtAnchor ?? 0;
+      let ramp = previous.ramp;
+      let countInBeats = previous.countInBeats;
+
+      // A new bar length starts on the next downbeat so the current bar completes;
+      // accent-only edits keep the existing anchor and apply right away.
+      if (meter.beatsPerBar !== previous.meter.beatsPerBar) {
+        const change = this.findChangeBeat(
+          previous,
+          this.timebase.now(),
+          previous.meter.beatsPerBar
+        );
+        // Continue a ramp in progress from the new anchor on the same tempo curve.
+        ramp = rebaseRamp(previous.ramp, change.beatIndex - beatIndexAtAnchor);
+        countInBeats = this.keptCountInBeats(previous, change, meter.beatsPerBar);
+        // Bars already played keep counting toward the song's length in the new meter.
+        const songBars = (change.beatIndex - this.songStartBeatIndex) / previous.meter.beatsPerBar;
+        this.songStartBeatIndex = -Math.round(songBars) * meter.beatsPerBar;
+        anchorLeaderMs = change.atLeaderMs;
+        beatIndexAtAnchor = 0;
+        if (ramp !== previous.ramp) {
+          this.roomState.setRamp(ramp);
+        }
+      }
+
+      this.roomState.setBeatAnchor(anchorLeaderMs, beatIndexAtAnchor, countInBeats);
+
+      this.metronome.setBeatGrid({
+        bpm: state.bpm,
+        anchorPerformanceMs: anchorLeaderMs,
+        beatIndexAtAnchor,
+        meter,
+        ramp,
+        countInBeats
+      });
+
+      const announcement: StartAnnouncePayload = {
+        bpm: state.bpm,
+        version: this.roomState.getState().version,
+        runId: this.activeRunId,
+        anchorLeaderMs,
+        beatIndexAtAnchor,
+        meter,
+        ramp,
+        countInBeats
+      };
+      this.broadcastControl('start_announce', announcement);
+      return;
+    }
+
+    const update: ParamUpdatePayload = {
+      meter,
+      version: state.version
+    };
+    this.broadcastControl('param_update', update);
+  }
+
+  /**
+   * Switch tempo and meter together (e.g. to the next setlist song).
+   * While running, the new grid starts at bar 1 on a downbeat: atBeatIndex when it is
+   * still far enough ahead, otherwise the next reachable downbeat.
+   */
+  changeSong(bpm: number, meter: Meter, atBeatIndex?: number): void {
+    if (!this.roomState || !this.connectionManager) {
+      return;
+    }
+
+    const previous = this.roomState.getState();
+    this.roomState.setBPM(bpm);
+    this.roomState.setMeter(meter);
+    this.songStartBeatIndex = 0;
+    if (previous.ramp) {
+      this.roomState.setRamp(undefined);
+    }
+
+    const running = this.state === 'L_RUNNING' && previous.startAtLeaderMs !== undefined;
+    if (running) {
+      const now = this.timebase.now();
+      const requestedAtMs =
+        atBeatIndex === undefined ? undefined : this.beatTimeOnGrid(previous, atBeatIndex);
+      const anchorLeaderMs =
+        requestedAtMs !== undefined && requestedAtMs - now >= BPM_CHANGE_LEAD_MS
+          ? requestedAtMs
+          : this.findChangeBeat(previous, now, previous.meter.beatsPerBar).atLeaderMs;
+      const countInBeats = this.keptCountInBeats(
+        previous,
+        { atLeaderMs: anchorLeaderMs, beatIndex: 0 },
+        meter.beatsPerBar
+      );
+
+      this.roomState.setBeatAnchor(anchorLeaderMs, 0, countInBeats);
+      this.metronome.setBeatGrid({
+        bpm,
+        anchorPerformanceMs: anchorLeaderMs,
+        beatIndexAtAnchor: 0,
+        meter,
+        countInBeats
+      });
+
+      const announcement: StartAnnouncePayload = {
+        bpm,
+        version: this.roomState.getState().version,
+        runId: this.activeRunId,
+        anchorLeaderMs,
+        beatIndexAtAnchor: 0,
+        meter,
+        countInBeats
+      };
+      this.broadcastControl('start_announce', announcement);
+      return;
+    }
+
+    const update: ParamUpdatePayload = {
+      bpm,
+      meter,
+      version: this.roomState.getState().version
+    };
+    this.broadcastControl('param_update', update);
+  }
+
+  /**
+   * Leader time of an absolute beat index on the current grid (null when not running)
+   */
+  getBeatTimeMs(beatIndex: number): number | null {
+    const state = this.roomState?.getState();
+    if (!state || this.state !== 'L_RUNNING' || state.startAtLeaderMs === undefined) {
+      return null;
+    }
+    return this.beatTimeOnGrid(state, beatIndex);
+  }
+
+  /**
+   * Milliseconds from now until a beat on the current grid (null when not running)
+   */
+  getMsUntilBeat(beatIndex: number): number | null {
+    const atLeaderMs = this.getBeatTimeMs(beatIndex);
+    return atLeaderMs === null ? null : atLeaderMs - this.timebase.now();
+  }
+
+  /**
+   * Beat index where the current song ends after the given number of bars, counted
+   * from its first downbeat across bar-length changes. After a page refresh or a
+   * leader takeover the song is counted from beat 0 of the resumed grid.
+   */
+  getSongEndBeatIndex(bars: number): number {
+    const beatsPerBar = this.roomState?.getState().meter.beatsPerBar ?? DEFAULT_METER.beatsPerBar;
+    return this.songStartBeatIndex + bars * beatsPerBar;
+  }
+
+  private beatTimeOnGrid(state: RoomState, beatIndex: number): number {
+    const anchorLeaderMs = state.startAtLeaderMs ?? this.timebase.now();
+    const beatsFromAnchor = beatIndex - (state.beatIndexAtAnchor ?? 0);
+    return anchorLeaderMs + beatOffsetMs(state.bpm, state.ramp, beatsFromAnchor);
+  }
+
+  /**
+   * Count-in of the current grid when a change keeps its anchor (a change during the
+   * count-in or before a scheduled start), in beats of the new bar length
+   */
+  private keptCountInBeats(
+    previous: RoomState,
+    change: { beatIndex: number; atLeaderMs: number },
+    beatsPerBar: number
+  ): number | undefined {
+    if (
+      !previous.countInBeats ||
+      change.atLeaderMs !== previous.startAtLeaderMs ||
+      change.beatIndex !== (previous.beatIndexAtAnchor ?? 0)
+    ) {
+      return undefined;
+    }
+
+    const countInBars = Math.round(previous.countInBeats / previous.meter.beatsPerBar);
+    return countInBars * beatsPerBar;
+  }
+
+  /**
+   * Find the first beat at least BPM_CHANGE_LEAD_MS ahead on the running grid,
+   * rounded up to a multiple of beatMultiple (pass beatsPerBar for a downbeat).
+   * Before a scheduled start or count-in reaches its anchor, changes apply from the anchor.
+   */
+  private findChangeBeat(
+    state: RoomState,
+    now: number,
+    beatMultiple: number
+  ): { beatIndex: number; atLeaderMs: number } {
+    const anchorLeaderMs = state.startAtLeaderMs ?? now;
+    const { bpm, ramp } = state;
+    const baseBeatIndex = state.beatIndexAtAnchor ?? 0;
+    const elapsedMs = Math.max(0, now - anchorLeaderMs);
+    const beatsSinceAnchor = Math.floor(beatsAtOffsetMs(bpm, ramp, elapsedMs));
+    const currentBeatIndex = baseBeatIndex + beatsSinceAnchor;
+    const beatTimeMs = (beatIndex: number) => this.beatTimeOnGrid(state, beatIndex);
+
+    if (anchorLeaderMs - now >= BPM_CHANGE_LEAD_MS && baseBeatIndex % beatMultiple === 0) {
+      return { beatIndex: baseBeatIndex, atLeaderMs: anchorLeaderMs };
+    }
+
+    // Walk forward beat by beat so a ramp's changing beat length is respected.
+    let beatIndex = currentBeatIndex + 1;
+    while (beatTimeMs(beatIndex) - now < BPM_CHANGE_LEAD_MS || beatIndex % beatMultiple !== 0) {
+      beatIndex++;
+    }
+
+    return {
+      beatIndex,
+      atLeaderMs: beatTimeMs(beatIndex)
+    };
+  }
+
   /**
    * Close room
    */
@@ -468,24 +1249,39 @@ export class LeaderStateMachine {
       return;
     }
 
+    await this.shutDown(true);
+    console.log('✅ Room closed');
+  }
+
+  /**
+   * Stop playback and drop all connections. Peers are told the room closed
+   * unless leadership was handed off and the room lives on.
+   */
+  private async shutDown(notifyPeers: boolean): Promise<void> {
     this.state = 'L_CLOSING';
 
     // Stop metronome
     this.metronome.stop();
+    this.scheduledFirstBeatLeaderMs = null;
     this.stopRunningAnchorRebroadcast();
     this.stopStalePeerSweep();
+    this.stopLeaderBeacon();
+    this.syncEngine.stop();
+    this.syncReports.clear();
+    this.clearControlRequests();
 
-    // Notify peers
     if (this.connectionManager && this.roomState) {
-      const msg = createMessage(
-        this.roomState.getState().roomId,
-        this.myId,
-        '*',
-        'room_closed',
-        {}
-      );
-
-      this.connectionManager.broadcastControl(msg);
+      if (notifyPeers) {
+        const msg = createMessage(
+          this.roomState.getState().roomId,
+          this.myId,
+          '*',
+          'room_closed',
+          {}
+        );
+
+        this.connectionManager.broadcastControl(msg);
+      }
 
       // Close all connections
       await this.connectionManager.closeAll();
@@ -494,8 +1290,6 @@ export class LeaderStateMachine {
     this.roomState = null;
     this.connectionManager = null;
     this.state = 'L_IDLE';
-
-    console.log('✅ Room closed');
   }
 
   /**
@@ -512,6 +1306,13 @@ export class LeaderStateMachine {
     return this.roomState?.getState().roomId ?? null;
   }
 
+  /**
+   * Get IDs of connected peers (handoff candidates)
+   */
+  getPeerIds(): string[] {
+    return this.roomState?.getConnectedPeers() ?? [];
+  }
+
   /**
    * Get current connected peer count
    */
@@ -526,6 +1327,18 @@ export class LeaderStateMachine {
     return this.state === 'L_RUNNING';
   }
 
+  /**
+   * Milliseconds until the first click of a scheduled start (null once it has started)
+   */
+  getStartCountdownMs(): number | null {
+    if (this.state !== 'L_RUNNING' || this.scheduledFirstBeatLeaderMs === null) {
+      return null;
+    }
+
+    const remainingMs = this.scheduledFirstBeatLeaderMs - this.timebase.now();
+    return remainingMs > 0 ? remainingMs : null;
+  }
+
   /**
    * Get metronome instance (for visual sync)
    */
@@ -543,9 +1356,12 @@ export class LeaderStateMachine {
     return {
       roomId: state.roomId,
       bpm: state.bpm,
+      meter: state.meter,
       running,
       anchorLeaderMs: running ? state.startAtLeaderMs : undefined,
-      beatIndexAtAnchor: running ? (state.beatIndexAtAnchor ?? 0) : undefined
+      beatIndexAtAnchor: running ? (state.beatIndexAtAnchor ?? 0) : undefined,
+      ramp: running ? state.ramp : undefined,
+      countInBeats: running ? state.countInBeats : undefined
     };
   }
 }
@@ -3,15 +3,27 @@
  * Manages joining room, syncing clock, and playing synchronized metronome
  */
 
-import { ClockSync } from '../sync/clock.js';
+import { ClockStats, ClockSync } from '../sync/clock.js';
+import { PeerSyncEngine } from '../sync/sync-engine.js';
+import { Timebase } from '../sync/timebase.js';
 import { Metronome } from '../audio/metronome.js';
+import { DEFAULT_METER, isValidMeter } from '../audio/meter.js';
+import { beatOffsetMs, isValidTempoRamp } from '../audio/tempo-ramp.js';
 import { PeerState } from './types.js';
+import { LeaderElection } from './election.js';
 import {
+  ControlAction,
+  ControlRequestPayload,
+  ControlResultPayload,
+  LeaderHandoffPayload,
+  Meter,
   StartAnnouncePayload,
   ParamUpdatePayload,
+  TempoRamp,
   TimePingPayload,
-  TimePongPayload,
-  ClockOffsetPayload
+  ClockOffsetPayload,
+  SyncReportPayload,
+  generatePeerId
 } from '../types.js';
 import { PeerConnectionManagerLike } from '../realtime/connection-types.js';
 import { TransportRuntime, createDefaultTransportRuntime } from '../realtime/runtime.js';
@@ -21,40 +33,125 @@ const PEER_SYNC_DELAY_MS = 250;
 const RUNNING_PHASE_CORRECTION_THRESHOLD_MS = 6;
 const RUNNING_PHASE_CORRECTION_MAX_STEP_MS = 12;
 const RUNNING_PHASE_CORRECTION_FACTOR = 0.35;
+const MAX_COUNT_IN_BEATS = 64;
+// Starts further out than this are reported as armed (scheduled start) with a countdown
+const ARMED_START_MIN_DELAY_MS = 1000;
+const LEADER_WATCHDOG_MS = 1000;
+const SYNC_REPORT_INTERVAL_MS = 5000;
+
+/**
+ * This peer's own view of its clock sync and playback alignment
+ */
+export interface PeerSyncDiagnostics {
+  clock: ClockStats;
+  appliedOffsetMs: number | null; // Offset the running beat grid is placed with
+  phaseCorrections: number; // Running phase-correction steps applied
+  lastPhaseCorrectionMs: number | null;
+  outputLatencyMs: number | null;
+  audioClockDriftPpm: number; // Audio clock against performance.now()
+}
+
+/**
+ * Validate a room handoff received from the leader
+ */
+function isValidHandoff(payload: unknown): payload is LeaderHandoffPayload {
+  if (!payload || typeof payload !== 'object') {
+    return false;
+  }
+
+  const handoff = payload as Record<string, unknown>;
+  return (
+    typeof handoff.bpm === 'number' &&
+    Number.isFinite(handoff.bpm) &&
+    isValidMeter(handoff.meter) &&
+    typeof handoff.version === 'number' &&
+    typeof handoff.runId === 'number' &&
+    typeof handoff.running === 'boolean' &&
+    (!handoff.running || typeof handoff.anchorLeaderMs === 'number') &&
+    (handoff.ramp === undefined || isValidTempoRamp(handoff.ramp))
+  );
+}
+
+/**
+ * Meter carried by an announcement (older leaders omit it and play 4/4)
+ */
+function announcedMeter(payload: StartAnnouncePayload): Meter {
+  return isValidMeter(payload.meter) ? payload.meter : DEFAULT_METER;
+}
+
+/**
+ * Tempo ramp carried by an announcement (ignored if malformed)
+ */
+function announcedRamp(payload: StartAnnouncePayload): TempoRamp | undefined {
+  return isValidTempoRamp(payload.ramp) ? payload.ramp : undefined;
+}
+
+/**
+ * Count-in beats carried by an announcement (0 if absent or malformed)
+ */
+function announcedCountIn(payload: StartAnnouncePayload): number {
+  const beats = payload.countInBeats;
+  return typeof beats === 'number' && Number.isInteger(beats) && beats > 0
+    ? Math.min(beats, MAX_COUNT_IN_BEATS)
+    : 0;
+}
 
 export class PeerStateMachine {
   private state: PeerState = 'C_IDLE';
   private connectionManager: PeerConnectionManagerLike | null = null;
+  private syncEngine: PeerSyncEngine;
   private clockSync: ClockSync;
   private metronome: Metronome;
+  private readonly timebase: Timebase;
   private myId: string;
   private roomId: string | null = null;
   private onStartCallback: (() => void) | null = null;
   private onSyncStatusCallback: ((status: string) => void) | null = null;
+  private onControlResultCallback:
+    | ((result: ControlResultPayload, isMine: boolean) => void)
+    | null = null;
+  private onLeaderHandoffCallback:
+    | ((handoff: LeaderHandoffPayload, offsetMs: number) => void)
+    | null = null;
   private hasClockOffset: boolean = false;
   private offsetUpdateCount: number = 0;
   private pendingStartAnnouncement: StartAnnouncePayload | null = null;
   private pendingStartTimeoutId: number | null = null;
+  private armedFirstBeatPeerMs: number | null = null;
   private activeStartAnnouncement: StartAnnouncePayload | null = null;
   private appliedOffsetMsForActiveAnchor: number | null = null;
   private activeRunId: number = 0;
   private lastStoppedRunId: number = 0;
+  private election: LeaderElection;
+  private leaderWatchdogId: number | null = null;
+  private syncReportIntervalId: number | null = null;
+  private phaseCorrections = 0;
+  private lastPhaseCorrectionMs: number | null = null;
 
   constructor(
     myId: string,
-    private readonly transportRuntime: TransportRuntime = createDefaultTransportRuntime('pubsub')
+    private readonly transportRuntime: TransportRuntime = createDefaultTransportRuntime('pubsub'),
+    metronome: Metronome = new Metronome(transportRuntime.timebase)
   ) {
     this.myId = myId;
-    this.clockSync = new ClockSync();
-    this.metronome = new Metronome();
+    this.timebase = transportRuntime.timebase;
+    this.syncEngine = new PeerSyncEngine(
+      myId,
+      (pong) => this.connectionManager?.sendTimeSync({ type: 'time_pong', payload: pong }),
+      this.timebase
+    );
+    this.clockSync = this.syncEngine.getClockSync();
+    this.metronome = metronome;
+    this.election = new LeaderElection(myId);
   }
 
   private clearPendingStart(): void {
     if (this.pendingStartTimeoutId !== null) {
-      clearTimeout(this.pendingStartTimeoutId);
+      this.timebase.clearTimeout(this.pendingStartTimeoutId);
       this.pendingStartTimeoutId = null;
     }
     this.pendingStartAnnouncement = null;
+    this.armedFirstBeatPeerMs = null;
   }
 
   private reanchorRunningFromActiveAnnouncement(offsetMs: number): void {
@@ -69,10 +166,45 @@ export class PeerStateMachine {
     this.metronome.setBeatGrid({
       bpm,
       anchorPerformanceMs: anchorPeerMs,
-      beatIndexAtAnchor
+      beatIndexAtAnchor,
+      meter: announcedMeter(this.activeStartAnnouncement),
+      ramp: announcedRamp(this.activeStartAnnouncement),
+      countInBeats: announcedCountIn(this.activeStartAnnouncement) || undefined
     });
   }
 
+  /**
+   * Clock offset at the current time (the leader's model drifts with skew)
+   */
+  private currentOffsetMs(): number {
+    return this.clockSync.getOffsetMs(this.clockSync.peerToLeaderTime(this.timebase.now()));
+  }
+
+  /**
+   * Whether the active announcement's count-in has not reached bar 1 yet
+   */
+  private isInCountIn(offsetMs: number): boolean {
+    const announcement = this.activeStartAnnouncement;
+    if (!announcement || announcedCountIn(announcement) === 0) {
+      return false;
+    }
+    return announcement.anchorLeaderMs + offsetMs > this.timebase.now();
+  }
+
+  /**
+   * A count-in gives the offset time to settle, so one sample is enough to start it.
+   */
+  private canStartFromAnnouncement(payload: StartAnnouncePayload): boolean {
+    if (this.hasClockOffset) {
+      return true;
+    }
+    return (
+      this.offsetUpdateCount > 0 &&
+      announcedCountIn(payload) > 0 &&
+      payload.anchorLeaderMs + this.currentOffsetMs() > this.timebase.now()
+    );
+  }
+
   /**
    * Join room
    */
@@ -95,8 +227,16 @@ export class PeerStateMachine {
 
     this.state = 'C_SIGNALING';
 
+    this.connectionManager.onPeerSeen((peerId) => {
+      this.election.notePeerSeen(peerId, this.timebase.now());
+    });
+    this.connectionManager.onPeerLeft((peerId) => {
+      this.election.forgetPeer(peerId);
+    });
+
     // Handle time-sync messages (pings from leader)
     this.connectionManager.onTimeSync((data) => {
+      this.noteLeaderActivity();
       if (data.type === 'time_ping') {
         this.handleTimePing(data.payload);
       }
@@ -104,6 +244,7 @@ export class PeerStateMachine {
 
     // Handle control messages (start announcements)
     this.connectionManager.onControl((data) => {
+      this.noteLeaderActivity();
       if (data.type === 'start_announce') {
         this.handleStartAnnounce(data.payload);
       } else if (data.type === 'room_closed') {
@@ -114,19 +255,27 @@ export class PeerStateMachine {
         this.handleParamUpdate(data.payload);
       } else if (data.type === 'stop_announce') {
         this.handleStopAnnounce();
+      } else if (data.type === 'control_result') {
+        this.handleControlResult(data.payload);
+      } else if (data.type === 'leader_handoff') {
+        this.handleLeaderHandoff(data.payload);
       }
     });
 
     // Handle connection
     this.connectionManager.onConnected(() => {
+      this.election.noteLeaderSeen(this.timebase.now());
       const wasRunning = this.state === 'C_RUNNING' || this.metronome.running();
       this.clearPendingStart();
-      this.clockSync.reset();
+      this.syncEngine.reset();
       this.hasClockOffset = false;
       this.offsetUpdateCount = 0;
 
       if (wasRunning) {
         this.state = 'C_RUNNING';
+        // A new leader has a different clock: keep the current grid (already in our
+        // clock) until its announcement can be placed with a fresh offset.
+        this.appliedOffsetMsForActiveAnchor = null;
         console.log('✅ Reconnected to leader while running; keeping running state');
         this.emitSyncStatus('Running.');
         return;
@@ -139,29 +288,143 @@ export class PeerStateMachine {
 
     // Join room
     await this.connectionManager.joinRoom();
+    this.startSyncReports();
+    // Elections need every peer to reach the new leader over the shared channel.
+    if (this.transportRuntime.mode === 'pubsub') {
+      this.startLeaderWatchdog();
+    }
 
     console.log(`✅ Peer joining room: ${roomId}`);
   }
 
+  private startLeaderWatchdog(): void {
+    this.stopLeaderWatchdog();
+    this.leaderWatchdogId = this.timebase.setInterval(() => {
+      this.checkLeader();
+    }, LEADER_WATCHDOG_MS);
+  }
+
+  private stopLeaderWatchdog(): void {
+    if (this.leaderWatchdogId !== null) {
+      this.timebase.clearInterval(this.leaderWatchdogId);
+      this.leaderWatchdogId = null;
+    }
+  }
+
+  /**
+   * Tell the leader how sync looks from this side, for the host's dashboard
+   */
+  private startSyncReports(): void {
+    this.stopSyncReports();
+    this.syncReportIntervalId = this.timebase.setInterval(() => {
+      this.sendSyncReport();
+    }, SYNC_REPORT_INTERVAL_MS);
+  }
+
+  private stopSyncReports(): void {
+    if (this.syncReportIntervalId !== null) {
+      this.timebase.clearInterval(this.syncReportIntervalId);
+      this.syncReportIntervalId = null;
+    }
+  }
+
+  private sendSyncReport(): void {
+    if (!this.connectionManager?.isConnected() || this.offsetUpdateCount === 0) {
+      return;
+    }
+
+    const diagnostics = this.getSyncDiagnostics();
+    const payload: SyncReportPayload = {
+      offsetMs: this.currentOffsetMs(),
+      rtt: diagnostics.clock.rtt,
+      confidenceMs: diagnostics.clock.confidenceMs,
+      stable: diagnostics.clock.stable,
+      phaseCorrections: diagnostics.phaseCorrections,
+      lastPhaseCorrectionMs: diagnostics.lastPhaseCorrectionMs ?? undefined,
+      outputLatencyMs: diagnostics.outputLatencyMs ?? undefined
+    };
+    this.connectionManager.sendControl({ type: 'sync_report', payload });
+  }
+
+  /**
+   * Any message from the leader proves it is alive (and ends an election in progress)
+   */
+  private noteLeaderActivity(): void {
+    this.election.noteLeaderSeen(this.timebase.now());
+    if (this.state !== 'C_ELECTING') {
+      return;
+    }
+
+    const running = this.metronome.running();
+    this.state = running ? 'C_RUNNING' : 'C_SYNCING';
+    this.emitSyncStatus(running ? 'Running.' : 'Connected. Waiting for host to start.');
+  }
+
+  /**
+   * Start an election once the leader has been silent for too long.
+   * Every peer elects the lowest recently seen peer ID; the winner takes over
+   * the last known grid while the rest keep playing until its hello arrives.
+   */
+  private checkLeader(): void {
+    const now = this.timebase.now();
+    if (!this.onLeaderHandoffCallback || !this.election.isLeaderLost(now)) {
+      return;
+    }
+
+    if (this.state !== 'C_ELECTING') {
+      if (this.state !== 'C_SYNCING' && this.state !== 'C_RUNNING') {
+        return;
+      }
+      this.state = 'C_ELECTING';
+      console.log('🗳️ Leader lost, electing a new one');
+      this.emitSyncStatus('Host lost. Electing a new host...');
+    }
+
+    if (this.election.electWinner(now) === this.myId) {
+      this.takeOverAsLeader();
+    }
+  }
+
+  /**
+   * Won the election: continue the last announced grid as the new leader
+   */
+  private takeOverAsLeader(): void {
+    const announcement = this.activeStartAnnouncement;
+    const running =
+      announcement !== null && (this.metronome.running() || this.pendingStartTimeoutId !== null);
+    const handoff: LeaderHandoffPayload = {
+      bpm: announcement?.bpm ?? this.metronome.getBPM(),
+      meter: announcement ? announcedMeter(announcement) : this.metronome.getMeter(),
+      version: announcement?.version ?? 0,
+      runId: this.activeRunId,
+      running,
+      anchorLeaderMs: running ? announcement.anchorLeaderMs : undefined,
+      beatIndexAtAnchor: running ? announcement.beatIndexAtAnchor : undefined,
+      ramp: running ? announcedRamp(announcement) : undefined,
+      countInBeats: running ? announcedCountIn(announcement) || undefined : undefined
+    };
+
+    // Continue exactly the grid the metronome is playing.
+    const offsetMs = this.appliedOffsetMsForActiveAnchor ?? this.currentOffsetMs();
+    console.log(`👑 Won election for room ${this.roomId}`);
+    this.stopLeaderWatchdog();
+    this.onLeaderHandoffCallback?.(handoff, offsetMs);
+  }
+
   /**
    * Handle time ping from leader
    */
   private handleTimePing(pingPayload: TimePingPayload): void {
-    const t2 = performance.now();
-    const t3 = performance.now();
-
-    const pong: TimePongPayload = {
-      seq: pingPayload.seq,
-      t1LeaderMs: pingPayload.t1LeaderMs,
-      t2PeerMs: t2,
-      t3PeerMs: t3
-    };
+    // Answers the ping and, in peer-side clock sync, completes receipted exchanges
+    const stats = this.syncEngine.handlePing(pingPayload);
+    if (!stats) {
+      return;
+    }
 
-    // Send pong immediately
-    this.connectionManager?.sendTimeSync({
-      type: 'time_pong',
-      payload: pong
-    });
+    console.log(
+      `⏱️ Clock offset measured: ${stats.offsetMs.toFixed(2)}ms (RTT: ${stats.rtt.toFixed(2)}ms)`
+    );
+    this.applyClockUpdate();
   }
 
   /**
@@ -172,17 +435,36 @@ export class PeerStateMachine {
       `⏱️ Clock offset update: ${payload.offsetMs.toFixed(2)}ms (RTT: ${payload.rtt.toFixed(2)}ms)`
     );
 
-    // Apply leader-calculated offset directly.
-    this.clockSync.setOffsetMs(payload.offsetMs);
+    // Adopt the leader's offset and skew model, evaluated at the current time from here on.
+    this.clockSync.adoptEstimate(payload);
+    this.applyClockUpdate();
+  }
+
+  /**
+   * Re-place the beat grid and pending starts after the clock estimate changed
+   */
+  private applyClockUpdate(): void {
+    const offsetMs = this.currentOffsetMs();
     this.offsetUpdateCount++;
     this.hasClockOffset = this.offsetUpdateCount >= MIN_OFFSET_SAMPLES_FOR_START;
 
     if (
+      this.state === 'C_RUNNING' &&
+      this.activeStartAnnouncement &&
+      this.appliedOffsetMsForActiveAnchor !== null &&
+      this.isInCountIn(offsetMs)
+    ) {
+      // Before bar 1 nothing has been played on the grid yet: snap straight to the
+      // newest offset so every device lands on the downbeat together.
+      if (offsetMs !== this.appliedOffsetMsForActiveAnchor) {
+        this.reanchorRunningFromActiveAnnouncement(offsetMs);
+      }
+    } else if (
       this.state === 'C_RUNNING' &&
       this.activeStartAnnouncement &&
       this.appliedOffsetMsForActiveAnchor !== null
     ) {
-      const delta = payload.offsetMs - this.appliedOffsetMsForActiveAnchor;
+      const delta = offsetMs - this.appliedOffsetMsForActiveAnchor;
       if (Math.abs(delta) >= RUNNING_PHASE_CORRECTION_THRESHOLD_MS) {
         const boundedStep = Math.max(
           -RUNNING_PHASE_CORRECTION_MAX_STEP_MS,
@@ -190,12 +472,23 @@ export class PeerStateMachine {
         );
         const nextOffset = this.appliedOffsetMsForActiveAnchor + boundedStep;
         this.reanchorRunningFromActiveAnnouncement(nextOffset);
+        this.phaseCorrections++;
+        this.lastPhaseCorrectionMs = boundedStep;
       }
     }
 
+    // Armed for a start further ahead: re-derive the local start from the newest offset.
+    if (
+      this.state !== 'C_RUNNING' &&
+      this.pendingStartTimeoutId !== null &&
+      this.activeStartAnnouncement
+    ) {
+      this.scheduleStartFromAnnouncement(this.activeStartAnnouncement);
+    }
+
     // Late join: only schedule start after we have a usable offset sample.
     if (this.pendingStartAnnouncement) {
-      if (this.hasClockOffset) {
+      if (this.canStartFromAnnouncement(this.pendingStartAnnouncement)) {
         const pending = this.pendingStartAnnouncement;
         this.pendingStartAnnouncement = null;
         this.scheduleStartFromAnnouncement(pending);
@@ -221,8 +514,8 @@ export class PeerStateMachine {
     console.log('🎵 Received start announcement:', payload);
     this.activeStartAnnouncement = payload;
 
-    // Wait for at least one clock offset sample before scheduling start.
-    if (!this.hasClockOffset) {
+    // Wait for usable clock offset samples before scheduling start.
+    if (!this.canStartFromAnnouncement(payload)) {
       this.pendingStartAnnouncement = payload;
       if (this.state !== 'C_RUNNING' && !this.metronome.running()) {
         this.emitSyncStatus('Synchronizing clocks...');
@@ -244,7 +537,7 @@ export class PeerStateMachine {
     const { bpm, anchorLeaderMs, beatIndexAtAnchor } = payload;
 
     // Convert leader anchor to peer time (using clock offset)
-    const offsetMs = this.clockSync.getOffsetMs();
+    const offsetMs = this.currentOffsetMs();
     const anchorPeerMs = anchorLeaderMs + offsetMs;
     this.appliedOffsetMsForActiveAnchor = offsetMs;
 
@@ -252,24 +545,35 @@ export class PeerStateMachine {
     this.metronome.setBeatGrid({
       bpm,
       anchorPerformanceMs: anchorPeerMs,
-      beatIndexAtAnchor
+      beatIndexAtAnchor,
+      meter: announcedMeter(payload),
+      ramp: announcedRamp(payload),
+      countInBeats: announcedCountIn(payload) || undefined
     });
 
-    // Calculate time until start
-    const now = performance.now();
-    const delayMs = Math.max(0, anchorPeerMs - now);
+    // Calculate time until start (the first count-in beat when there is one)
+    const now = this.timebase.now();
+    const countInBeats = announcedCountIn(payload);
+    const firstBeatPeerMs = anchorPeerMs + beatOffsetMs(bpm, announcedRamp(payload), -countInBeats);
+    const delayMs = Math.max(0, firstBeatPeerMs - now);
     const startupDelayMs =
-      this.state === 'C_RUNNING' ? delayMs : Math.max(delayMs, PEER_SYNC_DELAY_MS);
+      this.state === 'C_RUNNING' || countInBeats > 0
+        ? delayMs
+        : Math.max(delayMs, PEER_SYNC_DELAY_MS);
     const wasRunning = this.state === 'C_RUNNING' || this.metronome.running();
 
     console.log(`⏳ Starting in ${startupDelayMs}ms (offset: ${offsetMs}ms)`);
-    if (!wasRunning) {
+    if (!wasRunning && startupDelayMs >= ARMED_START_MIN_DELAY_MS) {
+      this.armedFirstBeatPeerMs = now + startupDelayMs;
+      this.emitSyncStatus('Armed. Waiting for start time.');
+    } else if (!wasRunning) {
       this.emitSyncStatus('Synchronizing clocks...');
     }
 
     // Start metronome at anchor time
-    this.pendingStartTimeoutId = window.setTimeout(() => {
+    this.pendingStartTimeoutId = this.timebase.setTimeout(() => {
       this.pendingStartTimeoutId = null;
+      this.armedFirstBeatPeerMs = null;
       this.metronome.start(bpm);
       this.state = 'C_RUNNING';
 
@@ -283,18 +587,21 @@ export class PeerStateMachine {
   }
 
   /**
-   * Handle parameter updates from leader (currently BPM).
+   * Handle parameter updates from leader (BPM and meter).
    */
   private handleParamUpdate(payload: ParamUpdatePayload): void {
-    if (payload.bpm === undefined) {
+    // Running tempo/meter changes are phase-anchored via start_announce.
+    // Apply param updates only while not actively running.
+    if (this.state === 'C_RUNNING') {
       return;
     }
 
-    // Running tempo changes are phase-anchored via start_announce.
-    // Apply param updates only while not actively running.
-    if (this.state !== 'C_RUNNING') {
+    if (payload.bpm !== undefined) {
       this.metronome.setBPM(payload.bpm);
     }
+    if (isValidMeter(payload.meter)) {
+      this.metronome.setMeter(payload.meter);
+    }
   }
 
   /**
@@ -323,6 +630,9 @@ export class PeerStateMachine {
    */
   async leaveRoom(): Promise<void> {
     this.clearPendingStart();
+    this.stopLeaderWatchdog();
+    this.stopSyncReports();
+    this.election.reset();
 
     this.metronome.stop();
 
@@ -333,17 +643,81 @@ export class PeerStateMachine {
 
     this.roomId = null;
     this.state = 'C_IDLE';
-    this.clockSync.reset();
+    this.syncEngine.reset();
     this.hasClockOffset = false;
     this.offsetUpdateCount = 0;
     this.activeStartAnnouncement = null;
     this.appliedOffsetMsForActiveAnchor = null;
     this.activeRunId = 0;
     this.lastStoppedRunId = 0;
+    this.phaseCorrections = 0;
+    this.lastPhaseCorrectionMs = null;
 
     console.log('✅ Left room');
   }
 
+  /**
+   * Ask the host to start/stop playback or change tempo.
+   * Returns the request id, or null when not connected to a host.
+   */
+  requestControl(action: ControlAction, bpm?: number): string | null {
+    if (!this.connectionManager?.isConnected()) {
+      return null;
+    }
+
+    const payload: ControlRequestPayload = {
+      requestId: generatePeerId(),
+      action,
+      bpm: action === 'set_bpm' ? bpm : undefined
+    };
+    this.connectionManager.sendControl({ type: 'control_request', payload });
+    return payload.requestId;
+  }
+
+  /**
+   * Accept leadership handed over by the current leader
+   */
+  private handleLeaderHandoff(payload: unknown): void {
+    if (!this.onLeaderHandoffCallback || !isValidHandoff(payload)) {
+      console.warn('⚠️ Ignoring leader handoff', payload);
+      return;
+    }
+
+    this.connectionManager?.sendControl({ type: 'leader_handoff_ack', payload: {} });
+    this.onLeaderHandoffCallback(payload, this.currentOffsetMs());
+  }
+
+  /**
+   * Leave the room but keep the metronome playing, so a LeaderStateMachine
+   * built on it can carry on after a handoff
+   */
+  async releaseForHandoff(): Promise<void> {
+    this.clearPendingStart();
+    this.stopLeaderWatchdog();
+    this.stopSyncReports();
+    this.election.reset();
+
+    if (this.connectionManager) {
+      await this.connectionManager.close();
+      this.connectionManager = null;
+    }
+
+    this.roomId = null;
+    this.state = 'C_IDLE';
+    this.activeStartAnnouncement = null;
+    this.appliedOffsetMsForActiveAnchor = null;
+  }
+
+  /**
+   * Handle the host's answer to a control request (broadcast to every peer)
+   */
+  private handleControlResult(payload: ControlResultPayload): void {
+    if (!payload || typeof payload.requestId !== 'string') {
+      return;
+    }
+    this.onControlResultCallback?.(payload, payload.peerId === this.myId);
+  }
+
   /**
    * Get current state
    */
@@ -351,6 +725,13 @@ export class PeerStateMachine {
     return this.state;
   }
 
+  /**
+   * Get this peer's ID (kept as leader ID after a handoff)
+   */
+  getId(): string {
+    return this.myId;
+  }
+
   /**
    * Get room ID
    */
@@ -365,13 +746,39 @@ export class PeerStateMachine {
     return this.state === 'C_RUNNING';
   }
 
+  /**
+   * Milliseconds until an armed (scheduled) start begins, or null
+   */
+  getStartCountdownMs(): number | null {
+    if (this.armedFirstBeatPeerMs === null) {
+      return null;
+    }
+
+    const remainingMs = this.armedFirstBeatPeerMs - this.timebase.now();
+    return remainingMs > 0 ? remainingMs : null;
+  }
+
   /**
    * Get clock sync stats
    */
-  getClockStats() {
+  getClockStats(): ClockStats {
     return this.clockSync.getStats();
   }
 
+  /**
+   * Get clock sync stats together with how playback has been kept in phase
+   */
+  getSyncDiagnostics(): PeerSyncDiagnostics {
+    return {
+      clock: this.clockSync.getStats(),
+      appliedOffsetMs: this.appliedOffsetMsForActiveAnchor,
+      phaseCorrections: this.phaseCorrections,
+      lastPhaseCorrectionMs: this.lastPhaseCorrectionMs,
+      outputLatencyMs: this.metronome.getOutputLatencyMs(),
+      audioClockDriftPpm: this.metronome.getAudioClockDriftPpm()
+    };
+  }
+
   /**
    * Get metronome instance (for visual sync)
    */
@@ -393,6 +800,22 @@ export class PeerStateMachine {
     this.onStartCallback = callback;
   }
 
+  /**
+   * Register callback for answered control requests (isMine is true for our own requests)
+   */
+  onControlResult(callback: (result: ControlResultPayload, isMine: boolean) => void): void {
+    this.onControlResultCallback = callback;
+  }
+
+  /**
+   * Register callback for when the leader hands the room to this peer or this
+   * peer wins an election (offsetMs converts the old leader's times:
+   * peer time = leader time + offsetMs)
+   */
+  onLeaderHandoff(callback: (handoff: LeaderHandoffPayload, offsetMs: number) => void): void {
+    this.onLeaderHandoffCallback = callback;
+  }
+
   private emitSyncStatus(status: string): void {
     if (this.onSyncStatusCallback) {
       this.onSyncStatusCallback(status);
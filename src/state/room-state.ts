@@ -3,16 +3,25 @@
  * Leader-owned ephemeral state
  */
 
-import { RoomState } from '../types.js';
+import { Meter, RoomState, TempoRamp } from '../types.js';
+import { DEFAULT_METER } from '../audio/meter.js';
+import { Timebase, systemTimebase } from '../sync/timebase.js';
 
 export class RoomStateManager {
   private state: RoomState;
 
-  constructor(roomId: string, leaderId: string, bpm: number = 120) {
+  constructor(
+    roomId: string,
+    leaderId: string,
+    bpm: number = 120,
+    meter: Meter = DEFAULT_METER,
+    private readonly timebase: Timebase = systemTimebase
+  ) {
     this.state = {
       roomId,
       leaderId,
       bpm,
+      meter,
       version: 0,
       status: 'open',
       peers: {}
@@ -26,7 +35,7 @@ export class RoomStateManager {
     this.state.peers[peerId] = {
       peerId,
       status: 'connecting',
-      lastSeenMs: performance.now()
+      lastSeenMs: this.timebase.now()
     };
   }
 
@@ -37,7 +46,7 @@ export class RoomStateManager {
     const peer = this.state.peers[peerId];
     if (peer) {
       peer.status = 'connected';
-      peer.lastSeenMs = performance.now();
+      peer.lastSeenMs = this.timebase.now();
     }
   }
 
@@ -56,6 +65,29 @@ export class RoomStateManager {
     this.state.version++;
   }
 
+  /**
+   * Update meter
+   */
+  setMeter(meter: Meter): void {
+    this.state.meter = meter;
+    this.state.version++;
+  }
+
+  /**
+   * Set or clear the tempo ramp running from the beat anchor
+   */
+  setRamp(ramp: TempoRamp | undefined): void {
+    this.state.ramp = ramp;
+    this.state.version++;
+  }
+
+  /**
+   * Continue the version sequence of a room taken over from another leader
+   */
+  setVersion(version: number): void {
+    this.state.version = version;
+  }
+
   /**
    * Set room status
    */
@@ -64,11 +96,13 @@ export class RoomStateManager {
   }
 
   /**
-   * Set beat anchor (timestamp + absolute beat index)
+   * Set beat anchor (timestamp + absolute beat index).
+   * Any re-anchor drops the count-in unless it is passed again.
    */
-  setBeatAnchor(timeMs: number, beatIndexAtAnchor: number): void {
+  setBeatAnchor(timeMs: number, beatIndexAtAnchor: number, countInBeats?: number): void {
     this.state.startAtLeaderMs = timeMs;
     this.state.beatIndexAtAnchor = beatIndexAtAnchor;
+    this.state.countInBeats = countInBeats;
   }
 
   /**
@@ -97,7 +131,7 @@ export class RoomStateManager {
   /**
    * Get peers that have not been seen within TTL.
    */
-  getStalePeerIds(ttlMs: number, nowMs: number = performance.now()): string[] {
+  getStalePeerIds(ttlMs: number, nowMs: number = this.timebase.now()): string[] {
     return Object.values(this.state.peers)
       .filter((peer) => peer.status === 'connected' && nowMs - peer.lastSeenMs > ttlMs)
       .map((peer) => peer.peerId);
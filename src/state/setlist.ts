@@ -0,0 +1,141 @@
+/**
+ * Setlist model
+ * Ordered songs with their own tempo, meter and optional length in bars
+ */
+
+import { Meter, Setlist, SetlistSong, generatePeerId } from '../types.js';
+import { DEFAULT_METER, isValidMeter } from '../audio/meter.js';
+
+const SETLIST_FORMAT_VERSION = 1;
+const MIN_SONG_BPM = 40;
+const MAX_SONG_BPM = 240;
+const MAX_SONG_BARS = 9999;
+const MAX_TITLE_LENGTH = 80;
+
+export const EMPTY_SETLIST: Setlist = {
+  songs: [],
+  currentIndex: 0,
+  autoAdvance: false
+};
+
+export function createSong(fields: {
+  title?: string;
+  bpm: number;
+  meter?: Meter;
+  bars?: number;
+}): SetlistSong {
+  return {
+    id: generatePeerId(),
+    title: fields.title ?? 'Untitled',
+    bpm: fields.bpm,
+    meter: fields.meter ?? DEFAULT_METER,
+    bars: fields.bars
+  };
+}
+
+/**
+ * Clamp the current index after songs were added or removed
+ */
+export function clampSetlistIndex(setlist: Setlist): Setlist {
+  const maxIndex = Math.max(0, setlist.songs.length - 1);
+  return {
+    ...setlist,
+    currentIndex: Math.max(0, Math.min(maxIndex, setlist.currentIndex))
+  };
+}
+
+export function isValidSong(value: unknown): value is SetlistSong {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+
+  const song = value as Record<string, unknown>;
+  if (typeof song.id !== 'string' || !song.id) {
+    return false;
+  }
+  if (typeof song.title !== 'string' || song.title.length > MAX_TITLE_LENGTH) {
+    return false;
+  }
+  if (
+    typeof song.bpm !== 'number' ||
+    !Number.isFinite(song.bpm) ||
+    song.bpm < MIN_SONG_BPM ||
+    song.bpm > MAX_SONG_BPM
+  ) {
+    return false;
+  }
+  if (!isValidMeter(song.meter)) {
+    return false;
+  }
+
+  return (
+    song.bars === undefined ||
+    (typeof song.bars === 'number' &&
+      Number.isInteger(song.bars) &&
+      song.bars > 0 &&
+      song.bars <= MAX_SONG_BARS)
+  );
+}
+
+export function isValidSetlist(value: unknown): value is Setlist {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+
+  const setlist = value as Record<string, unknown>;
+  return (
+    Array.isArray(setlist.songs) &&
+    setlist.songs.every(isValidSong) &&
+    typeof setlist.currentIndex === 'number' &&
+    Number.isInteger(setlist.currentIndex) &&
+    typeof setlist.autoAdvance === 'boolean'
+  );
+}
+
+/**
+ * Serialize songs for export (the current position is not part of the file)
+ */
+export function serializeSetlist(setlist: Setlist): string {
+  return JSON.stringify(
+    {
+      version: SETLIST_FORMAT_VERSION,
+      autoAdvance: setlist.autoAdvance,
+      songs: setlist.songs.map(({ title, bpm, meter, bars }) => ({ title, bpm, meter, bars }))
+    },
+    null,
+    2
+  );
+}
+
+/**
+ * Parse an exported setlist file. Songs get fresh ids so imports never collide.
+ */
+export function parseSetlist(json: string): Setlist {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error('Setlist file is not valid JSON');
+  }
+
+  if (!parsed || typeof parsed !== 'object' || !Array.isArray((parsed as Setlist).songs)) {
+    throw new Error('Setlist file has no songs');
+  }
+
+  const file = parsed as { autoAdvance?: unknown; songs: unknown[] };
+  const songs = file.songs.map((entry) => ({
+    ...(entry as object),
+    id: generatePeerId()
+  }));
+  songs.forEach((song, i) => {
+    if (!isValidSong(song)) {
+      throw new Error(`Setlist song ${i + 1} is invalid`);
+    }
+  });
+
+  return {
+    songs: songs as SetlistSong[],
+    currentIndex: 0,
+    autoAdvance: file.autoAdvance === true
+  };
+}
@@ -16,4 +16,5 @@ export type PeerState =
   | 'C_SIGNALING'
   | 'C_SYNCING'
   | 'C_RUNNING'
+  | 'C_ELECTING'
   | 'C_FAILED';
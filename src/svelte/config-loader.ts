@@ -1,6 +1,7 @@
 // @ts-nocheck
 import {
   ABLY_CONFIG,
+  CLOCK_SYNC_MODE,
   ICE_CONFIG,
   SIGNALING_BACKEND,
   SUPABASE_CONFIG,
@@ -8,16 +9,19 @@ import {
 } from '../../config.js';
 import { TransportMode } from '../realtime/runtime.js';
 import { SignalingOptions } from '../signaling/factory.js';
+import { ClockSyncMode } from '../sync/clock.js';
 
 export interface LoadedConfig {
   iceConfig: typeof ICE_CONFIG;
   transportMode: TransportMode;
+  clockSyncMode: ClockSyncMode;
   signaling: SignalingOptions;
   appVersion: string;
 }
 
 type LocalConfig = {
   TRANSPORT_MODE?: TransportMode;
+  CLOCK_SYNC_MODE?: ClockSyncMode;
   SIGNALING_BACKEND?: SignalingOptions['backend'];
   SUPABASE_CONFIG?: typeof SUPABASE_CONFIG;
   ABLY_CONFIG?: typeof ABLY_CONFIG;
@@ -73,6 +77,7 @@ export async function loadRuntimeConfig(): Promise<LoadedConfig> {
   return {
     iceConfig: ICE_CONFIG,
     transportMode: localOverrides.TRANSPORT_MODE ?? TRANSPORT_MODE,
+    clockSyncMode: localOverrides.CLOCK_SYNC_MODE ?? CLOCK_SYNC_MODE,
     signaling: {
       backend,
       supabase: {
@@ -10,5 +10,6 @@ declare module '../../config.js' {
   };
   export const ICE_CONFIG: RTCConfiguration;
   export const TRANSPORT_MODE: 'webrtc' | 'pubsub';
+  export const CLOCK_SYNC_MODE: 'leader' | 'peer';
   export const SIGNALING_BACKEND: 'mock' | 'supabase' | 'ably';
 }
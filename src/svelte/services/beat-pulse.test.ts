@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { isValidPulseSettings, vibrationPattern } from './beat-pulse.js';
+import type { GridBeat } from '../../audio/metronome.js';
+
+function beat(timeMs: number, accent: GridBeat['accent'] = 'weak'): GridBeat {
+  return { beatIndex: 0, timeMs, accent, beatInBar: 0, isCountIn: false };
+}
+
+describe('vibrationPattern', () => {
+  it('waits for the first beat, then alternates buzzes and pauses', () => {
+    expect(vibrationPattern([beat(1100, 'strong'), beat(1400)], 1000)).toEqual([
+      0, 100, 70, 230, 25
+    ]);
+  });
+
+  it('continues a buzz that is already under way', () => {
+    expect(vibrationPattern([beat(990, 'strong'), beat(1300)], 1000)).toEqual([60, 240, 25]);
+  });
+
+  it('skips muted beats and beats swallowed by a longer buzz', () => {
+    expect(vibrationPattern([beat(1000, 'strong'), beat(1040), beat(1050, 'mute')], 1000)).toEqual([
+      70
+    ]);
+  });
+});
+
+describe('isValidPulseSettings', () => {
+  it('accepts known flash modes only', () => {
+    expect(isValidPulseSettings({ vibrate: true, flash: 'torch' })).toBe(true);
+    expect(isValidPulseSettings({ vibrate: true, flash: 'strobe' })).toBe(false);
+    expect(isValidPulseSettings({ flash: 'off' })).toBe(false);
+  });
+});
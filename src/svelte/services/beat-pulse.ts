@@ -0,0 +1,269 @@
+import { beatVoice } from '../../audio/click-generator.js';
+import type { KitVoice } from '../../audio/sound-kits.js';
+import type { BeatPulse, GridBeat } from '../../audio/metronome.js';
+import { Timebase, systemTimebase } from '../../sync/timebase.js';
+
+/**
+ * Silent pulse for the beat: vibration on phones and a full-screen flash (or the
+ * camera torch) for stage use. The metronome hands over each beat when it is
+ * scheduled, ahead of time:
+ * - vibration is one navigator.vibrate() pattern covering every queued beat, with
+ *   the pauses before each buzz timed by the vibration motor itself
+ * - flashes fire on the animation frame nearest the beat
+ */
+
+export type FlashMode = 'off' | 'screen' | 'torch';
+
+export interface PulseSettings {
+  vibrate: boolean;
+  flash: FlashMode;
+}
+
+export const FLASH_MODE_OPTIONS: Array<{ value: FlashMode; label: string }> = [
+  { value: 'off', label: 'Off' },
+  { value: 'screen', label: 'Full-screen flash' },
+  { value: 'torch', label: 'Torch' }
+];
+
+export const DEFAULT_PULSE_SETTINGS: PulseSettings = {
+  vibrate: false,
+  flash: 'off'
+};
+
+// Buzz length per voice; subdivisions never buzz
+const VIBRATION_MS: Partial<Record<KitVoice, number>> = {
+  strong: 70,
+  medium: 45,
+  weak: 25,
+  countIn: 45
+};
+const MAX_VIBRATION_MS = 70;
+const FLASH_MS = 90;
+const FRAME_LEAD_MS = 8; // Half a 60 Hz frame: flash on the frame nearest the beat
+const FLASH_CLASSES = ['on', 'downbeat', 'accent', 'count-in', 'bright'];
+
+export function isValidPulseSettings(value: unknown): value is PulseSettings {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+
+  const { vibrate, flash } = value as Record<string, unknown>;
+  return (
+    typeof vibrate === 'boolean' && FLASH_MODE_OPTIONS.some((option) => option.value === flash)
+  );
+}
+
+export function canVibrate(): boolean {
+  return typeof navigator !== 'undefined' && typeof navigator.vibrate === 'function';
+}
+
+function vibrationMs(beat: GridBeat): number {
+  const voice = beatVoice(beat.accent, beat.isCountIn);
+  return voice ? (VIBRATION_MS[voice] ?? 0) : 0;
+}
+
+/**
+ * navigator.vibrate() pattern (buzz, pause, buzz, ...) for beats sorted by time,
+ * starting at nowMs. A buzz already under way continues for its remaining length.
+ */
+export function vibrationPattern(beats: GridBeat[], nowMs: number): number[] {
+  const pattern: number[] = [];
+  let cursorMs = nowMs; // End of the pattern so far
+  for (const beat of beats) {
+    const startMs = Math.max(beat.timeMs, cursorMs);
+    const endMs = beat.timeMs + vibrationMs(beat);
+    if (endMs <= startMs) {
+      continue;
+    }
+
+    if (pattern.length > 0) {
+      pattern.push(Math.round(startMs - cursorMs));
+    } else if (startMs > cursorMs) {
+      // Patterns start with a buzz: a zero-length one, then the wait
+      pattern.push(0, Math.round(startMs - cursorMs));
+    }
+    pattern.push(Math.round(endMs - startMs));
+    cursorMs = endMs;
+  }
+  return pattern;
+}
+
+/**
+ * Rear camera torch, where the browser exposes it (Chrome on Android)
+ */
+class Torch {
+  private track: MediaStreamTrack | null = null;
+
+  async enable(): Promise<boolean> {
+    if (this.track) {
+      return true;
+    }
+    if (!navigator.mediaDevices?.getUserMedia) {
+      return false;
+    }
+
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({
+        video: { facingMode: 'environment' }
+      });
+      const [track] = stream.getVideoTracks();
+      const capabilities = track?.getCapabilities?.() as { torch?: boolean } | undefined;
+      if (!capabilities?.torch) {
+        stream.getTracks().forEach((t) => t.stop());
+        return false;
+      }
+      this.track = track;
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  set(on: boolean): void {
+    void this.track
+      ?.applyConstraints({ advanced: [{ torch: on } as MediaTrackConstraintSet] })
+      .catch(() => undefined);
+  }
+
+  release(): void {
+    this.track?.stop();
+    this.track = null;
+  }
+}
+
+export class BeatPulseScheduler implements BeatPulse {
+  private settings: PulseSettings = DEFAULT_PULSE_SETTINGS;
+  private pendingFlashes: GridBeat[] = [];
+  private vibrationBeats: GridBeat[] = [];
+  private frameId: number | null = null;
+  private flashOffTimeoutId: number | null = null;
+  private torch = new Torch();
+  private torchReady = false;
+
+  constructor(
+    private readonly getFlashNode: () => HTMLElement | null,
+    private readonly timebase: Timebase = systemTimebase
+  ) {}
+
+  /**
+   * Apply settings; resolves to false when the torch is unavailable (the screen
+   * then pulses white instead). Without acquireTorch the camera is left alone until
+   * a later call made from a user action.
+   */
+  async setSettings(settings: PulseSettings, acquireTorch = true): Promise<boolean> {
+    this.settings = settings;
+    if (!settings.vibrate) {
+      this.vibrationBeats = [];
+      this.vibrate();
+    }
+    if (settings.flash === 'off') {
+      this.pendingFlashes = [];
+    }
+
+    if (settings.flash !== 'torch') {
+      this.torch.release();
+      this.torchReady = false;
+      return true;
+    }
+    if (!acquireTorch && !this.torchReady) {
+      return true;
+    }
+    this.torchReady = await this.torch.enable();
+    return this.torchReady;
+  }
+
+  queue(beat: GridBeat): void {
+    if (!vibrationMs(beat)) {
+      return; // Muted beat
+    }
+
+    if (this.settings.flash !== 'off') {
+      this.pendingFlashes.push(beat);
+      this.requestFrame();
+    }
+    if (this.settings.vibrate && canVibrate()) {
+      this.vibrationBeats.push(beat);
+      this.vibrate();
+    }
+  }
+
+  cancelFrom(timeMs: number): void {
+    this.pendingFlashes = this.pendingFlashes.filter((beat) => beat.timeMs < timeMs);
+    const queuedVibrations = this.vibrationBeats.length;
+    this.vibrationBeats = this.vibrationBeats.filter((beat) => beat.timeMs < timeMs);
+    if (this.vibrationBeats.length !== queuedVibrations) {
+      this.vibrate();
+    }
+  }
+
+  private vibrate(): void {
+    if (!canVibrate()) {
+      return;
+    }
+
+    // A new pattern replaces the running one, so it covers every beat still to buzz
+    const nowMs = this.timebase.now();
+    this.vibrationBeats = this.vibrationBeats
+      .filter((beat) => beat.timeMs + MAX_VIBRATION_MS > nowMs)
+      .sort((a, b) => a.timeMs - b.timeMs);
+    const pattern = vibrationPattern(this.vibrationBeats, nowMs);
+    navigator.vibrate(pattern.length > 0 ? pattern : 0);
+  }
+
+  private requestFrame(): void {
+    if (this.frameId === null) {
+      this.frameId = requestAnimationFrame(this.onFrame);
+    }
+  }
+
+  private onFrame = (): void => {
+    this.frameId = null;
+    const nowMs = this.timebase.now();
+    const due = this.pendingFlashes.filter((beat) => beat.timeMs <= nowMs + FRAME_LEAD_MS);
+    if (due.length > 0) {
+      this.pendingFlashes = this.pendingFlashes.filter((beat) => !due.includes(beat));
+      // After a stall (hidden tab), only the latest beat is still worth a flash
+      const latest = due[due.length - 1];
+      if (nowMs - latest.timeMs < FLASH_MS) {
+        this.flash(latest);
+      }
+    }
+
+    if (this.pendingFlashes.length > 0) {
+      this.requestFrame();
+    }
+  };
+
+  private flash(beat: GridBeat): void {
+    const node = this.getFlashNode();
+    const useTorch = this.settings.flash === 'torch' && this.torchReady;
+    if (useTorch) {
+      this.torch.set(true);
+    } else if (node) {
+      node.classList.remove(...FLASH_CLASSES);
+      void node.offsetWidth;
+      node.classList.add('on');
+      if (this.settings.flash === 'torch') {
+        // No torch: pulse the whole screen at full brightness instead
+        node.classList.add('bright');
+      } else if (beat.isCountIn) {
+        node.classList.add('count-in');
+      } else if (beat.accent === 'strong') {
+        node.classList.add('downbeat');
+      } else if (beat.accent === 'medium') {
+        node.classList.add('accent');
+      }
+    }
+
+    if (this.flashOffTimeoutId !== null) {
+      this.timebase.clearTimeout(this.flashOffTimeoutId);
+    }
+    this.flashOffTimeoutId = this.timebase.setTimeout(() => {
+      this.flashOffTimeoutId = null;
+      if (useTorch) {
+        this.torch.set(false);
+      }
+      node?.classList.remove(...FLASH_CLASSES);
+    }, FLASH_MS);
+  }
+}
@@ -1,8 +1,37 @@
-export function flashBeat(node: HTMLElement, isDownbeat: boolean): void {
-  node.classList.remove('flash', 'downbeat');
+import type { AccentLevel } from '../../types.js';
+
+export const BEAT_VISUAL_CLASSES = ['flash', 'downbeat', 'accent', 'muted', 'count-in'];
+
+/**
+ * Pulse the beat circle. countIn is the spoken count ("1", "2", …) for count-in beats.
+ */
+export function flashBeat(
+  node: HTMLElement,
+  isDownbeat: boolean,
+  accent: AccentLevel,
+  countIn: number | null = null
+): void {
+  node.classList.remove(...BEAT_VISUAL_CLASSES);
   void node.offsetWidth;
   node.classList.add('flash');
+  if (countIn !== null) {
+    node.classList.add('count-in');
+    node.dataset.count = String(countIn);
+    return;
+  }
+
+  delete node.dataset.count;
   if (isDownbeat) {
     node.classList.add('downbeat');
+  } else if (accent === 'medium') {
+    node.classList.add('accent');
+  }
+  if (accent === 'mute') {
+    node.classList.add('muted');
   }
 }
+
+export function resetBeatVisual(node: HTMLElement): void {
+  node.classList.remove(...BEAT_VISUAL_CLASSES);
+  delete node.dataset.count;
+}
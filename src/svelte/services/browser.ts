@@ -1,5 +1,26 @@
-import { HOST_ROOM_STORAGE_KEY, HOST_SESSION_STORAGE_KEY } from '../state/constants.js';
+import {
+  DEVICE_SETTINGS_STORAGE_KEY,
+  HOST_ROOM_STORAGE_KEY,
+  HOST_SESSION_STORAGE_KEY,
+  SETLIST_STORAGE_KEY,
+  SOUND_SAMPLE_STORAGE_KEY
+} from '../state/constants.js';
 import { sanitizeCode } from '../state/runtime-ops.js';
+import { DEFAULT_DEVICE_SETTINGS } from '../state/device.js';
+import type { DeviceSettings } from '../state/device.js';
+import { isValidMeter } from '../../audio/meter.js';
+import { isValidSubdivision } from '../../audio/subdivision.js';
+import { isValidLatencyOffset } from '../../audio/latency-offset.js';
+import { isValidSoundKit } from '../../audio/sound-kits.js';
+import { isValidMixer } from '../../audio/mixer.js';
+import { isValidRouting } from '../../audio/routing.js';
+import { isValidPulseSettings } from './beat-pulse.js';
+import { isValidMidiSettings } from '../../audio/midi-clock.js';
+import type { SoundSample } from '../../audio/sound-kits.js';
+import { decodeSoundSample, encodeSoundSample } from '../../audio/sound-sample.js';
+import { isValidTempoRamp } from '../../audio/tempo-ramp.js';
+import { EMPTY_SETLIST, clampSetlistIndex, isValidSetlist } from '../../state/setlist.js';
+import type { Meter, Setlist, TempoRamp } from '../../types.js';
 
 declare const QRCode: {
   new (
@@ -40,9 +61,14 @@ export function persistHostRoomCode(code: string | null): void {
 export interface PersistedHostSession {
   roomId: string;
   bpm: number;
+  meter?: Meter;
   running: boolean;
   anchorEpochMs?: number;
   beatIndexAtAnchor?: number;
+  ramp?: TempoRamp;
+  countInBeats?: number; // Count-in of the running grid (countInBars is the next start's)
+  countInBars?: number;
+  allowPeerControl?: boolean;
 }
 
 function isValidPersistedHostSession(value: unknown): value is PersistedHostSession {
@@ -57,6 +83,9 @@ function isValidPersistedHostSession(value: unknown): value is PersistedHostSess
   if (typeof session.bpm !== 'number' || !Number.isFinite(session.bpm)) {
     return false;
   }
+  if (session.meter !== undefined && !isValidMeter(session.meter)) {
+    return false;
+  }
   if (typeof session.running !== 'boolean') {
     return false;
   }
@@ -72,6 +101,26 @@ function isValidPersistedHostSession(value: unknown): value is PersistedHostSess
   ) {
     return false;
   }
+  if (session.ramp !== undefined && !isValidTempoRamp(session.ramp)) {
+    return false;
+  }
+  if (
+    session.countInBeats !== undefined &&
+    (typeof session.countInBeats !== 'number' ||
+      !Number.isInteger(session.countInBeats) ||
+      session.countInBeats < 0)
+  ) {
+    return false;
+  }
+  if (
+    session.countInBars !== undefined &&
+    (typeof session.countInBars !== 'number' || !Number.isInteger(session.countInBars))
+  ) {
+    return false;
+  }
+  if (session.allowPeerControl !== undefined && typeof session.allowPeerControl !== 'boolean') {
+    return false;
+  }
 
   return true;
 }
@@ -97,9 +146,14 @@ export function loadPersistedHostSession(roomId: string): PersistedHostSession |
     return {
       roomId: normalizedRoomId,
       bpm: parsed.bpm,
+      meter: parsed.meter,
       running: parsed.running,
       anchorEpochMs: parsed.anchorEpochMs,
-      beatIndexAtAnchor: parsed.beatIndexAtAnchor
+      beatIndexAtAnchor: parsed.beatIndexAtAnchor,
+      ramp: parsed.ramp,
+      countInBeats: parsed.countInBeats,
+      countInBars: parsed.countInBars,
+      allowPeerControl: parsed.allowPeerControl
     };
   } catch {
     localStorage.removeItem(HOST_SESSION_STORAGE_KEY);
@@ -111,6 +165,108 @@ export function persistHostSession(session: PersistedHostSession): void {
   localStorage.setItem(HOST_SESSION_STORAGE_KEY, JSON.stringify(session));
 }
 
+export function loadSetlist(): Setlist {
+  const raw = localStorage.getItem(SETLIST_STORAGE_KEY);
+  if (!raw) {
+    return EMPTY_SETLIST;
+  }
+
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    if (!isValidSetlist(parsed)) {
+      localStorage.removeItem(SETLIST_STORAGE_KEY);
+      return EMPTY_SETLIST;
+    }
+    return clampSetlistIndex(parsed);
+  } catch {
+    localStorage.removeItem(SETLIST_STORAGE_KEY);
+    return EMPTY_SETLIST;
+  }
+}
+
+export function persistSetlist(setlist: Setlist): void {
+  localStorage.setItem(SETLIST_STORAGE_KEY, JSON.stringify(setlist));
+}
+
+export function downloadTextFile(filename: string, text: string, type = 'application/json'): void {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  window.setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+/**
+ * Load this device's settings; unknown or invalid fields fall back to defaults.
+ */
+export function loadDeviceSettings(): DeviceSettings {
+  const raw = localStorage.getItem(DEVICE_SETTINGS_STORAGE_KEY);
+  if (!raw) {
+    return { ...DEFAULT_DEVICE_SETTINGS };
+  }
+
+  try {
+    const parsed = JSON.parse(raw) as Record<string, unknown> | null;
+    if (!parsed || typeof parsed !== 'object') {
+      localStorage.removeItem(DEVICE_SETTINGS_STORAGE_KEY);
+      return { ...DEFAULT_DEVICE_SETTINGS };
+    }
+
+    return {
+      subdivision: isValidSubdivision(parsed.subdivision)
+        ? parsed.subdivision
+        : DEFAULT_DEVICE_SETTINGS.subdivision,
+      latencyOffsetMs: isValidLatencyOffset(parsed.latencyOffsetMs)
+        ? parsed.latencyOffsetMs
+        : DEFAULT_DEVICE_SETTINGS.latencyOffsetMs,
+      soundKit: isValidSoundKit(parsed.soundKit)
+        ? parsed.soundKit
+        : DEFAULT_DEVICE_SETTINGS.soundKit,
+      mixer: isValidMixer(parsed.mixer) ? parsed.mixer : DEFAULT_DEVICE_SETTINGS.mixer,
+      routing: isValidRouting(parsed.routing) ? parsed.routing : DEFAULT_DEVICE_SETTINGS.routing,
+      outputDeviceId:
+        typeof parsed.outputDeviceId === 'string'
+          ? parsed.outputDeviceId
+          : DEFAULT_DEVICE_SETTINGS.outputDeviceId,
+      pulse: isValidPulseSettings(parsed.pulse) ? parsed.pulse : DEFAULT_DEVICE_SETTINGS.pulse,
+      midi: isValidMidiSettings(parsed.midi) ? parsed.midi : DEFAULT_DEVICE_SETTINGS.midi
+    };
+  } catch {
+    localStorage.removeItem(DEVICE_SETTINGS_STORAGE_KEY);
+    return { ...DEFAULT_DEVICE_SETTINGS };
+  }
+}
+
+export function persistDeviceSettings(settings: DeviceSettings): void {
+  localStorage.setItem(DEVICE_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+}
+
+export function loadStoredSoundSample(): SoundSample | null {
+  const raw = localStorage.getItem(SOUND_SAMPLE_STORAGE_KEY);
+  if (!raw) {
+    return null;
+  }
+
+  const sample = decodeSoundSample(raw);
+  if (!sample) {
+    localStorage.removeItem(SOUND_SAMPLE_STORAGE_KEY);
+  }
+  return sample;
+}
+
+/**
+ * Keep the uploaded sample on this device; false if storage is full
+ */
+export function persistSoundSample(sample: SoundSample): boolean {
+  try {
+    localStorage.setItem(SOUND_SAMPLE_STORAGE_KEY, encodeSoundSample(sample));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
 export function readSharedRoomCodeFromUrl(): string | null {
   const code = new URLSearchParams(window.location.search).get('room');
   if (!code) {
@@ -0,0 +1,53 @@
+/**
+ * Web MIDI access for the MIDI clock output (Chrome, Edge, Firefox; asks for permission)
+ */
+
+export interface MidiOutputPort {
+  id: string;
+  name: string;
+}
+
+let access: Promise<MIDIAccess> | null = null;
+
+export function supportsMidi(): boolean {
+  return typeof navigator !== 'undefined' && typeof navigator.requestMIDIAccess === 'function';
+}
+
+function requestAccess(): Promise<MIDIAccess> {
+  if (!supportsMidi()) {
+    return Promise.reject(new Error('This browser has no Web MIDI.'));
+  }
+
+  access ??= navigator.requestMIDIAccess().catch((error: unknown) => {
+    access = null; // Ask again next time
+    throw error instanceof DOMException && error.name === 'SecurityError'
+      ? new Error('MIDI access was not allowed.')
+      : error;
+  });
+  return access;
+}
+
+export async function listMidiOutputs(): Promise<MidiOutputPort[]> {
+  const midi = await requestAccess();
+  return [...midi.outputs.values()].map((output, index) => ({
+    id: output.id,
+    name: output.name || `MIDI output ${index + 1}`
+  }));
+}
+
+/**
+ * Connected output by id, or null when it is unplugged
+ */
+export async function getMidiOutput(id: string): Promise<MIDIOutput | null> {
+  const output = (await requestAccess()).outputs.get(id);
+  return output && output.state === 'connected' ? output : null;
+}
+
+/**
+ * Call listener when ports are plugged in or out; returns a function to stop
+ */
+export async function watchMidiOutputs(listener: () => void): Promise<() => void> {
+  const midi = await requestAccess();
+  midi.addEventListener('statechange', listener);
+  return () => midi.removeEventListener('statechange', listener);
+}
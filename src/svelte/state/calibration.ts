@@ -0,0 +1,32 @@
+import { writable } from 'svelte/store';
+
+/**
+ * Microphone calibration on this device (never replicated to the room)
+ */
+export interface CalibrationState {
+  busy: boolean; // A measurement is listening
+  status: string; // Outcome of the last speaker delay calibration
+  hostPhaseStatus: string; // Outcome of the last "listen to host" measurement
+}
+
+const initialCalibrationState: CalibrationState = {
+  busy: false,
+  status: '',
+  hostPhaseStatus: ''
+};
+
+const { subscribe, update } = writable<CalibrationState>(initialCalibrationState);
+
+export const calibrationState = { subscribe };
+
+export function setCalibrationBusy(busy: boolean): void {
+  update((state) => ({ ...state, busy }));
+}
+
+export function setCalibrationStatus(status: string): void {
+  update((state) => ({ ...state, status }));
+}
+
+export function setHostPhaseStatus(hostPhaseStatus: string): void {
+  update((state) => ({ ...state, hostPhaseStatus }));
+}
@@ -2,6 +2,15 @@ export const MIN_BPM = 40;
 export const MAX_BPM = 240;
 export const HOST_ROOM_STORAGE_KEY = 'pulse_link_host_room_code';
 export const HOST_SESSION_STORAGE_KEY = 'pulse_link_host_session_v1';
+export const SETLIST_STORAGE_KEY = 'pulse_link_setlist_v1';
+export const DEVICE_SETTINGS_STORAGE_KEY = 'pulse_link_device_settings_v1';
+export const SOUND_SAMPLE_STORAGE_KEY = 'pulse_link_sound_sample_v1';
 export const BPM_UPDATE_DEBOUNCE_MS = 100;
+export const COUNT_IN_OPTIONS = [0, 1, 2];
+// Host peer sync panel grades
+export const SYNC_GOOD_PHASE_ERROR_MS = 3;
+export const SYNC_POOR_PHASE_ERROR_MS = 10;
+export const SYNC_GOOD_JITTER_MS = 15;
+export const SYNC_SILENT_AFTER_MS = 3000;
 
 export type Mode = 'host' | 'join';
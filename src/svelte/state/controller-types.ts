@@ -1,13 +1,28 @@
-import type { LeaderStateMachine } from '../../state/leader-machine.js';
-import type { PeerStateMachine } from '../../state/peer-machine.js';
+import type {
+  LeaderStateMachine,
+  PeerSyncStats,
+  PendingControlRequest
+} from '../../state/leader-machine.js';
+import type { PeerStateMachine, PeerSyncDiagnostics } from '../../state/peer-machine.js';
 import type { Mode } from './constants.js';
 import type { PersistedHostSession } from '../services/browser.js';
+import type { DeviceSettings } from './device.js';
+import type { Meter, Setlist } from '../../types.js';
+import type { BeatPulse } from '../../audio/metronome.js';
+import type { MidiClock } from '../../audio/midi-clock.js';
 
 export type BackendState = 'idle' | 'connecting' | 'ok' | 'error';
 
 export interface ControllerCallbacks {
   getActiveTab(): Mode;
+  setActiveTab(tab: Mode): void;
   getCurrentBpm(): number;
+  getCurrentMeter(): Meter;
+  getCountInBars(): number;
+  getAllowPeerControl(): boolean;
+  getDeviceSettings(): DeviceSettings;
+  getSetlist(): Setlist;
+  setSetlistIndex(index: number): void;
 
   getLeader(): LeaderStateMachine | null;
   setLeader(leader: LeaderStateMachine | null): void;
@@ -16,11 +31,24 @@ export interface ControllerCallbacks {
   setPeer(peer: PeerStateMachine | null): void;
 
   setHostRunning(running: boolean): void;
+  setHostBpm(bpm: number): void;
+  setHostMeter(meter: Meter): void;
+  setHostCountIn(countInBars: number): void;
+  setHostCountdown(countdownSeconds: number | null): void;
+  setHostAllowPeerControl(allow: boolean): void;
+  setHostControlRequests(requests: PendingControlRequest[]): void;
+  setHostLiveBpm(liveBpm: number | null): void;
   setHostPendingResume(hasPendingResume: boolean): void;
   setHostPeerCount(peerCount: number): void;
+  setHostPeerIds(peerIds: string[]): void;
+  setHostPeerSyncStats(stats: PeerSyncStats[]): void;
   setJoinStatus(status: string): void;
   setJoinLiveStatus(status: string): void;
   setJoinBpm(bpm: number): void;
+  setJoinMeter(meter: Meter): void;
+  setJoinCountdown(countdownSeconds: number | null): void;
+  showJoinControlNotice(text: string): void;
+  setJoinDiagnostics(diagnostics: PeerSyncDiagnostics | null): void;
 
   setJoinInProgress(inProgress: boolean): void;
   setJoinInputDisabled(disabled: boolean): void;
@@ -33,6 +61,7 @@ export interface ControllerCallbacks {
   setHostRoomCode(code: string | null): void;
   showHostTemporaryStatus(text: string): void;
   applyHostBpm(value: number): void;
+  applyHostMeter(meter: Meter): void;
   errorText(error: unknown): string;
 
   showJoinEntry(): void;
@@ -41,6 +70,8 @@ export interface ControllerCallbacks {
 
   getHostBeatEl(): HTMLDivElement | null;
   getJoinBeatEl(): HTMLDivElement | null;
+  getBeatPulse(): BeatPulse;
+  getMidiClock(): MidiClock;
 
   focusJoinInput(): void;
 }
@@ -1,4 +1,5 @@
 import type { TransportRuntime } from '../../realtime/runtime.js';
+import type { ControlAction, TempoRamp } from '../../types.js';
 import { HostController } from './host-controller.js';
 import { JoinController } from './join-controller.js';
 import { TimerLifecycle } from './timer-lifecycle.js';
@@ -10,9 +11,27 @@ export class AppWorkflowController {
   private readonly hostController: HostController;
   private readonly joinController: JoinController;
 
-  constructor(transportRuntime: TransportRuntime, cb: ControllerCallbacks) {
+  constructor(
+    transportRuntime: TransportRuntime,
+    private readonly cb: ControllerCallbacks
+  ) {
     this.hostController = new HostController(transportRuntime, cb, this.timers);
     this.joinController = new JoinController(transportRuntime, cb, this.timers);
+    this.joinController.onPromoted((takeover) => {
+      this.cb.setActiveTab('host');
+      this.hostController.adoptHostRoom(takeover).catch((error) => {
+        console.error(error);
+        this.cb.setBackendStatus('error', this.cb.errorText(error));
+      });
+    });
+    // Another device leads this room too and kept it: continue here as its peer.
+    this.hostController.onStepDown((roomId) => {
+      this.cb.setActiveTab('join');
+      this.joinController.joinRoom(roomId).catch((error) => {
+        console.error(error);
+        this.cb.setBackendStatus('error', this.cb.errorText(error));
+      });
+    });
   }
 
   onBpmPointerDown(delta: number, event: PointerEvent): void {
@@ -65,10 +84,47 @@ export class AppWorkflowController {
     await this.joinController.joinRoom(roomId);
   }
 
+  /**
+   * Make a peer the host and continue in this room as a peer
+   */
+  async handOffHost(successorId: string): Promise<void> {
+    const roomId = await this.hostController.handOffHost(successorId);
+    if (!roomId) {
+      return;
+    }
+
+    this.cb.setActiveTab('join');
+    await this.joinController.joinRoom(roomId);
+  }
+
   startHostMetronome(): void {
     this.hostController.startHostMetronome();
   }
 
+  scheduleHostStart(startAtEpochMs: number): void {
+    this.hostController.scheduleHostStart(startAtEpochMs);
+  }
+
+  startHostRamp(target: Omit<TempoRamp, 'startBpm'>): void {
+    this.hostController.startHostRamp(target);
+  }
+
+  selectSong(index: number): void {
+    this.hostController.selectSong(index);
+  }
+
+  resolveControlRequest(peerId: string, requestId: string, approved: boolean): void {
+    this.hostController.resolveControlRequest(peerId, requestId, approved);
+  }
+
+  setAllowPeerControl(allow: boolean): void {
+    this.hostController.setAllowPeerControl(allow);
+  }
+
+  requestPeerControl(action: ControlAction, bpm?: number): void {
+    this.joinController.requestControl(action, bpm);
+  }
+
   stopHostMetronome(): void {
     this.hostController.stopHostMetronome();
   }
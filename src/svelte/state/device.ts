@@ -0,0 +1,77 @@
+import { writable } from 'svelte/store';
+import type { Subdivision } from '../../audio/subdivision.js';
+import { DEFAULT_SOUND_KIT } from '../../audio/sound-kits.js';
+import type { SoundKitId } from '../../audio/sound-kits.js';
+import { DEFAULT_MIXER } from '../../audio/mixer.js';
+import type { MixerSettings } from '../../audio/mixer.js';
+import { DEFAULT_ROUTING } from '../../audio/routing.js';
+import type { RoutingSettings } from '../../audio/routing.js';
+import { DEFAULT_PULSE_SETTINGS } from '../services/beat-pulse.js';
+import type { PulseSettings } from '../services/beat-pulse.js';
+import { DEFAULT_MIDI_SETTINGS } from '../../audio/midi-clock.js';
+import type { MidiSettings } from '../../audio/midi-clock.js';
+
+/**
+ * Settings that belong to this device only (never replicated to the room)
+ */
+export interface DeviceSettings {
+  subdivision: Subdivision;
+  latencyOffsetMs: number; // Speaker delay compensated on top of the reported output latency
+  soundKit: SoundKitId;
+  mixer: MixerSettings;
+  routing: RoutingSettings;
+  outputDeviceId: string; // '' = system default
+  pulse: PulseSettings; // Vibration and flash, alongside or instead of the click
+  midi: MidiSettings; // MIDI clock port and its delay
+}
+
+export const DEFAULT_DEVICE_SETTINGS: DeviceSettings = {
+  subdivision: 1,
+  latencyOffsetMs: 0,
+  soundKit: DEFAULT_SOUND_KIT,
+  mixer: DEFAULT_MIXER,
+  routing: DEFAULT_ROUTING,
+  outputDeviceId: '',
+  pulse: DEFAULT_PULSE_SETTINGS,
+  midi: DEFAULT_MIDI_SETTINGS
+};
+
+const { subscribe, update } = writable<DeviceSettings>(DEFAULT_DEVICE_SETTINGS);
+
+export const deviceState = { subscribe };
+
+export function setDeviceSettings(settings: DeviceSettings): void {
+  update(() => ({ ...settings }));
+}
+
+export function setDeviceSubdivision(subdivision: Subdivision): void {
+  update((state) => ({ ...state, subdivision }));
+}
+
+export function setDeviceLatencyOffset(latencyOffsetMs: number): void {
+  update((state) => ({ ...state, latencyOffsetMs }));
+}
+
+export function setDeviceSoundKit(soundKit: SoundKitId): void {
+  update((state) => ({ ...state, soundKit }));
+}
+
+export function setDeviceMixer(mixer: MixerSettings): void {
+  update((state) => ({ ...state, mixer }));
+}
+
+export function setDeviceRouting(routing: RoutingSettings): void {
+  update((state) => ({ ...state, routing }));
+}
+
+export function setDeviceOutput(outputDeviceId: string): void {
+  update((state) => ({ ...state, outputDeviceId }));
+}
+
+export function setDevicePulse(pulse: PulseSettings): void {
+  update((state) => ({ ...state, pulse }));
+}
+
+export function setDeviceMidi(midi: MidiSettings): void {
+  update((state) => ({ ...state, midi }));
+}
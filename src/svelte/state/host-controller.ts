@@ -1,12 +1,40 @@
 import { LeaderStateMachine } from '../../state/leader-machine.js';
 import { generatePeerId } from '../../types.js';
-import { flashBeat } from '../services/beat-visual.js';
+import type { ControlResultPayload, LeaderHandoffPayload, Meter, TempoRamp } from '../../types.js';
+import type { Metronome } from '../../audio/metronome.js';
+import type { Unsubscribe } from '../../audio/metronome-events.js';
+import { DEFAULT_METER } from '../../audio/meter.js';
+import { flashBeat, resetBeatVisual } from '../services/beat-visual.js';
 import type { TransportRuntime } from '../../realtime/runtime.js';
 import type { ControllerCallbacks } from './controller-types.js';
 import { TimerLifecycle } from './timer-lifecycle.js';
+import { describeControlResult } from './runtime-ops.js';
+
+// Auto-advance is committed this long before the song's last bar ends.
+const SONG_ADVANCE_LOOKAHEAD_MS = 1000;
+
+/**
+ * Everything a former peer needs to continue a room as its leader
+ */
+export interface HostTakeover {
+  roomId: string;
+  leaderId: string;
+  handoff: LeaderHandoffPayload;
+  offsetMs: number;
+  metronome: Metronome;
+}
+
+interface PendingResume {
+  anchorEpochMs: number;
+  beatIndexAtAnchor: number;
+  ramp?: TempoRamp;
+  countInBeats?: number;
+}
 
 export class HostController {
-  private pendingResume: { anchorEpochMs: number; beatIndexAtAnchor: number } | null = null;
+  private pendingResume: PendingResume | null = null;
+  private onStepDownCallback: ((roomId: string) => void) | null = null;
+  private detachMetronome: Unsubscribe | null = null; // Beat visual, pulse and MIDI clock
 
   constructor(
     private readonly transportRuntime: TransportRuntime,
@@ -17,12 +45,105 @@ export class HostController {
   private refreshHostStatus(): void {
     const leader = this.cb.getLeader();
     this.cb.setHostPeerCount(leader ? leader.getPeerCount() : 0);
+    this.cb.setHostPeerIds(leader ? leader.getPeerIds() : []);
+    this.cb.setHostPeerSyncStats(leader ? leader.getPeerSyncStats() : []);
+    const metronome = leader?.getMetronome();
+    this.cb.setHostLiveBpm(metronome?.isRamping() ? Math.round(metronome.getCurrentTempo()) : null);
+    const countdownMs = leader?.getStartCountdownMs() ?? null;
+    this.cb.setHostCountdown(countdownMs === null ? null : Math.ceil(countdownMs / 1000));
+    if (leader) {
+      this.maybeAutoAdvanceSong(leader);
+    }
+    this.persistHostSession();
+  }
+
+  /**
+   * Queue the next song on the bar where the current song ends.
+   */
+  private maybeAutoAdvanceSong(leader: LeaderStateMachine): void {
+    const setlist = this.cb.getSetlist();
+    if (!setlist.autoAdvance || !leader.isRunning()) {
+      return;
+    }
+
+    const song = setlist.songs[setlist.currentIndex];
+    if (!song || song.bars === undefined || setlist.currentIndex + 1 >= setlist.songs.length) {
+      return;
+    }
+
+    const endBeatIndex = leader.getSongEndBeatIndex(song.bars);
+    const msUntilEnd = leader.getMsUntilBeat(endBeatIndex);
+    if (msUntilEnd !== null && msUntilEnd <= SONG_ADVANCE_LOOKAHEAD_MS) {
+      this.selectSong(setlist.currentIndex + 1, endBeatIndex);
+    }
+  }
+
+  /**
+   * Mirror a peer-driven change (or refusal) into the host UI
+   */
+  private handleControlResult(leader: LeaderStateMachine, result: ControlResultPayload): void {
+    this.cb.setHostControlRequests(leader.getPendingControlRequests());
+    this.cb.showHostTemporaryStatus(describeControlResult(result));
+    if (!result.approved) {
+      return;
+    }
+
+    if (result.action === 'set_bpm' && result.bpm !== undefined) {
+      // The peer's tempo supersedes a queued +/- edit.
+      this.timers.flushRunningBpmUpdate(() => {});
+      this.cb.setHostBpm(result.bpm);
+    } else {
+      this.setPendingResume(null);
+    }
+
+    if (result.action === 'stop') {
+      this.cb.setHostLiveBpm(null);
+      this.cb.setHostCountdown(null);
+      this.resetHostBeatVisual();
+    }
+
+    this.cb.setHostRunning(leader.isRunning());
     this.persistHostSession();
   }
 
-  private setPendingResume(
-    next: { anchorEpochMs: number; beatIndexAtAnchor: number } | null
-  ): void {
+  private attachLeader(leader: LeaderStateMachine): void {
+    this.detachLeaderMetronome();
+    const detachers = [
+      leader.getMetronome().on('beatPlayed', (beat) => {
+        const node = this.cb.getHostBeatEl();
+        if (node) {
+          const count = beat.isCountIn ? beat.beatInBar + 1 : null;
+          flashBeat(node, beat.beatInBar === 0, beat.accent, count);
+        }
+      }),
+      leader.getMetronome().attachBeatPulse(this.cb.getBeatPulse()),
+      this.cb.getMidiClock().attach(leader.getMetronome())
+    ];
+    this.detachMetronome = () => detachers.forEach((detach) => detach());
+    leader.getMetronome().setSubdivision(this.cb.getDeviceSettings().subdivision);
+    leader.getMetronome().setLatencyOffsetMs(this.cb.getDeviceSettings().latencyOffsetMs);
+    leader.getMetronome().setSoundKit(this.cb.getDeviceSettings().soundKit);
+    leader.onControlRequest(() => {
+      this.cb.setHostControlRequests(leader.getPendingControlRequests());
+    });
+    leader.onControlResult((result) => {
+      this.handleControlResult(leader, result);
+    });
+    leader.onYield((roomId) => {
+      if (this.cb.getLeader() !== leader) {
+        return;
+      }
+      this.releaseHostRoom();
+      this.onStepDownCallback?.(roomId);
+    });
+  }
+
+  private detachLeaderMetronome(): void {
+    this.detachMetronome?.();
+    this.detachMetronome = null;
+  }
+
+  private setPendingResume(next: PendingResume | null): void {
     this.pendingResume = next;
     this.cb.setHostPendingResume(Boolean(next));
   }
@@ -46,7 +167,7 @@ export class HostController {
       return;
     }
 
-    node.classList.remove('flash', 'downbeat');
+    resetBeatVisual(node);
   }
 
   onBpmPointerDown(delta: number, event: PointerEvent): void {
@@ -92,21 +213,22 @@ export class HostController {
 
     this.cb.setBackendStatus('connecting');
     const leader = new LeaderStateMachine(generatePeerId(), this.transportRuntime);
-    leader.getMetronome().onBeatScheduled((_, isDownbeat) => {
-      const node = this.cb.getHostBeatEl();
-      if (node) {
-        flashBeat(node, isDownbeat);
-      }
-    });
+    this.attachLeader(leader);
 
     const preferredRoomId = forceNewCode ? undefined : this.cb.loadStoredHostRoomCode();
     const persistedSession = preferredRoomId
       ? this.cb.loadPersistedHostSession(preferredRoomId)
       : null;
     const initialBpm = persistedSession?.bpm ?? this.cb.getCurrentBpm();
+    const initialMeter = persistedSession?.meter ?? this.cb.getCurrentMeter();
     this.cb.applyHostBpm(initialBpm);
+    this.cb.applyHostMeter(initialMeter);
+    leader.setCountInBars(persistedSession?.countInBars ?? this.cb.getCountInBars());
+    this.cb.setHostCountIn(leader.getCountInBars());
+    leader.setAllowPeerControl(persistedSession?.allowPeerControl ?? this.cb.getAllowPeerControl());
+    this.cb.setHostAllowPeerControl(leader.getAllowPeerControl());
 
-    const roomId = await leader.createRoom(initialBpm, preferredRoomId ?? undefined);
+    const roomId = await leader.createRoom(initialBpm, preferredRoomId ?? undefined, initialMeter);
 
     this.cb.setLeader(leader);
     this.cb.setHostRoomCode(roomId);
@@ -121,7 +243,9 @@ export class HostController {
       // Keep host paused after refresh and let explicit Start resume from persisted phase.
       this.setPendingResume({
         anchorEpochMs: persistedSession.anchorEpochMs,
-        beatIndexAtAnchor: persistedSession.beatIndexAtAnchor
+        beatIndexAtAnchor: persistedSession.beatIndexAtAnchor,
+        ramp: persistedSession.ramp,
+        countInBeats: persistedSession.countInBeats
       });
     }
 
@@ -130,6 +254,93 @@ export class HostController {
     this.startHostStatusTimer();
   }
 
+  /**
+   * Continue a room handed to this device, reusing the metronome it played as a peer
+   */
+  async adoptHostRoom(takeover: HostTakeover): Promise<void> {
+    if (this.cb.getLeader()) {
+      return;
+    }
+
+    this.cb.setBackendStatus('connecting');
+    const leader = new LeaderStateMachine(
+      takeover.leaderId,
+      this.transportRuntime,
+      takeover.metronome
+    );
+    this.attachLeader(leader);
+    leader.setCountInBars(this.cb.getCountInBars());
+    leader.setAllowPeerControl(this.cb.getAllowPeerControl());
+    this.cb.setHostBpm(takeover.handoff.bpm);
+    this.cb.setHostMeter(takeover.handoff.meter);
+
+    await leader.adoptRoom(takeover.roomId, takeover.handoff, takeover.offsetMs);
+
+    this.cb.setLeader(leader);
+    this.cb.setHostRoomCode(takeover.roomId);
+    this.cb.setHostRunning(leader.isRunning());
+    this.setPendingResume(null);
+    this.cb.setBackendStatus('ok');
+    this.persistHostSession();
+    this.startHostStatusTimer();
+    this.cb.showHostTemporaryStatus('You are now the host');
+  }
+
+  /**
+   * Hand the room to a connected peer. Returns the room ID once the peer has taken
+   * over (this device is then no longer host), or null if the handoff failed.
+   */
+  async handOffHost(successorId: string): Promise<string | null> {
+    const leader = this.cb.getLeader();
+    const roomId = leader?.getRoomId();
+    if (!leader || !roomId) {
+      return null;
+    }
+
+    // The successor must receive the tempo the host last dialed in.
+    this.timers.flushRunningBpmUpdate(() => {
+      leader.setBPM(this.cb.getCurrentBpm());
+    });
+
+    try {
+      await leader.handOffTo(successorId);
+    } catch (error) {
+      this.cb.showHostTemporaryStatus(this.cb.errorText(error));
+      return null;
+    }
+
+    this.releaseHostRoom();
+    return roomId;
+  }
+
+  /**
+   * Register handler for when the leader stepped down for a rival leader of the same room
+   */
+  onStepDown(callback: (roomId: string) => void): void {
+    this.onStepDownCallback = callback;
+  }
+
+  /**
+   * Reset host UI after leadership moved to another device (the room stays open)
+   */
+  private releaseHostRoom(): void {
+    this.detachLeaderMetronome();
+    this.cb.setLeader(null);
+    this.cb.setHostRunning(false);
+    this.cb.setHostLiveBpm(null);
+    this.cb.setHostCountdown(null);
+    this.cb.setHostControlRequests([]);
+    this.resetHostBeatVisual();
+    this.setPendingResume(null);
+    this.timers.stopHostStatusTimer();
+    this.cb.setHostPeerCount(0);
+    this.cb.setHostPeerIds([]);
+    this.cb.setHostPeerSyncStats([]);
+    // Forget the room so a refresh does not reopen it next to the new host.
+    this.cb.setHostRoomCode(null);
+    this.cb.setBackendStatus('idle');
+  }
+
   async regenerateHostRoom(): Promise<void> {
     if (this.cb.getActiveTab() !== 'host') {
       return;
@@ -141,6 +352,7 @@ export class HostController {
 
     this.setPendingResume(null);
     this.cb.applyHostBpm(120);
+    this.cb.applyHostMeter(DEFAULT_METER);
     await this.ensureHostRoom(true);
     this.cb.showHostTemporaryStatus('New room code generated');
   }
@@ -158,16 +370,21 @@ export class HostController {
 
     leader.stopMetronome();
     await leader.closeRoom();
+    this.detachLeaderMetronome();
     this.cb.setLeader(null);
     this.cb.setHostRunning(false);
+    this.cb.setHostControlRequests([]);
     this.resetHostBeatVisual();
     this.setPendingResume(null);
     this.timers.stopHostStatusTimer();
     this.cb.setHostPeerCount(0);
+    this.cb.setHostPeerIds([]);
+    this.cb.setHostPeerSyncStats([]);
     this.cb.setBackendStatus('idle');
     this.persistHostSessionFromSnapshot({
       roomId,
       bpm: this.cb.getCurrentBpm(),
+      meter: this.cb.getCurrentMeter(),
       running: false
     });
   }
@@ -184,7 +401,12 @@ export class HostController {
 
     if (this.pendingResume) {
       const anchorLeaderMs = performance.now() + (this.pendingResume.anchorEpochMs - Date.now());
-      leader.resumeMetronomeFromAnchor(anchorLeaderMs, this.pendingResume.beatIndexAtAnchor);
+      leader.resumeMetronomeFromAnchor(
+        anchorLeaderMs,
+        this.pendingResume.beatIndexAtAnchor,
+        this.pendingResume.ramp,
+        this.pendingResume.countInBeats
+      );
       this.setPendingResume(null);
     } else {
       leader.startMetronome();
@@ -194,6 +416,86 @@ export class HostController {
     this.persistHostSession();
   }
 
+  /**
+   * Arm playback so bar 1 lands at a wall-clock time (count-in plays before it)
+   */
+  scheduleHostStart(startAtEpochMs: number): void {
+    const leader = this.cb.getLeader();
+    if (!leader || leader.isRunning()) {
+      return;
+    }
+
+    this.timers.flushRunningBpmUpdate(() => {
+      leader.setBPM(this.cb.getCurrentBpm());
+    });
+
+    try {
+      leader.startMetronome(undefined, performance.now() + (startAtEpochMs - Date.now()));
+    } catch (error) {
+      this.cb.showHostTemporaryStatus(this.cb.errorText(error));
+      return;
+    }
+
+    this.setPendingResume(null);
+    this.cb.setHostRunning(true);
+    this.refreshHostStatus();
+  }
+
+  startHostRamp(target: Omit<TempoRamp, 'startBpm'>): void {
+    const leader = this.cb.getLeader();
+    if (!leader) {
+      return;
+    }
+
+    this.timers.flushRunningBpmUpdate(() => {
+      leader.setBPM(this.cb.getCurrentBpm());
+    });
+
+    // A ramp always starts a fresh phase when stopped, so drop any refresh resume.
+    this.setPendingResume(null);
+    leader.startTempoRamp(target);
+
+    this.cb.setHostBpm(target.endBpm);
+    this.cb.setHostRunning(leader.isRunning());
+    this.refreshHostStatus();
+  }
+
+  /**
+   * Make a setlist song current. While running the switch lands on a downbeat
+   * (atBeatIndex when given) and the song starts from its first bar.
+   */
+  selectSong(index: number, atBeatIndex?: number): void {
+    const song = this.cb.getSetlist().songs[index];
+    if (!song) {
+      return;
+    }
+
+    this.cb.setSetlistIndex(index);
+    this.cb.setHostBpm(song.bpm);
+    this.cb.setHostMeter(song.meter);
+
+    const leader = this.cb.getLeader();
+    if (!leader) {
+      return;
+    }
+
+    // The song tempo supersedes a queued +/- edit, and a new song never resumes an old phase.
+    this.timers.flushRunningBpmUpdate(() => {});
+    this.setPendingResume(null);
+    leader.changeSong(song.bpm, song.meter, atBeatIndex);
+    this.persistHostSession();
+  }
+
+  resolveControlRequest(peerId: string, requestId: string, approved: boolean): void {
+    this.cb.getLeader()?.resolveControlRequest(peerId, requestId, approved);
+  }
+
+  setAllowPeerControl(allow: boolean): void {
+    this.cb.setHostAllowPeerControl(allow);
+    this.cb.getLeader()?.setAllowPeerControl(allow);
+    this.persistHostSession();
+  }
+
   stopHostMetronome(): void {
     const leader = this.cb.getLeader();
     if (!leader) {
@@ -202,6 +504,8 @@ export class HostController {
 
     leader.stopMetronome();
     this.cb.setHostRunning(false);
+    this.cb.setHostLiveBpm(null);
+    this.cb.setHostCountdown(null);
     this.resetHostBeatVisual();
     this.setPendingResume(null);
     this.persistHostSession();
@@ -210,9 +514,12 @@ export class HostController {
   private persistHostSessionFromSnapshot(snapshot: {
     roomId: string;
     bpm: number;
+    meter: Meter;
     running: boolean;
     anchorLeaderMs?: number;
     beatIndexAtAnchor?: number;
+    ramp?: TempoRamp;
+    countInBeats?: number;
   }): void {
     if (!snapshot.roomId) {
       return;
@@ -221,12 +528,17 @@ export class HostController {
     this.cb.persistHostSession({
       roomId: snapshot.roomId,
       bpm: snapshot.bpm,
+      meter: snapshot.meter,
       running: snapshot.running,
       anchorEpochMs:
         snapshot.running && snapshot.anchorLeaderMs !== undefined
           ? Date.now() + (snapshot.anchorLeaderMs - performance.now())
           : undefined,
-      beatIndexAtAnchor: snapshot.running ? (snapshot.beatIndexAtAnchor ?? 0) : undefined
+      beatIndexAtAnchor: snapshot.running ? (snapshot.beatIndexAtAnchor ?? 0) : undefined,
+      ramp: snapshot.running ? snapshot.ramp : undefined,
+      countInBeats: snapshot.running ? snapshot.countInBeats : undefined,
+      countInBars: this.cb.getCountInBars(),
+      allowPeerControl: this.cb.getAllowPeerControl()
     });
   }
 
@@ -240,9 +552,12 @@ export class HostController {
       this.persistHostSessionFromSnapshot({
         roomId,
         bpm: this.cb.getCurrentBpm(),
+        meter: this.cb.getCurrentMeter(),
         running: true,
         anchorLeaderMs: performance.now() + (this.pendingResume.anchorEpochMs - Date.now()),
-        beatIndexAtAnchor: this.pendingResume.beatIndexAtAnchor
+        beatIndexAtAnchor: this.pendingResume.beatIndexAtAnchor,
+        ramp: this.pendingResume.ramp,
+        countInBeats: this.pendingResume.countInBeats
       });
       return;
     }
@@ -1,21 +1,40 @@
 import { derived, writable } from 'svelte/store';
 import { getHostRoomCodeDisplay } from './runtime-ops.js';
+import { DEFAULT_METER } from '../../audio/meter.js';
+import type { Meter } from '../../types.js';
+import type { PeerSyncStats, PendingControlRequest } from '../../state/leader-machine.js';
 
 export interface HostState {
   currentRoomId: string | null;
   currentBpm: number;
+  currentMeter: Meter;
+  liveBpm: number | null; // Instantaneous tempo while a ramp is in progress
+  countInBars: number;
+  countdownSeconds: number | null; // Until a scheduled start
+  allowPeerControl: boolean;
+  controlRequests: PendingControlRequest[]; // Peer requests waiting for approval
   isRunning: boolean;
   hasPendingResume: boolean;
   peerCount: number;
+  peerIds: string[]; // Connected peers a handoff can go to
+  peerSyncStats: PeerSyncStats[];
   statusOverrideText: string;
 }
 
 const initialHostState: HostState = {
   currentRoomId: null,
   currentBpm: 120,
+  currentMeter: DEFAULT_METER,
+  liveBpm: null,
+  countInBars: 0,
+  countdownSeconds: null,
+  allowPeerControl: false,
+  controlRequests: [],
   isRunning: false,
   hasPendingResume: false,
   peerCount: 0,
+  peerIds: [],
+  peerSyncStats: [],
   statusOverrideText: ''
 };
 
@@ -41,6 +60,30 @@ export function setHostBpm(bpm: number): void {
   update((state) => ({ ...state, currentBpm: bpm }));
 }
 
+export function setHostMeter(meter: Meter): void {
+  update((state) => ({ ...state, currentMeter: meter }));
+}
+
+export function setHostLiveBpm(liveBpm: number | null): void {
+  update((state) => ({ ...state, liveBpm }));
+}
+
+export function setHostCountIn(countInBars: number): void {
+  update((state) => ({ ...state, countInBars }));
+}
+
+export function setHostCountdown(countdownSeconds: number | null): void {
+  update((state) => ({ ...state, countdownSeconds }));
+}
+
+export function setHostAllowPeerControl(allowPeerControl: boolean): void {
+  update((state) => ({ ...state, allowPeerControl }));
+}
+
+export function setHostControlRequests(controlRequests: PendingControlRequest[]): void {
+  update((state) => ({ ...state, controlRequests }));
+}
+
 export function setHostRunning(isRunning: boolean): void {
   update((state) => ({ ...state, isRunning }));
 }
@@ -53,6 +96,14 @@ export function setHostPeerCount(peerCount: number): void {
   update((state) => ({ ...state, peerCount }));
 }
 
+export function setHostPeerIds(peerIds: string[]): void {
+  update((state) => ({ ...state, peerIds }));
+}
+
+export function setHostPeerSyncStats(peerSyncStats: PeerSyncStats[]): void {
+  update((state) => ({ ...state, peerSyncStats }));
+}
+
 export function showHostTemporaryStatus(text: string, durationMs = 1200): void {
   if (statusOverrideTimerId !== null) {
     clearTimeout(statusOverrideTimerId);
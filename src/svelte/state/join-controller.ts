@@ -1,19 +1,88 @@
 import { PeerStateMachine } from '../../state/peer-machine.js';
 import { generatePeerId } from '../../types.js';
+import type { ControlAction } from '../../types.js';
+import type { Unsubscribe } from '../../audio/metronome-events.js';
 import { flashBeat } from '../services/beat-visual.js';
 import type { TransportRuntime } from '../../realtime/runtime.js';
 import { TimerLifecycle } from './timer-lifecycle.js';
+import { describeControlAction, describeControlResult } from './runtime-ops.js';
 import type { ControllerCallbacks } from './controller-types.js';
+import type { HostTakeover } from './host-controller.js';
 
 const JOIN_HOST_TIMEOUT_MS = 7000;
+const JOIN_DIAGNOSTICS_REFRESH_MS = 1000;
 
 export class JoinController {
+  private onPromotedCallback: ((takeover: HostTakeover) => void) | null = null;
+  private detachMetronome: Unsubscribe | null = null; // Beat visual, pulse and MIDI clock
+
   constructor(
     private readonly transportRuntime: TransportRuntime,
     private readonly cb: ControllerCallbacks,
     private readonly timers: TimerLifecycle
   ) {}
 
+  /**
+   * Register handler for when the host hands the room to this device
+   */
+  onPromoted(callback: (takeover: HostTakeover) => void): void {
+    this.onPromotedCallback = callback;
+  }
+
+  /**
+   * Drop the peer session without stopping its metronome and pass the room on
+   */
+  private async promoteToHost(
+    peer: PeerStateMachine,
+    takeover: Omit<HostTakeover, 'metronome'>
+  ): Promise<void> {
+    await peer.releaseForHandoff();
+    // The host controller attaches the outputs again to the metronome it takes over
+    this.detachPeerMetronome();
+    this.cb.setPeer(null);
+    this.timers.clearJoinTimer();
+    this.timers.clearJoinHostTimeout();
+    this.timers.clearJoinDiagnosticsTimer();
+    this.cb.setJoinCountdown(null);
+    this.cb.setJoinDiagnostics(null);
+    this.cb.showJoinEntry();
+    this.cb.setJoinStatus('Enter a room code to join.');
+    this.onPromotedCallback?.({ ...takeover, metronome: peer.getMetronome() });
+  }
+
+  /**
+   * Tick the countdown of an armed (scheduled) start until playback begins or is cancelled
+   */
+  private startJoinCountdown(peer: PeerStateMachine): void {
+    const tick = () => {
+      const countdownMs = peer.getStartCountdownMs();
+      this.cb.setJoinCountdown(countdownMs === null ? null : Math.ceil(countdownMs / 1000));
+      if (countdownMs === null) {
+        this.timers.clearJoinTimer();
+      }
+    };
+
+    tick();
+    this.timers.setJoinTimer(tick, 250);
+  }
+
+  /**
+   * Ask the host to start/stop playback or change tempo
+   */
+  requestControl(action: ControlAction, bpm?: number): void {
+    const requestId = this.cb.getPeer()?.requestControl(action, bpm) ?? null;
+    this.cb.showJoinControlNotice(
+      requestId === null
+        ? 'Not connected to a host.'
+        : `Asked host to ${describeControlAction(action, bpm)}...`
+    );
+  }
+
+  private detachPeerMetronome(): void {
+    this.detachMetronome?.();
+    this.detachMetronome = null;
+  }
+
   async teardownPeer(): Promise<void> {
     const peer = this.cb.getPeer();
     if (!peer) {
@@ -21,8 +90,12 @@ export class JoinController {
     }
 
     await peer.leaveRoom();
+    this.detachPeerMetronome();
     this.cb.setPeer(null);
     this.timers.clearJoinTimer();
+    this.timers.clearJoinDiagnosticsTimer();
+    this.cb.setJoinCountdown(null);
+    this.cb.setJoinDiagnostics(null);
     this.cb.showJoinEntry();
     this.cb.setJoinStatus('Enter a room code to join.');
     this.cb.setBackendStatus('idle');
@@ -44,35 +117,66 @@ export class JoinController {
     this.cb.setJoinInputDisabled(true);
 
     const peer = new PeerStateMachine(generatePeerId(), this.transportRuntime);
-    peer.getMetronome().onBeatScheduled((_, isDownbeat) => {
-      const node = this.cb.getJoinBeatEl();
-      if (node) {
-        flashBeat(node, isDownbeat);
-      }
-    });
+    this.detachPeerMetronome();
+    const detachers = [
+      peer.getMetronome().on('beatPlayed', (beat) => {
+        const node = this.cb.getJoinBeatEl();
+        if (node) {
+          const count = beat.isCountIn ? beat.beatInBar + 1 : null;
+          flashBeat(node, beat.beatInBar === 0, beat.accent, count);
+        }
+      }),
+      peer.getMetronome().attachBeatPulse(this.cb.getBeatPulse()),
+      this.cb.getMidiClock().attach(peer.getMetronome())
+    ];
+    this.detachMetronome = () => detachers.forEach((detach) => detach());
+    peer.getMetronome().setSubdivision(this.cb.getDeviceSettings().subdivision);
+    peer.getMetronome().setLatencyOffsetMs(this.cb.getDeviceSettings().latencyOffsetMs);
+    peer.getMetronome().setSoundKit(this.cb.getDeviceSettings().soundKit);
 
     peer.onStart(() => {
       this.timers.clearJoinHostTimeout();
       this.cb.showJoinLive();
       this.cb.setJoinLiveStatus('Running.');
+      this.cb.setJoinCountdown(null);
 
-      this.cb.setJoinBpm(peer.getMetronome().getBPM());
+      this.cb.setJoinBpm(Math.round(peer.getMetronome().getCurrentTempo()));
+      this.cb.setJoinMeter(peer.getMetronome().getMeter());
       this.timers.setJoinTimer(() => {
         if (this.cb.getPeer()) {
-          this.cb.setJoinBpm(peer.getMetronome().getBPM());
+          this.cb.setJoinBpm(Math.round(peer.getMetronome().getCurrentTempo()));
+          this.cb.setJoinMeter(peer.getMetronome().getMeter());
         }
       }, 300);
     });
 
+    peer.onControlResult((result, isMine) => {
+      // Other peers' refusals are noise; their applied changes are worth a note.
+      if (isMine || result.approved) {
+        this.cb.showJoinControlNotice(describeControlResult(result, isMine));
+      }
+    });
+
+    peer.onLeaderHandoff((handoff, offsetMs) => {
+      void this.promoteToHost(peer, { roomId, leaderId: peer.getId(), handoff, offsetMs });
+    });
+
     peer.onSyncStatus((status) => {
       this.timers.clearJoinHostTimeout();
       this.cb.setBackendStatus('ok');
       this.cb.showJoinLive();
       this.cb.setJoinLiveStatus(status);
+      if (peer.getStartCountdownMs() !== null) {
+        this.startJoinCountdown(peer);
+      }
     });
 
     await peer.joinRoom(roomId);
     this.cb.setPeer(peer);
+    this.timers.setJoinDiagnosticsTimer(
+      () => this.cb.setJoinDiagnostics(peer.getSyncDiagnostics()),
+      JOIN_DIAGNOSTICS_REFRESH_MS
+    );
     this.cb.setJoinStatus('Waiting for host...');
     this.timers.setJoinHostTimeout(() => {
       const currentPeer = this.cb.getPeer();
@@ -1,4 +1,7 @@
 import { writable } from 'svelte/store';
+import { DEFAULT_METER } from '../../audio/meter.js';
+import type { Meter } from '../../types.js';
+import type { PeerSyncDiagnostics } from '../../state/peer-machine.js';
 
 export interface JoinState {
   status: string;
@@ -7,6 +10,10 @@ export interface JoinState {
   showLive: boolean;
   code: string;
   bpm: number;
+  meter: Meter;
+  countdownSeconds: number | null; // Until an armed (scheduled) start
+  controlNotice: string; // Outcome of the last control request
+  diagnostics: PeerSyncDiagnostics | null;
   inputDisabled: boolean;
   inProgress: boolean;
   clearCodeOnNextEntry: boolean;
@@ -19,12 +26,17 @@ const initialJoinState: JoinState = {
   showLive: false,
   code: '',
   bpm: 120,
+  meter: DEFAULT_METER,
+  countdownSeconds: null,
+  controlNotice: '',
+  diagnostics: null,
   inputDisabled: false,
   inProgress: false,
   clearCodeOnNextEntry: false
 };
 
 const { subscribe, update } = writable<JoinState>(initialJoinState);
+let controlNoticeTimerId: number | null = null;
 
 export const joinState = { subscribe };
 
@@ -66,6 +78,31 @@ export function setJoinBpm(bpm: number): void {
   update((state) => ({ ...state, bpm }));
 }
 
+export function setJoinMeter(meter: Meter): void {
+  update((state) => ({ ...state, meter }));
+}
+
+export function setJoinCountdown(countdownSeconds: number | null): void {
+  update((state) => ({ ...state, countdownSeconds }));
+}
+
+export function setJoinDiagnostics(diagnostics: PeerSyncDiagnostics | null): void {
+  update((state) => ({ ...state, diagnostics }));
+}
+
+export function showJoinControlNotice(text: string, durationMs = 2500): void {
+  if (controlNoticeTimerId !== null) {
+    clearTimeout(controlNoticeTimerId);
+    controlNoticeTimerId = null;
+  }
+
+  update((state) => ({ ...state, controlNotice: text }));
+  controlNoticeTimerId = window.setTimeout(() => {
+    update((state) => ({ ...state, controlNotice: '' }));
+    controlNoticeTimerId = null;
+  }, durationMs);
+}
+
 export function setJoinClearCodeOnNextEntry(clearCodeOnNextEntry: boolean): void {
   update((state) => ({ ...state, clearCodeOnNextEntry }));
 }
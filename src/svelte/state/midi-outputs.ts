@@ -0,0 +1,35 @@
+import { writable } from 'svelte/store';
+import type { MidiOutputPort } from '../services/midi.js';
+
+/**
+ * MIDI ports this device can send the clock to (never replicated to the room)
+ */
+export interface MidiOutputsState {
+  supported: boolean; // Browser has Web MIDI
+  enabled: boolean; // MIDI access was granted
+  outputs: MidiOutputPort[];
+  status: string; // Outcome of the last access request or port switch
+}
+
+const initialMidiOutputsState: MidiOutputsState = {
+  supported: false,
+  enabled: false,
+  outputs: [],
+  status: ''
+};
+
+const { subscribe, update } = writable<MidiOutputsState>(initialMidiOutputsState);
+
+export const midiOutputsState = { subscribe };
+
+export function setMidiSupported(supported: boolean): void {
+  update((state) => ({ ...state, supported }));
+}
+
+export function setMidiOutputs(outputs: MidiOutputPort[]): void {
+  update((state) => ({ ...state, enabled: true, outputs }));
+}
+
+export function setMidiStatus(status: string): void {
+  update((state) => ({ ...state, status }));
+}
@@ -0,0 +1,29 @@
+import { writable } from 'svelte/store';
+import type { OutputDevice } from '../../audio/context-manager.js';
+
+/**
+ * Audio outputs this device can play the click on (never replicated to the room)
+ */
+export interface OutputDevicesState {
+  supported: boolean; // Browser can pick an output (AudioContext.setSinkId)
+  devices: OutputDevice[];
+  status: string; // Outcome of the last output switch
+}
+
+const initialOutputDevicesState: OutputDevicesState = {
+  supported: false,
+  devices: [],
+  status: ''
+};
+
+const { subscribe, update } = writable<OutputDevicesState>(initialOutputDevicesState);
+
+export const outputDevicesState = { subscribe };
+
+export function setOutputDevices(supported: boolean, devices: OutputDevice[]): void {
+  update((state) => ({ ...state, supported, devices }));
+}
+
+export function setOutputDeviceStatus(status: string): void {
+  update((state) => ({ ...state, status }));
+}
@@ -1,6 +1,15 @@
-import { MAX_BPM, MIN_BPM } from './constants.js';
+import {
+  MAX_BPM,
+  MIN_BPM,
+  SYNC_GOOD_JITTER_MS,
+  SYNC_GOOD_PHASE_ERROR_MS,
+  SYNC_POOR_PHASE_ERROR_MS,
+  SYNC_SILENT_AFTER_MS
+} from './constants.js';
 import type { SignalingBackend } from '../../signaling/factory.js';
 import type { BackendState } from './ui.js';
+import type { ControlAction, ControlResultPayload } from '../../types.js';
+import type { PeerSyncStats } from '../../state/leader-machine.js';
 
 export function backendLabel(backend: SignalingBackend): string {
   if (backend === 'mock') {
@@ -33,6 +42,104 @@ export function clampBpm(value: number): number {
   return Math.max(MIN_BPM, Math.min(MAX_BPM, value));
 }
 
+/**
+ * Countdown label such as "45 s" or "12:05"
+ */
+export function formatCountdown(seconds: number): string {
+  if (seconds < 60) {
+    return `${seconds} s`;
+  }
+
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = String(seconds % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${secs}` : `${minutes}:${secs}`;
+}
+
+/**
+ * Wall-clock start time for "in N seconds" or "at HH:MM[:SS]" (next occurrence).
+ * Returns null for unparsable input.
+ */
+export function resolveStartAtEpochMs(
+  mode: 'in' | 'at',
+  value: string,
+  nowEpochMs: number = Date.now()
+): number | null {
+  if (mode === 'in') {
+    const seconds = Number(value);
+    return Number.isFinite(seconds) && seconds > 0 ? nowEpochMs + seconds * 1000 : null;
+  }
+
+  const match = /^(\d{1,2}):(\d{2})(?::(\d{2}))?$/.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+
+  const [hours, minutes, seconds] = [match[1], match[2], match[3] ?? '0'].map(Number);
+  if (hours > 23 || minutes > 59 || seconds > 59) {
+    return null;
+  }
+
+  const target = new Date(nowEpochMs);
+  target.setHours(hours, minutes, seconds, 0);
+  if (target.getTime() <= nowEpochMs) {
+    target.setDate(target.getDate() + 1);
+  }
+  return target.getTime();
+}
+
+/**
+ * Short label for a peer, e.g. "Peer ab12"
+ */
+export function peerLabel(peerId: string): string {
+  return `Peer ${peerId.slice(0, 4)}`;
+}
+
+export type SyncQuality = 'pending' | 'good' | 'fair' | 'poor';
+
+/**
+ * Rough grade of a peer's clock sync, to spot the device on a bad network
+ */
+export function syncQuality(peer: PeerSyncStats): SyncQuality {
+  if (peer.lastSeenAgeMs > SYNC_SILENT_AFTER_MS) {
+    return 'poor';
+  }
+  if (!peer.clock?.stable || peer.phaseErrorMs === null) {
+    return 'pending';
+  }
+  if (peer.phaseErrorMs > SYNC_POOR_PHASE_ERROR_MS) {
+    return 'poor';
+  }
+  if (peer.phaseErrorMs > SYNC_GOOD_PHASE_ERROR_MS || peer.clock.jitterMs > SYNC_GOOD_JITTER_MS) {
+    return 'fair';
+  }
+  return 'good';
+}
+
+export function formatSyncMs(ms: number | null | undefined): string {
+  return ms === null || ms === undefined ? '–' : `${ms.toFixed(1)} ms`;
+}
+
+export function formatSeenAge(ageMs: number): string {
+  return ageMs < 1000 ? 'now' : `${Math.round(ageMs / 1000)} s ago`;
+}
+
+export function describeControlAction(action: ControlAction, bpm?: number): string {
+  if (action === 'set_bpm') {
+    return `set tempo to ${bpm} BPM`;
+  }
+  return action === 'start' ? 'start playback' : 'stop playback';
+}
+
+/**
+ * One-line outcome of a control request, e.g. "Peer ab12 asked to start playback: approved"
+ */
+export function describeControlResult(result: ControlResultPayload, isMine = false): string {
+  const who = isMine ? 'You' : peerLabel(result.peerId);
+  const outcome = result.approved ? 'approved' : (result.reason ?? 'denied');
+  return `${who} asked to ${describeControlAction(result.action, result.bpm)}: ${outcome}`;
+}
+
 export function getHostRoomCodeDisplay(roomId: string | null): string {
   return roomId ?? '------';
 }
@@ -0,0 +1,15 @@
+import { writable } from 'svelte/store';
+import { EMPTY_SETLIST, clampSetlistIndex } from '../../state/setlist.js';
+import type { Setlist } from '../../types.js';
+
+const { subscribe, update } = writable<Setlist>(EMPTY_SETLIST);
+
+export const setlistState = { subscribe };
+
+export function setSetlist(setlist: Setlist): void {
+  update(() => clampSetlistIndex(setlist));
+}
+
+export function setSetlistIndex(currentIndex: number): void {
+  update((state) => clampSetlistIndex({ ...state, currentIndex }));
+}
@@ -0,0 +1,26 @@
+import { writable } from 'svelte/store';
+
+/**
+ * Uploaded click sample on this device (never replicated to the room)
+ */
+export interface SoundSampleState {
+  loaded: boolean;
+  status: string; // Outcome of the last upload
+}
+
+const initialSoundSampleState: SoundSampleState = {
+  loaded: false,
+  status: ''
+};
+
+const { subscribe, update } = writable<SoundSampleState>(initialSoundSampleState);
+
+export const soundSampleState = { subscribe };
+
+export function setSoundSampleLoaded(loaded: boolean): void {
+  update((state) => ({ ...state, loaded }));
+}
+
+export function setSoundSampleStatus(status: string): void {
+  update((state) => ({ ...state, status }));
+}
@@ -3,6 +3,7 @@ import { BPM_UPDATE_DEBOUNCE_MS } from './constants.js';
 export class TimerLifecycle {
   private joinBpmTimer: number | null = null;
   private joinHostTimeoutId: number | null = null;
+  private joinDiagnosticsTimer: number | null = null;
   private hostStatusTimer: number | null = null;
   private bpmHoldIntervalId: number | null = null;
   private bpmHoldStartTimeoutId: number | null = null;
@@ -33,6 +34,19 @@ export class TimerLifecycle {
     this.joinHostTimeoutId = window.setTimeout(task, timeoutMs);
   }
 
+  clearJoinDiagnosticsTimer(): void {
+    if (this.joinDiagnosticsTimer !== null) {
+      clearInterval(this.joinDiagnosticsTimer);
+      this.joinDiagnosticsTimer = null;
+    }
+  }
+
+  setJoinDiagnosticsTimer(task: () => void, intervalMs: number): void {
+    this.clearJoinDiagnosticsTimer();
+    task();
+    this.joinDiagnosticsTimer = window.setInterval(task, intervalMs);
+  }
+
   stopHostStatusTimer(): void {
     if (this.hostStatusTimer !== null) {
       clearInterval(this.hostStatusTimer);
@@ -99,6 +113,7 @@ export class TimerLifecycle {
     this.stopBpmHold();
     this.clearJoinTimer();
     this.clearJoinHostTimeout();
+    this.clearJoinDiagnosticsTimer();
     this.stopHostStatusTimer();
 
     if (this.bpmUpdateDebounceTimeoutId !== null) {
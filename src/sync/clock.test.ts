@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest';
+import { ClockSync } from './clock.js';
+import { RTTWindow, fitLine } from './stats.js';
+import { createSeededRandom } from '../sim/random.js';
+
+interface Exchange {
+  atLeaderMs: number;
+  upMs: number; // Leader -> peer delay
+  downMs: number; // Peer -> leader delay
+}
+
+/**
+ * Feed a ping/pong exchange through a peer whose clock is offset and drifting
+ */
+function exchange(
+  sync: ClockSync,
+  offsetMs: number,
+  skewPpm: number,
+  { atLeaderMs, upMs, downMs }: Exchange
+) {
+  const toPeer = (leaderMs: number) => leaderMs + offsetMs + (skewPpm / 1e6) * leaderMs;
+  const t1 = atLeaderMs;
+  const t2 = toPeer(t1 + upMs);
+  const t3 = t2 + 0.2;
+  const t4 = t1 + upMs + 0.2 + downMs;
+  return sync.processPong(t1, t2, t3, t4);
+}
+
+describe('fitLine', () => {
+  it('recovers slope and intercept', () => {
+    const fit = fitLine([0, 1, 2, 3], [1, 3, 5, 7]);
+    expect(fit?.slope).toBeCloseTo(2, 10);
+    expect(fit?.yAtMean).toBeCloseTo(4, 10);
+    expect(fit?.residualStd).toBeCloseTo(0, 10);
+  });
+
+  it('needs at least one point', () => {
+    expect(fitLine([], [])).toBeNull();
+  });
+});
+
+describe('RTTWindow', () => {
+  it('measures jitter as the mean change between consecutive RTTs', () => {
+    const window = new RTTWindow();
+    window.add(40);
+    expect(window.getJitter()).toBeNull();
+    window.add(50);
+    window.add(44);
+    expect(window.getJitter()).toBe(8);
+  });
+});
+
+describe('ClockSync', () => {
+  it('measures a fixed offset on a symmetric path', () => {
+    const sync = new ClockSync();
+    let stats = exchange(sync, 1234.5, 0, { atLeaderMs: 0, upMs: 20, downMs: 20 });
+    for (let i = 1; i < 10; i++) {
+      stats = exchange(sync, 1234.5, 0, { atLeaderMs: i * 1000, upMs: 20, downMs: 20 });
+    }
+
+    expect(stats.offsetMs).toBeCloseTo(1234.5, 6);
+    expect(stats.rtt).toBeCloseTo(40, 6);
+    expect(stats.skewPpm).toBe(0);
+    expect(stats.stable).toBe(true);
+  });
+
+  it('ignores congestion spikes in favour of minimum-RTT samples', () => {
+    const sync = new ClockSync();
+    const random = createSeededRandom(5);
+    let stats = exchange(sync, 500, 0, { atLeaderMs: 0, upMs: 15, downMs: 15 });
+    for (let i = 1; i < 40; i++) {
+      // Every third exchange queues behind other traffic on the way up
+      const upMs = 15 + random() * 2 + (i % 3 === 0 ? 80 + random() * 100 : 0);
+      stats = exchange(sync, 500, 0, { atLeaderMs: i * 1000, upMs, downMs: 15 + random() * 2 });
+    }
+
+    expect(Math.abs(stats.offsetMs - 500)).toBeLessThan(1.5);
+    expect(stats.confidenceMs).toBeGreaterThan(0);
+    expect(stats.confidenceMs).toBeLessThan(2);
+  });
+
+  it('estimates skew and keeps the offset current while clocks drift', () => {
+    const sync = new ClockSync();
+    const random = createSeededRandom(9);
+    const skewPpm = 80;
+    let stats = exchange(sync, -9000, skewPpm, { atLeaderMs: 0, upMs: 20, downMs: 20 });
+    for (let i = 1; i <= 60; i++) {
+      const upMs = 20 + random() * 4 + (random() < 0.2 ? random() * 60 : 0);
+      stats = exchange(sync, -9000, skewPpm, {
+        atLeaderMs: i * 2000,
+        upMs,
+        downMs: 20 + random() * 4
+      });
+    }
+
+    expect(stats.skewPpm).toBeGreaterThan(skewPpm - 15);
+    expect(stats.skewPpm).toBeLessThan(skewPpm + 15);
+
+    // Extrapolate 10 s past the newest sample: the drift is carried forward
+    const leaderMs = 130_000;
+    const truePeerMs = leaderMs - 9000 + (skewPpm / 1e6) * leaderMs;
+    expect(Math.abs(sync.leaderToPeerTime(leaderMs) - truePeerMs)).toBeLessThan(1.5);
+    expect(sync.peerToLeaderTime(sync.leaderToPeerTime(leaderMs))).toBeCloseTo(leaderMs, 6);
+  });
+
+  it('does not fit skew over a short span', () => {
+    const sync = new ClockSync();
+    let stats = exchange(sync, 0, 300, { atLeaderMs: 0, upMs: 10, downMs: 10 });
+    for (let i = 1; i < 10; i++) {
+      stats = exchange(sync, 0, 300, { atLeaderMs: i * 500, upMs: 10, downMs: 10 });
+    }
+
+    expect(stats.skewPpm).toBe(0);
+  });
+
+  it('adopts an estimate computed by the leader', () => {
+    const sync = new ClockSync();
+    sync.adoptEstimate({ offsetMs: 100, rtt: 30, skewPpm: 50, atLeaderMs: 10_000 });
+
+    expect(sync.getOffsetMs()).toBe(100);
+    expect(sync.getOffsetMs(30_000)).toBeCloseTo(101, 10);
+    expect(sync.getStats().confidenceMs).toBe(15);
+    expect(sync.peerToLeaderTime(sync.leaderToPeerTime(50_000))).toBeCloseTo(50_000, 6);
+  });
+});
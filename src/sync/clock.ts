@@ -9,29 +9,69 @@
  * RTT = (t4 - t1) - (t3 - t2)
  * Offset = ((t2 - t1) + (t3 - t4)) / 2
  *
- * Uses median RTT filtering to reject outliers
+ * Queueing only ever adds delay, so the samples with the lowest RTT carry the least
+ * offset error (the NTP/PTP approach): only the best share of a sliding window is kept.
+ * A least-squares line through their offsets over leader time models the offset and
+ * the skew (crystal drift) between the two clocks.
  */
 
-import { RTTWindow, EMAFilter } from './stats.js';
+import { RTTWindow, fitLine } from './stats.js';
+
+/**
+ * Who computes clock offsets: the leader for every peer (pushed as clock_offset),
+ * or each peer for itself from the leader's broadcast pings and pong receipts
+ */
+export type ClockSyncMode = 'leader' | 'peer';
 
 export interface ClockStats {
+  offsetMs: number; // At the newest sample
+  rtt: number; // Median RTT
+  jitterMs: number; // Mean change between consecutive RTTs
+  samples: number; // Exchanges (or adopted estimates) since the last reset
+  stable: boolean;
+  skewPpm: number; // Peer clock rate against the leader's (positive = peer runs fast)
+  confidenceMs: number; // Half-width of the 95% confidence interval around offsetMs
+}
+
+/**
+ * An estimate computed on the other side of the link (the leader pushes its own to peers)
+ */
+export interface ClockEstimate {
+  offsetMs: number;
+  rtt: number;
+  skewPpm?: number;
+  atLeaderMs?: number; // Leader time offsetMs applies to
+  confidenceMs?: number;
+}
+
+interface SyncSample {
+  atLeaderMs: number; // Midpoint of the exchange in leader time
   offsetMs: number;
   rtt: number;
-  samples: number;
-  stable: boolean;
 }
 
 const MIN_SAMPLES_FOR_STABILITY = 5;
+const SAMPLE_WINDOW_SIZE = 256; // About four minutes at one ping per second
+const BEST_SAMPLE_FRACTION = 0.5; // Share of the window (lowest RTT first) used for the fit
+// Skew is only fitted once the samples span enough time to tell drift from jitter
+const MIN_SAMPLES_FOR_SKEW = 8;
+const MIN_SKEW_SPAN_MS = 15000;
+const MAX_SKEW_PPM = 500;
+const CONFIDENCE_Z = 1.96;
 
 export class ClockSync {
+  private samples: SyncSample[] = [];
   private rttWindow: RTTWindow;
-  private offsetFilter: EMAFilter;
-  private currentOffsetMs: number = 0;
   private lastRTT: number = 0;
+  private sampleCount: number = 0;
+  // offset(t) = offsetMs + skew * (t - atLeaderMs)
+  private offsetMs: number = 0;
+  private skew: number = 0;
+  private atLeaderMs: number | null = null;
+  private confidenceMs: number = 0;
 
   constructor() {
     this.rttWindow = new RTTWindow();
-    this.offsetFilter = new EMAFilter();
   }
 
   /**
@@ -55,67 +95,122 @@ export class ClockSync {
     // Add to window
     this.rttWindow.add(rtt);
     this.lastRTT = rtt;
+    this.sampleCount++;
+
+    this.samples.push({
+      atLeaderMs: (t1LeaderMs + t4LeaderMs) / 2,
+      offsetMs: (t2PeerMs - t1LeaderMs + (t3PeerMs - t4LeaderMs)) / 2,
+      rtt
+    });
+    if (this.samples.length > SAMPLE_WINDOW_SIZE) {
+      this.samples.shift();
+    }
 
-    // Calculate raw offset
-    const rawOffset = (t2PeerMs - t1LeaderMs + (t3PeerMs - t4LeaderMs)) / 2;
+    this.fitModel(t4LeaderMs);
+    return this.getStats();
+  }
 
-    // Get median RTT for filtering
-    const medianRTT = this.rttWindow.getMedian();
+  /**
+   * Refit the offset line through the lowest-RTT samples, evaluated at nowLeaderMs
+   */
+  private fitModel(nowLeaderMs: number): void {
+    const best = [...this.samples]
+      .sort((a, b) => a.rtt - b.rtt)
+      .slice(0, Math.max(1, Math.ceil(this.samples.length * BEST_SAMPLE_FRACTION)));
+    const fit = fitLine(
+      best.map((sample) => sample.atLeaderMs),
+      best.map((sample) => sample.offsetMs)
+    );
+    if (!fit) {
+      return;
+    }
 
-    // Only update offset on good samples (RTT close to median)
-    if (medianRTT !== null && rtt <= medianRTT * 1.5) {
-      // Apply EMA smoothing
-      this.currentOffsetMs = this.offsetFilter.update(rawOffset);
+    const times = best.map((sample) => sample.atLeaderMs);
+    const spanMs = Math.max(...times) - Math.min(...times);
+    const fitSkew = best.length >= MIN_SAMPLES_FOR_SKEW && spanMs >= MIN_SKEW_SPAN_MS;
+    const maxSkew = MAX_SKEW_PPM / 1e6;
+    this.skew = fitSkew ? Math.max(-maxSkew, Math.min(maxSkew, fit.slope)) : 0;
+    this.offsetMs = fit.yAtMean + this.skew * (nowLeaderMs - fit.xMean);
+    this.atLeaderMs = nowLeaderMs;
+
+    if (best.length < 3) {
+      // Too few samples for statistics: path asymmetry bounds the error by RTT / 2
+      this.confidenceMs = Math.max(0, best[0].rtt) / 2;
+      return;
     }
 
-    return this.getStats();
+    let residualStd = fit.residualStd;
+    let leverage = 1 / best.length;
+    if (fitSkew) {
+      const dx = nowLeaderMs - fit.xMean;
+      leverage += (dx * dx) / fit.sxx;
+    } else {
+      const squares = best.reduce((sum, sample) => sum + (sample.offsetMs - fit.yAtMean) ** 2, 0);
+      residualStd = Math.sqrt(squares / (best.length - 1));
+    }
+    this.confidenceMs = CONFIDENCE_Z * residualStd * Math.sqrt(leverage);
   }
 
   /**
-   * Get current clock offset (peer time = leader time + offset)
+   * Get clock offset (peer time = leader time + offset) at a leader time,
+   * or at the newest sample when no time is given
    */
-  getOffsetMs(): number {
-    return this.currentOffsetMs;
+  getOffsetMs(atLeaderMs?: number): number {
+    if (atLeaderMs === undefined || this.atLeaderMs === null) {
+      return this.offsetMs;
+    }
+    return this.offsetMs + this.skew * (atLeaderMs - this.atLeaderMs);
   }
 
   /**
-   * Set offset from an authoritative source (for example, leader-calculated value).
+   * Adopt an estimate from an authoritative source (for example, leader-calculated value).
    */
-  setOffsetMs(offsetMs: number): void {
-    this.currentOffsetMs = this.offsetFilter.update(offsetMs);
+  adoptEstimate(estimate: ClockEstimate): void {
+    this.rttWindow.add(estimate.rtt);
+    this.lastRTT = estimate.rtt;
+    this.sampleCount++;
+    this.offsetMs = estimate.offsetMs;
+    this.skew = (estimate.skewPpm ?? 0) / 1e6;
+    this.atLeaderMs = estimate.atLeaderMs ?? null;
+    this.confidenceMs = estimate.confidenceMs ?? Math.max(0, estimate.rtt) / 2;
   }
 
   /**
    * Convert leader timestamp to peer timestamp
    */
   leaderToPeerTime(leaderMs: number): number {
-    return leaderMs + this.currentOffsetMs;
+    return leaderMs + this.getOffsetMs(leaderMs);
   }
 
   /**
    * Convert peer timestamp to leader timestamp
    */
   peerToLeaderTime(peerMs: number): number {
-    return peerMs - this.currentOffsetMs;
+    if (this.atLeaderMs === null) {
+      return peerMs - this.offsetMs;
+    }
+    // Invert peer = leader + offsetMs + skew * (leader - atLeaderMs)
+    return (peerMs - this.offsetMs + this.skew * this.atLeaderMs) / (1 + this.skew);
   }
 
   /**
    * Get current synchronization statistics
    */
   getStats(): ClockStats {
-    const samples = this.rttWindow.size();
+    const samples = this.sampleCount;
     const medianRTT = this.rttWindow.getMedian() ?? this.lastRTT;
 
-    // Consider stable if:
-    // 1. Have enough samples
-    // 2. Offset variation is low (filtered value exists and is close to raw)
+    // Consider stable once enough samples have been collected
     const stable = samples >= MIN_SAMPLES_FOR_STABILITY;
 
     return {
-      offsetMs: this.currentOffsetMs,
+      offsetMs: this.offsetMs,
       rtt: medianRTT,
+      jitterMs: this.rttWindow.getJitter() ?? 0,
       samples,
-      stable
+      stable,
+      skewPpm: this.skew * 1e6,
+      confidenceMs: this.confidenceMs
     };
   }
 
@@ -123,9 +218,13 @@ export class ClockSync {
    * Reset synchronization state
    */
   reset(): void {
+    this.samples = [];
     this.rttWindow.clear();
-    this.offsetFilter.reset();
-    this.currentOffsetMs = 0;
     this.lastRTT = 0;
+    this.sampleCount = 0;
+    this.offsetMs = 0;
+    this.skew = 0;
+    this.atLeaderMs = null;
+    this.confidenceMs = 0;
   }
 }
@@ -1,10 +1,9 @@
 /**
  * Statistical utilities for time synchronization
- * RTT median filtering and exponential moving average
+ * RTT median filtering and least-squares line fitting
  */
 
 const RTT_WINDOW_SIZE = 10;
-const EMA_ALPHA = 0.3; // Smoothing factor for exponential moving average
 
 /**
  * Sliding window for RTT samples
@@ -58,6 +57,21 @@ export class RTTWindow {
     return Math.min(...this.samples);
   }
 
+  /**
+   * Get jitter: mean absolute change between consecutive RTTs (as in RFC 3550)
+   */
+  getJitter(): number | null {
+    if (this.samples.length < 2) {
+      return null;
+    }
+
+    let total = 0;
+    for (let i = 1; i < this.samples.length; i++) {
+      total += Math.abs(this.samples[i] - this.samples[i - 1]);
+    }
+    return total / (this.samples.length - 1);
+  }
+
   /**
    * Get number of samples in window
    */
@@ -74,40 +88,55 @@ export class RTTWindow {
 }
 
 /**
- * Exponential moving average filter
+ * Least-squares line through (x, y) points, centered on the mean x
+ * so large timestamps do not cost precision
  */
-export class EMAFilter {
-  private value: number | null = null;
-  private alpha: number;
+export interface LineFit {
+  xMean: number;
+  yAtMean: number; // Fitted y at xMean
+  slope: number;
+  count: number;
+  sxx: number; // Sum of squared x deviations (spread of the x values)
+  residualStd: number; // Standard deviation of residuals (0 with too few points)
+}
 
-  constructor(alpha: number = EMA_ALPHA) {
-    this.alpha = alpha;
+export function fitLine(xs: number[], ys: number[]): LineFit | null {
+  const count = Math.min(xs.length, ys.length);
+  if (count === 0) {
+    return null;
   }
 
-  /**
-   * Update with new value
-   */
-  update(newValue: number): number {
-    if (this.value === null) {
-      this.value = newValue;
-    } else {
-      this.value = this.alpha * newValue + (1 - this.alpha) * this.value;
-    }
-
-    return this.value;
+  let xSum = 0;
+  let ySum = 0;
+  for (let i = 0; i < count; i++) {
+    xSum += xs[i];
+    ySum += ys[i];
   }
-
-  /**
-   * Get current filtered value
-   */
-  getValue(): number | null {
-    return this.value;
+  const xMean = xSum / count;
+  const yMean = ySum / count;
+
+  let sxx = 0;
+  let sxy = 0;
+  for (let i = 0; i < count; i++) {
+    const dx = xs[i] - xMean;
+    sxx += dx * dx;
+    sxy += dx * (ys[i] - yMean);
   }
+  const slope = sxx > 0 ? sxy / sxx : 0;
 
-  /**
-   * Reset filter
-   */
-  reset(): void {
-    this.value = null;
+  let residualSquares = 0;
+  for (let i = 0; i < count; i++) {
+    const residual = ys[i] - (yMean + slope * (xs[i] - xMean));
+    residualSquares += residual * residual;
   }
+  const degreesOfFreedom = count - 2;
+
+  return {
+    xMean,
+    yAtMean: yMean,
+    slope,
+    count,
+    sxx,
+    residualStd: degreesOfFreedom > 0 ? Math.sqrt(residualSquares / degreesOfFreedom) : 0
+  };
 }
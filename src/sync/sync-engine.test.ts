@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'vitest';
+import { LeaderSyncEngine, PeerSyncEngine } from './sync-engine.js';
+import { VirtualClock } from '../sim/virtual-clock.js';
+import { ClockOffsetPayload, TimePingPayload, TimePongPayload } from '../types.js';
+
+function createLeaderEngine(mode: 'leader' | 'peer' = 'peer') {
+  const clock = new VirtualClock();
+  const pings: Array<{ ping: TimePingPayload; peerId?: string }> = [];
+  const offsets: Array<{ peerId: string; offset: ClockOffsetPayload }> = [];
+  const engine = new LeaderSyncEngine(
+    (ping, peerId) => pings.push({ ping, peerId }),
+    (peerId, offset) => offsets.push({ peerId, offset }),
+    mode,
+    clock.createTimebase()
+  );
+  return { clock, engine, pings, offsets };
+}
+
+function pongFor(ping: TimePingPayload, peerMs: number): TimePongPayload {
+  return { seq: ping.seq, t1LeaderMs: ping.t1LeaderMs, t2PeerMs: peerMs, t3PeerMs: peerMs };
+}
+
+describe('LeaderSyncEngine', () => {
+  it('pings fast while converging and slowly once every peer is stable', async () => {
+    const { clock, engine, pings } = createLeaderEngine();
+    engine.start();
+    engine.startSync('a');
+    expect(pings[0].peerId).toBe('a');
+
+    const answerAll = () => {
+      const { ping } = pings[pings.length - 1];
+      engine.handlePong('a', pongFor(ping, clock.now() + 100));
+    };
+
+    answerAll();
+    for (let i = 0; i < 4; i++) {
+      await clock.advance(500);
+      answerAll();
+    }
+    expect(pings).toHaveLength(5);
+    expect(engine.isConverging()).toBe(false);
+
+    // The ping after the fifth sample was already scheduled at the fast rate
+    await clock.advance(500);
+    expect(pings).toHaveLength(6);
+    await clock.advance(1999);
+    expect(pings).toHaveLength(6);
+    await clock.advance(1);
+    expect(pings).toHaveLength(7);
+    expect(pings[6].peerId).toBeUndefined();
+    engine.stop();
+  });
+
+  it('drops duplicated, stale and unknown pongs', async () => {
+    const { clock, engine, pings } = createLeaderEngine();
+    engine.start();
+    engine.startSync('a');
+    const first = pings[0].ping;
+
+    expect(engine.handlePong('a', pongFor(first, 50))).not.toBeNull();
+    expect(engine.handlePong('a', pongFor(first, 50))).toBeNull();
+    expect(
+      engine.handlePong('a', { ...pongFor(first, 50), t1LeaderMs: first.t1LeaderMs + 1 })
+    ).toBeNull();
+    expect(
+      engine.handlePong('a', { ...pongFor(first, 50), seq: 99, t1LeaderMs: first.t1LeaderMs })
+    ).toBeNull();
+    expect(engine.handlePong('b', pongFor(first, 50))).toBeNull();
+
+    // Far enough behind that the ping is no longer tracked
+    engine.startSync('b');
+    await clock.advance(20 * 2000);
+    expect(engine.handlePong('b', pongFor(first, 50))).toBeNull();
+    engine.stop();
+  });
+
+  it('sends receipts with the next broadcast ping in peer mode', async () => {
+    const { clock, engine, pings, offsets } = createLeaderEngine('peer');
+    engine.start();
+    engine.startSync('a');
+    await clock.advance(10);
+    engine.handlePong('a', pongFor(pings[0].ping, 1000));
+
+    await clock.advance(490);
+    expect(offsets).toHaveLength(0);
+    expect(pings[1].ping.receipts).toEqual([{ peerId: 'a', seq: 0, t4LeaderMs: 10 }]);
+    engine.stop();
+  });
+
+  it('sends computed offsets in leader mode', async () => {
+    const { clock, engine, pings, offsets } = createLeaderEngine('leader');
+    engine.start();
+    engine.startSync('a');
+    await clock.advance(10);
+    engine.handlePong('a', pongFor(pings[0].ping, 1005));
+
+    expect(offsets).toHaveLength(1);
+    expect(offsets[0].peerId).toBe('a');
+    expect(offsets[0].offset.offsetMs).toBeCloseTo(1000, 6);
+    await clock.advance(490);
+    expect(pings[1].ping.receipts).toBeUndefined();
+    engine.stop();
+  });
+});
+
+describe('PeerSyncEngine', () => {
+  it('completes exchanges from the leader receipts', async () => {
+    const clock = new VirtualClock();
+    const peerClock = clock.createTimebase({ offsetMs: 2500 });
+    const pongs: TimePongPayload[] = [];
+    const engine = new PeerSyncEngine('me', (pong) => pongs.push(pong), peerClock);
+
+    await clock.advance(10);
+    expect(engine.handlePing({ seq: 0, t1LeaderMs: 0 })).toBeNull();
+    expect(pongs[0].t2PeerMs).toBe(2510);
+
+    const stats = engine.handlePing({
+      seq: 1,
+      t1LeaderMs: 1000,
+      receipts: [
+        { peerId: 'someone-else', seq: 0, t4LeaderMs: 999 },
+        { peerId: 'me', seq: 0, t4LeaderMs: 20 }
+      ]
+    });
+    expect(stats?.offsetMs).toBeCloseTo(2500, 6);
+    expect(stats?.rtt).toBeCloseTo(20, 6);
+  });
+});
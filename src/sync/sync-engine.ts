@@ -3,105 +3,201 @@
  * Sends periodic pings to maintain accurate clock offset
  */
 
-import { ClockSync, ClockStats } from './clock.js';
-import { TimePingPayload, TimePongPayload } from '../types.js';
+import { ClockSync, ClockStats, ClockSyncMode } from './clock.js';
+import { Timebase, systemTimebase } from './timebase.js';
+import { ClockOffsetPayload, PongReceipt, TimePingPayload, TimePongPayload } from '../types.js';
 
-const PING_INTERVAL_MS = 1500; // Send ping every 1.5 seconds
+// Ping fast while any peer is still converging, slowly once every peer is stable
+const FAST_PING_INTERVAL_MS = 500;
+const SLOW_PING_INTERVAL_MS = 2000;
+// Pongs for pings older than this many are stale and dropped
+const MAX_TRACKED_PINGS = 16;
+// Pongs older than this many pings are not going to be receipted
+const MAX_UNRECEIPTED_PONGS = 8;
 
-export type PingSender = (payload: TimePingPayload) => void;
-export type StatsCallback = (stats: ClockStats) => void;
+/**
+ * Send a ping to one peer, or to the whole room when peerId is omitted
+ */
+export type PingSender = (payload: TimePingPayload, peerId?: string) => void;
+export type OffsetSender = (peerId: string, payload: ClockOffsetPayload) => void;
+export type StatsCallback = (peerId: string, stats: ClockStats) => void;
+
+interface PeerSync {
+  clockSync: ClockSync;
+  answeredSeqs: Set<number>; // Tracked pings this peer already answered
+}
 
 /**
  * Sync engine for leader side (sends pings)
+ *
+ * One broadcast ping stream serves the whole room. In leader clock sync the
+ * engine computes each peer's offset and hands it to sendOffset; in peer clock
+ * sync it attaches receipts to the next ping so peers compute their own.
  */
 export class LeaderSyncEngine {
-  private clockSync: Map<string, ClockSync> = new Map();
-  private pingSeq: Map<string, number> = new Map();
-  private pingTimers: Map<string, number> = new Map();
-  private sendPing: PingSender;
+  private peers: Map<string, PeerSync> = new Map();
+  private pingSeq = 0;
+  private sentPings: Map<number, number> = new Map(); // seq -> t1, oldest first
+  private pongReceipts: PongReceipt[] = [];
+  private pingTimerId: number | null = null;
   private onStatsUpdate: StatsCallback | null = null;
 
-  constructor(sendPing: PingSender) {
-    this.sendPing = sendPing;
+  constructor(
+    private readonly sendPing: PingSender,
+    private readonly sendOffset: OffsetSender,
+    private readonly mode: ClockSyncMode = 'peer',
+    private readonly timebase: Timebase = systemTimebase
+  ) {}
+
+  /**
+   * Start the room's ping stream
+   */
+  start(): void {
+    this.schedulePing();
+  }
+
+  /**
+   * Stop pinging and forget every peer
+   */
+  stop(): void {
+    this.clearPingTimer();
+    this.peers.clear();
+    this.sentPings.clear();
+    this.pongReceipts = [];
   }
 
   /**
    * Start syncing with a peer
    */
   startSync(peerId: string): void {
-    if (!this.clockSync.has(peerId)) {
-      this.clockSync.set(peerId, new ClockSync());
-      this.pingSeq.set(peerId, 0);
+    if (!this.peers.has(peerId)) {
+      this.peers.set(peerId, { clockSync: new ClockSync(), answeredSeqs: new Set() });
     }
 
-    this.schedulePing(peerId);
+    // Ping the newcomer right away and switch the stream to the fast rate.
+    this.sendPingTo(peerId);
+    if (this.pingTimerId !== null) {
+      this.schedulePing();
+    }
   }
 
   /**
    * Stop syncing with a peer
    */
   stopSync(peerId: string): void {
-    const timerId = this.pingTimers.get(peerId);
-    if (timerId) {
-      clearTimeout(timerId);
-      this.pingTimers.delete(peerId);
-    }
+    this.peers.delete(peerId);
+  }
 
-    this.clockSync.delete(peerId);
-    this.pingSeq.delete(peerId);
+  /**
+   * Whether any peer has not collected enough samples yet
+   */
+  isConverging(): boolean {
+    for (const peer of this.peers.values()) {
+      if (!peer.clockSync.getStats().stable) {
+        return true;
+      }
+    }
+    return false;
   }
 
   /**
    * Schedule next ping
    */
-  private schedulePing(peerId: string): void {
-    const timerId = window.setTimeout(() => {
-      this.sendPingToPeer(peerId);
-      this.schedulePing(peerId); // Schedule next ping
-    }, PING_INTERVAL_MS);
+  private schedulePing(): void {
+    this.clearPingTimer();
+    const intervalMs = this.isConverging() ? FAST_PING_INTERVAL_MS : SLOW_PING_INTERVAL_MS;
+    this.pingTimerId = this.timebase.setTimeout(() => {
+      this.pingTimerId = null;
+      this.sendPingTo();
+      this.schedulePing(); // Schedule next ping
+    }, intervalMs);
+  }
 
-    this.pingTimers.set(peerId, timerId);
+  private clearPingTimer(): void {
+    if (this.pingTimerId !== null) {
+      this.timebase.clearTimeout(this.pingTimerId);
+      this.pingTimerId = null;
+    }
   }
 
   /**
-   * Send ping to peer
+   * Send ping to one peer, or broadcast it (with any pending receipts)
    */
-  private sendPingToPeer(peerId: string): void {
-    const seq = this.pingSeq.get(peerId) ?? 0;
-    this.pingSeq.set(peerId, seq + 1);
-
+  private sendPingTo(peerId?: string): void {
+    const seq = this.pingSeq++;
     const payload: TimePingPayload = {
       seq,
-      t1LeaderMs: performance.now()
+      t1LeaderMs: this.timebase.now()
     };
 
-    this.sendPing(payload);
+    this.sentPings.set(seq, payload.t1LeaderMs);
+    while (this.sentPings.size > MAX_TRACKED_PINGS) {
+      const staleSeq = this.sentPings.keys().next().value as number;
+      this.sentPings.delete(staleSeq);
+      for (const peer of this.peers.values()) {
+        peer.answeredSeqs.delete(staleSeq);
+      }
+    }
+
+    if (!peerId && this.pongReceipts.length > 0) {
+      payload.receipts = this.pongReceipts;
+      this.pongReceipts = [];
+    }
+
+    this.sendPing(payload, peerId);
   }
 
   /**
    * Handle pong response from peer
+   *
+   * @returns Updated stats, or null if the pong was dropped (unknown peer,
+   *          stale or duplicated seq, or a seq/t1 pair this engine never sent)
    */
-  handlePong(peerId: string, pong: TimePongPayload): void {
-    const sync = this.clockSync.get(peerId);
-    if (!sync) {
-      return;
+  handlePong(peerId: string, pong: TimePongPayload): ClockStats | null {
+    const peer = this.peers.get(peerId);
+    if (!peer) {
+      return null;
+    }
+
+    const t4 = this.timebase.now();
+
+    if (
+      this.sentPings.get(pong.seq) !== pong.t1LeaderMs ||
+      peer.answeredSeqs.has(pong.seq) ||
+      !Number.isFinite(pong.t2PeerMs) ||
+      !Number.isFinite(pong.t3PeerMs)
+    ) {
+      return null;
     }
+    peer.answeredSeqs.add(pong.seq);
 
-    const t4 = performance.now();
+    const stats = peer.clockSync.processPong(pong.t1LeaderMs, pong.t2PeerMs, pong.t3PeerMs, t4);
 
-    const stats = sync.processPong(pong.t1LeaderMs, pong.t2PeerMs, pong.t3PeerMs, t4);
+    if (this.mode === 'peer') {
+      // The peer completes the exchange itself once the next ping tells it t4
+      this.pongReceipts.push({ peerId, seq: pong.seq, t4LeaderMs: t4 });
+    } else {
+      this.sendOffset(peerId, {
+        offsetMs: stats.offsetMs,
+        rtt: stats.rtt,
+        skewPpm: stats.skewPpm,
+        atLeaderMs: t4,
+        confidenceMs: stats.confidenceMs
+      });
+    }
 
     // Notify stats update
     if (this.onStatsUpdate) {
-      this.onStatsUpdate(stats);
+      this.onStatsUpdate(peerId, stats);
     }
+    return stats;
   }
 
   /**
    * Get clock sync for a peer
    */
   getClockSync(peerId: string): ClockSync | null {
-    return this.clockSync.get(peerId) ?? null;
+    return this.peers.get(peerId)?.clockSync ?? null;
   }
 
   /**
@@ -114,22 +210,33 @@ export class LeaderSyncEngine {
 
 /**
  * Sync engine for peer side (responds to pings)
+ *
+ * In peer-side clock sync the leader's broadcast pings carry receipts (t4) for
+ * earlier pongs, so the peer completes each exchange and runs its own ClockSync.
  */
 export class PeerSyncEngine {
   private clockSync: ClockSync;
   private pongSender: (payload: TimePongPayload) => void;
+  // Pongs waiting for the leader's receipt, by seq (oldest first)
+  private sentPongs: Map<number, TimePongPayload> = new Map();
 
-  constructor(pongSender: (payload: TimePongPayload) => void) {
+  constructor(
+    private readonly myId: string,
+    pongSender: (payload: TimePongPayload) => void,
+    private readonly timebase: Timebase = systemTimebase
+  ) {
     this.clockSync = new ClockSync();
     this.pongSender = pongSender;
   }
 
   /**
    * Handle ping from leader (respond immediately)
+   *
+   * @returns Updated clock stats if the ping completed one of our exchanges
    */
-  handlePing(pingPayload: TimePingPayload): void {
-    const t2 = performance.now(); // Receive time
-    const t3 = performance.now(); // Send time (minimize gap)
+  handlePing(pingPayload: TimePingPayload): ClockStats | null {
+    const t2 = this.timebase.now(); // Receive time
+    const t3 = this.timebase.now(); // Send time (minimize gap)
 
     const pong: TimePongPayload = {
       seq: pingPayload.seq,
@@ -140,6 +247,43 @@ export class PeerSyncEngine {
 
     // Send pong immediately
     this.pongSender(pong);
+    this.sentPongs.set(pong.seq, pong);
+    while (this.sentPongs.size > MAX_UNRECEIPTED_PONGS) {
+      this.sentPongs.delete(this.sentPongs.keys().next().value as number);
+    }
+
+    return this.processReceipts(pingPayload.receipts);
+  }
+
+  private processReceipts(receipts: PongReceipt[] | undefined): ClockStats | null {
+    if (!Array.isArray(receipts)) {
+      return null;
+    }
+
+    let stats: ClockStats | null = null;
+    for (const receipt of receipts) {
+      const pong = receipt?.peerId === this.myId ? this.sentPongs.get(receipt.seq) : undefined;
+      if (!pong || typeof receipt.t4LeaderMs !== 'number') {
+        continue;
+      }
+
+      this.sentPongs.delete(receipt.seq);
+      stats = this.clockSync.processPong(
+        pong.t1LeaderMs,
+        pong.t2PeerMs,
+        pong.t3PeerMs,
+        receipt.t4LeaderMs
+      );
+    }
+    return stats;
+  }
+
+  /**
+   * Forget all exchanges (new leader, new clock)
+   */
+  reset(): void {
+    this.sentPongs.clear();
+    this.clockSync.reset();
   }
 
   /**
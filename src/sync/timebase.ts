@@ -0,0 +1,27 @@
+/**
+ * Clock and timer source
+ * State machines, transports and the metronome read time and schedule work
+ * through this interface so a simulation can drive them on a virtual clock.
+ */
+
+export interface Timebase {
+  /**
+   * Current time in milliseconds (performance.now() in the browser)
+   */
+  now(): number;
+  setTimeout(callback: () => void, delayMs: number): number;
+  clearTimeout(id: number): void;
+  setInterval(callback: () => void, intervalMs: number): number;
+  clearInterval(id: number): void;
+}
+
+/**
+ * Browser timebase: performance.now() and window timers
+ */
+export const systemTimebase: Timebase = {
+  now: () => performance.now(),
+  setTimeout: (callback, delayMs) => window.setTimeout(callback, delayMs),
+  clearTimeout: (id) => window.clearTimeout(id),
+  setInterval: (callback, intervalMs) => window.setInterval(callback, intervalMs),
+  clearInterval: (id) => window.clearInterval(id)
+};
@@ -30,6 +30,12 @@ export type MessageType =
   | 'param_update'
   | 'clock_offset'
   | 'room_closed'
+  | 'control_request'
+  | 'control_result'
+  | 'leader_handoff'
+  | 'leader_handoff_ack'
+  | 'leader_beacon'
+  | 'sync_report'
   // Time sync channel messages (WebRTC DataChannel)
   | 'time_ping'
   | 'time_pong';
@@ -68,6 +74,55 @@ export interface IceCandidatePayload {
   sdpMLineIndex: number | null;
 }
 
+/**
+ * Accent level of a single beat within a bar
+ */
+export type AccentLevel = 'strong' | 'medium' | 'weak' | 'mute';
+
+/**
+ * Meter (time signature plus per-beat accent pattern)
+ */
+export interface Meter {
+  beatsPerBar: number;
+  noteValue: number; // Denominator of the time signature (4 in 3/4, 8 in 6/8)
+  accents: AccentLevel[]; // One entry per beat in the bar
+}
+
+/**
+ * Tempo curve shape for a ramp
+ */
+export type RampCurve = 'linear' | 'exponential';
+
+/**
+ * Tempo ramp starting at the grid anchor (accelerando/ritardando)
+ */
+export interface TempoRamp {
+  startBpm: number; // Tempo at the anchor beat
+  endBpm: number; // Tempo reached after durationBeats (and held afterwards)
+  durationBeats: number; // Ramp length in beats (bars are converted by the host)
+  curve: RampCurve;
+}
+
+/**
+ * One song of a host setlist
+ */
+export interface SetlistSong {
+  id: string;
+  title: string;
+  bpm: number;
+  meter: Meter;
+  bars?: number; // Song length used for auto-advance; open-ended when omitted
+}
+
+/**
+ * Ordered song sequence driven by the host
+ */
+export interface Setlist {
+  songs: SetlistSong[];
+  currentIndex: number;
+  autoAdvance: boolean; // Move to the next song when a song with `bars` ends
+}
+
 /**
  * Payload for start_announce (leader → peers)
  */
@@ -77,6 +132,9 @@ export interface StartAnnouncePayload {
   runId: number;
   anchorLeaderMs: number; // Timestamp in leader's performance.now() clock
   beatIndexAtAnchor: number; // Absolute beat index at anchor
+  meter?: Meter; // Omitted by older leaders (implies 4/4)
+  ramp?: TempoRamp; // When present, beat times follow the ramp from the anchor; bpm is its end tempo
+  countInBeats?: number; // Beats right before the anchor played as count-in (anchor = bar 1)
 }
 
 /**
@@ -84,15 +142,74 @@ export interface StartAnnouncePayload {
  */
 export interface ParamUpdatePayload {
   bpm?: number;
+  meter?: Meter;
   version: number;
 }
 
+/**
+ * Playback change a peer may ask the leader for
+ */
+export type ControlAction = 'start' | 'stop' | 'set_bpm';
+
+/**
+ * Payload for control_request (peer → leader)
+ */
+export interface ControlRequestPayload {
+  requestId: string;
+  action: ControlAction;
+  bpm?: number; // Required for set_bpm
+}
+
+/**
+ * Payload for control_result (leader → all peers)
+ */
+export interface ControlResultPayload {
+  requestId: string;
+  peerId: string; // Peer that asked for the change
+  action: ControlAction;
+  bpm?: number;
+  approved: boolean;
+  reason?: 'denied' | 'expired'; // Set when not approved
+}
+
+/**
+ * Payload for leader_handoff (leader → successor peer).
+ * Times are in the handing-off leader's performance.now() clock.
+ */
+export interface LeaderHandoffPayload {
+  bpm: number;
+  meter: Meter;
+  version: number;
+  runId: number;
+  running: boolean;
+  anchorLeaderMs?: number; // Set while running
+  beatIndexAtAnchor?: number;
+  ramp?: TempoRamp;
+  countInBeats?: number;
+}
+
 /**
  * Payload for clock offset update (leader -> peer)
  */
 export interface ClockOffsetPayload {
   offsetMs: number;
   rtt: number;
+  skewPpm?: number; // Peer clock drift against the leader (absent from older leaders)
+  atLeaderMs?: number; // Leader time offsetMs was evaluated at
+  confidenceMs?: number; // 95% confidence half-width of offsetMs
+}
+
+/**
+ * Payload for sync_report (peer → leader): the peer's own view of its sync
+ */
+export interface SyncReportPayload {
+  offsetMs: number;
+  rtt: number;
+  confidenceMs: number;
+  stable: boolean;
+  phaseCorrections: number; // Running phase-correction steps applied so far
+  lastPhaseCorrectionMs?: number; // Size of the latest step
+  outputLatencyMs?: number; // Audio output latency, where the browser reports it
 }
 
 /**
@@ -101,6 +218,16 @@ export interface ClockOffsetPayload {
 export interface TimePingPayload {
   seq: number;
   t1LeaderMs: number; // Leader send time
+  receipts?: PongReceipt[]; // Peer-side sync: arrival times of the pongs since the last ping
+}
+
+/**
+ * When the leader received a peer's pong, so the peer can complete the exchange itself
+ */
+export interface PongReceipt {
+  peerId: string;
+  seq: number;
+  t4LeaderMs: number; // Leader receive time
 }
 
 /**
@@ -129,10 +256,13 @@ export interface RoomState {
   roomId: string;
   leaderId: string;
   bpm: number;
+  meter: Meter;
   version: number;
   status: 'open' | 'running' | 'closed';
   startAtLeaderMs?: number;
   beatIndexAtAnchor?: number;
+  ramp?: TempoRamp; // Active ramp from the beat anchor (bpm is its end tempo)
+  countInBeats?: number; // Count-in before the current anchor (set only by a fresh start)
   peers: Record<string, PeerConnState>;
 }
 
@@ -296,6 +296,17 @@ export class LeaderConnectionManager {
     }
   }
 
+  /**
+   * Broadcast message on time-sync channel to all connected peers
+   */
+  broadcastTimeSync(data: any): void {
+    for (const peer of this.peers.values()) {
+      if (peer.connected) {
+        sendOnChannel(peer.channels.timeSync, data);
+      }
+    }
+  }
+
   /**
    * Send message on control channel to specific peer
    */
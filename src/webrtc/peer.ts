@@ -17,6 +17,8 @@ export class PeerConnectionManager {
   private onTimeSyncMessage: DataChannelMessageHandler | null = null;
   private onControlMessage: DataChannelMessageHandler | null = null;
   private onConnectedCallback: (() => void) | null = null;
+  private onPeerSeenCallback: ((peerId: string) => void) | null = null;
+  private onPeerLeftCallback: ((peerId: string) => void) | null = null;
 
   constructor(
     private roomId: string,
@@ -51,6 +53,14 @@ export class PeerConnectionManager {
         console.log(`👋 Leader hello from: ${from}`);
         break;
 
+      case 'join':
+        this.onPeerSeenCallback?.(from);
+        break;
+
+      case 'peer_bye':
+        this.onPeerLeftCallback?.(from);
+        break;
+
       case 'offer':
         await this.handleOffer(from, payload.sdp);
         break;
@@ -269,6 +279,20 @@ export class PeerConnectionManager {
     this.onConnectedCallback = callback;
   }
 
+  /**
+   * Register handler for join announcements of other peers
+   */
+  onPeerSeen(callback: (peerId: string) => void): void {
+    this.onPeerSeenCallback = callback;
+  }
+
+  /**
+   * Register handler for other peers leaving the room
+   */
+  onPeerLeft(callback: (peerId: string) => void): void {
+    this.onPeerLeftCallback = callback;
+  }
+
   /**
    * Send message on time-sync channel (respond to pings immediately)
    */